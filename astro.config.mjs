@@ -3,10 +3,11 @@
 import mdx from '@astrojs/mdx';
 import sitemap from '@astrojs/sitemap';
 import { defineConfig } from 'astro/config';
-import remarkMath from 'remark-math';
-import rehypeKatex from 'rehype-katex';
-import rehypeSlug from 'rehype-slug';
-import rehypeAutolinkHeadings from 'rehype-autolink-headings';
+import {
+  mathRemarkPlugins,
+  mathRehypePlugins,
+  headingRehypePlugins,
+} from './src/utils/markdownPlugins.ts';
 
 import tailwindcss from '@tailwindcss/vite';
 
@@ -18,18 +19,9 @@ export default defineConfig({
     sitemap(),
   ],
   markdown: {
-    remarkPlugins: [remarkMath],
-    rehypePlugins: [
-      rehypeSlug,
-      [rehypeAutolinkHeadings, {
-        behavior: 'wrap',
-        properties: {
-          className: ['heading-anchor'],
-          ariaLabel: 'Link to heading'
-        }
-      }],
-      rehypeKatex
-    ],
+    remarkPlugins: [...mathRemarkPlugins],
+    // KaTeX runs last so it sees the final heading markup
+    rehypePlugins: [...headingRehypePlugins, ...mathRehypePlugins],
   },
   vite: {
     plugins: [tailwindcss()],
@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+/**
+ * Presentation Export Script
+ *
+ * Renders every presentation of the built site to a PDF handout and one PNG per slide,
+ * using reveal.js print view (`?print-pdf`) in Playwright's Chromium with KaTeX rendered.
+ * Files go to public/exports/{lang}/{slug}/; the next build links them from the
+ * presentations index and the presentation header.
+ *
+ * Usage:
+ *   npm run build:handouts                                      # Build, export, rebuild with links
+ *   npm run export:presentations                                # Export from an existing dist/
+ *   npm run export:presentations -- linear-regression --lang id # One presentation, one language
+ *
+ * Needs the Playwright browsers (`npx playwright install chromium`).
+ */
+
+import { existsSync, readdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { preview } from 'astro';
+import { chromium, type Browser, type Page } from 'playwright';
+import type { Language } from '../src/i18n';
+import { PresentationExportStore } from '../src/infrastructure/presentation/PresentationExportStore';
+
+const DIST_DIR = join(process.cwd(), 'dist');
+const LANGUAGES: Language[] = ['en', 'id'];
+const READY_TIMEOUT = 60000;
+
+/**
+ * reveal.js settings, passed as query parameters, that give the image pass exactly one
+ * page per slide: a deck's own settings may add a page per fragment step or split a tall slide
+ */
+const ONE_PAGE_PER_SLIDE = 'pdfSeparateFragments=false&pdfMaxPagesPerSlide=1';
+
+/**
+ * Find the presentations of a language in the built site
+ */
+function findBuiltPresentations(language: Language): string[] {
+  const dir = join(DIST_DIR, language, 'presentations');
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && existsSync(join(dir, entry.name, 'index.html')))
+    .map((entry) => entry.name);
+}
+
+/**
+ * Open the print view of a presentation and wait until every slide is laid out
+ * with its math rendered (reveal-init.ts sets `exportReady`)
+ */
+async function openPrintView(page: Page, url: string): Promise<void> {
+  await page.goto(url, { waitUntil: 'networkidle' });
+  await page.waitForFunction(() => document.documentElement.dataset.exportReady === 'true', null, {
+    timeout: READY_TIMEOUT,
+  });
+}
+
+/**
+ * Export one presentation to a PDF and per-slide PNGs
+ * @returns The number of slide images written
+ */
+async function exportPresentation(
+  browser: Browser,
+  baseUrl: string,
+  store: PresentationExportStore,
+  slug: string,
+  language: Language
+): Promise<number> {
+  const directory = store.getDirectory(slug, language);
+  rmSync(directory, { recursive: true, force: true });
+
+  const url = `${baseUrl}/${language}/presentations/${slug}/?print-pdf`;
+  const page = await browser.newPage();
+  try {
+    // The handout follows the deck's own print settings
+    await openPrintView(page, url);
+    const pdf = `${slug}.pdf`;
+    await page.pdf({ path: join(directory, pdf), printBackground: true, preferCSSPageSize: true });
+
+    // reveal.js reads settings from the query string over the deck's config
+    await openPrintView(page, `${url}&${ONE_PAGE_PER_SLIDE}`);
+    const images: string[] = [];
+    const pages = await page.locator('.reveal .pdf-page').all();
+    for (const [index, slidePage] of pages.entries()) {
+      const image = `slide-${String(index + 1).padStart(2, '0')}.png`;
+      await slidePage.screenshot({ path: join(directory, image) });
+      images.push(image);
+    }
+
+    store.save(slug, language, { pdf, images, exportedAt: new Date().toISOString() });
+    return images.length;
+  } finally {
+    await page.close();
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const langIndex = args.indexOf('--lang');
+  const languages = langIndex >= 0 ? [args[langIndex + 1] as Language] : LANGUAGES;
+  const slugs = args.filter((arg, index) => !arg.startsWith('--') && (langIndex < 0 || index !== langIndex + 1));
+
+  if (!languages.every((language) => LANGUAGES.includes(language))) {
+    throw new Error(`Unknown language. Use one of: ${LANGUAGES.join(', ')}`);
+  }
+  if (!existsSync(DIST_DIR)) {
+    throw new Error('No dist/ folder found. Run `npm run build` first');
+  }
+
+  console.log('📄 Exporting presentations');
+  console.log('='.repeat(60));
+
+  const store = new PresentationExportStore();
+  const server = await preview({ root: process.cwd(), logLevel: 'warn' });
+  let browser: Browser | undefined;
+  let failures = 0;
+
+  try {
+    browser = await chromium.launch();
+    const baseUrl = `http://localhost:${server.port}`;
+
+    for (const language of languages) {
+      const presentations = findBuiltPresentations(language).filter((slug) => slugs.length === 0 || slugs.includes(slug));
+
+      for (const slug of presentations) {
+        try {
+          const count = await exportPresentation(browser, baseUrl, store, slug, language);
+          console.log(`  ✅ ${language}/${slug}: PDF + ${count} slide images`);
+        } catch (error) {
+          failures++;
+          console.error(`  ❌ ${language}/${slug}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+  } finally {
+    await browser?.close();
+    await server.stop();
+  }
+
+  if (failures > 0) {
+    throw new Error(`${failures} presentation(s) could not be exported`);
+  }
+
+  console.log('\n✅ Exports written to public/exports/. Rebuild to link them from the site.');
+}
+
+main().catch((error) => {
+  console.error('\n❌ Export failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
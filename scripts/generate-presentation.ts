@@ -0,0 +1,91 @@
+#!/usr/bin/env tsx
+/**
+ * Presentation Skeleton Generator
+ *
+ * Creates a presentation folder from an existing blog post: metadata.json from the
+ * frontmatter, one slide per H2, box components as slide callouts and slide times
+ * split over the post's estimatedReadingTime. The slides are a starting point to edit.
+ *
+ * Usage:
+ *   npm run presentation:generate -- <slug>             # blog-en/<slug> → presentations-en/<slug>
+ *   npm run presentation:generate -- <slug> --lang id   # blog-id/<slug> → presentations-id/<slug>
+ *   npm run presentation:generate -- <slug> --force     # Overwrite an existing presentation
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import matter from 'gray-matter';
+import type { Language } from '../src/i18n';
+import { generatePresentationSkeleton, type BlogPostFrontmatter } from '../src/utils/presentation/presentationSkeleton';
+
+const CONTENT_DIR = join(process.cwd(), 'src/content');
+const LANGUAGES: Language[] = ['en', 'id'];
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Find the post file of a slug (`.mdx` or `.md`)
+ */
+function findPostFile(slug: string, language: Language): { path: string; format: 'md' | 'mdx' } | null {
+  for (const format of ['mdx', 'md'] as const) {
+    const path = join(CONTENT_DIR, `blog-${language}`, `${slug}.${format}`);
+    if (existsSync(path)) {
+      return { path, format };
+    }
+  }
+  return null;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const slug = args.find((arg, index) => !arg.startsWith('--') && args[index - 1] !== '--lang');
+  const language = (getOption(args, '--lang') ?? 'en') as Language;
+
+  if (!slug) {
+    throw new Error('Usage: npm run presentation:generate -- <slug> [--lang en|id] [--force]');
+  }
+  if (!LANGUAGES.includes(language)) {
+    throw new Error(`Unknown language "${language}". Use one of: ${LANGUAGES.join(', ')}`);
+  }
+
+  const postFile = findPostFile(slug, language);
+  if (!postFile) {
+    throw new Error(`No blog post found at src/content/blog-${language}/${slug}.mdx or .md`);
+  }
+
+  const outputDir = join(CONTENT_DIR, `presentations-${language}`, slug);
+  if (existsSync(outputDir) && !args.includes('--force')) {
+    throw new Error(`src/content/presentations-${language}/${slug} already exists (use --force to overwrite)`);
+  }
+
+  const { data, content } = matter(readFileSync(postFile.path, 'utf-8'));
+  const skeleton = await generatePresentationSkeleton({
+    slug,
+    language,
+    format: postFile.format,
+    data: data as BlogPostFrontmatter,
+    body: content,
+  });
+
+  mkdirSync(outputDir, { recursive: true });
+  writeFileSync(join(outputDir, 'metadata.json'), JSON.stringify(skeleton.metadata, null, 2) + '\n');
+  writeFileSync(join(outputDir, 'slide-metadata.json'), JSON.stringify(skeleton.slideMetadata, null, 2) + '\n');
+  for (const [fileName, html] of Object.entries(skeleton.slides)) {
+    writeFileSync(join(outputDir, fileName), html + '\n');
+  }
+
+  console.log(`✅ Created src/content/presentations-${language}/${slug}`);
+  for (const slide of skeleton.slideMetadata) {
+    console.log(`  ${slide.fileName}  ${slide.time.padEnd(11)}  ${slide.title}`);
+  }
+  console.log(`\n⏱️  ${skeleton.metadata.totalSlides} slides, ${skeleton.metadata.estimatedTime} min`);
+  console.log('💡 Edit the slides, then run `npm run build` to validate the presentation');
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -8,12 +8,24 @@
  * Usage:
  *   npm run benchmark              # Run full benchmark suite
  *   npm run benchmark -- --quick   # Run single build (faster)
+ *   npm run benchmark:search       # Only compare search index payloads in dist/
  */
 
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
 import { writeFileSync, existsSync, readFileSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
+import { performance } from 'node:perf_hooks';
+import { gzipSync } from 'node:zlib';
+import {
+  createSearchIndex,
+  createSearchIndexFromPayload,
+  fuseOptions,
+  restoreSearchDocuments,
+  searchPosts,
+  type SearchableDocument,
+  type SearchIndexPayload,
+} from '../src/utils/search';
 
 const execAsync = promisify(exec);
 
@@ -27,14 +39,38 @@ interface BenchmarkResult {
   collectionCallCount?: number;
 }
 
+interface SearchLoadResult {
+  payloadBytes: number;
+  gzipBytes: number;
+  timeToFirstResult: number; // milliseconds
+}
+
+interface SearchIndexBenchmark {
+  language: 'en' | 'id';
+  query: string;
+  documentCount: number;
+  /** Full documents rebuilt into a Fuse index in the browser */
+  legacy: SearchLoadResult;
+  /** Prebuilt Fuse index plus slim document store */
+  prebuilt: SearchLoadResult;
+}
+
 interface BenchmarkSummary {
   runs: BenchmarkResult[];
   average: number;
   min: number;
   max: number;
   stdDev: number;
+  search?: SearchIndexBenchmark[];
 }
 
+const SEARCH_QUERIES: Record<'en' | 'id', string> = {
+  en: 'gradient descent',
+  id: 'regresi linear',
+};
+
+const SEARCH_RUNS = 5;
+
 /**
  * Clean build artifacts to ensure fresh build
  */
@@ -91,6 +127,89 @@ async function runBuild(scenario: string): Promise<BenchmarkResult> {
   }
 }
 
+/**
+ * Median time of running `fn` several times, in milliseconds
+ */
+function timeMedian(fn: () => void, runs: number = SEARCH_RUNS): number {
+  const times: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    fn();
+    times.push(performance.now() - start);
+  }
+  times.sort((a, b) => a - b);
+  return times[Math.floor(times.length / 2)];
+}
+
+/**
+ * Compare the prebuilt search index in dist/ against the old approach of
+ * shipping full documents and building the Fuse index in the browser.
+ * The old payload is rebuilt with each body taken from the index's normalised
+ * content, which is shorter than the source, so its size is a lower bound.
+ */
+function measureSearchIndex(language: 'en' | 'id'): SearchIndexBenchmark | null {
+  const payloadPath = join('dist', `search-index-${language}.json`);
+  if (!existsSync(payloadPath)) {
+    console.warn(`  ⚠️  ${payloadPath} not found - run a build first`);
+    return null;
+  }
+
+  const prebuiltJson = readFileSync(payloadPath, 'utf-8');
+  const payload: SearchIndexPayload = JSON.parse(prebuiltJson);
+  const contentKey = String(fuseOptions.keys?.findIndex((key) => (key as { name: string }).name === 'content'));
+  const records = payload.index.records as ReadonlyArray<{ i: number; $: Record<string, { v?: string }> }>;
+  const contentByDocument = new Map(records.map((record) => [record.i, record.$[contentKey]?.v ?? '']));
+  const legacyDocuments: SearchableDocument[] = restoreSearchDocuments(payload).map(({ passages, ...doc }, i) => ({
+    ...doc,
+    content: contentByDocument.get(i) ?? '',
+  }));
+  const legacyJson = JSON.stringify(legacyDocuments);
+  const query = SEARCH_QUERIES[language];
+
+  const legacyTime = timeMedian(() => {
+    const index = createSearchIndex(JSON.parse(legacyJson), language);
+    searchPosts(index, query, 1);
+  });
+  const prebuiltTime = timeMedian(() => {
+    const index = createSearchIndexFromPayload(JSON.parse(prebuiltJson));
+    searchPosts(index, query, 1);
+  });
+
+  return {
+    language,
+    query,
+    documentCount: payload.documents.length,
+    legacy: {
+      payloadBytes: Buffer.byteLength(legacyJson),
+      gzipBytes: gzipSync(legacyJson).length,
+      timeToFirstResult: legacyTime,
+    },
+    prebuilt: {
+      payloadBytes: Buffer.byteLength(prebuiltJson),
+      gzipBytes: gzipSync(prebuiltJson).length,
+      timeToFirstResult: prebuiltTime,
+    },
+  };
+}
+
+/**
+ * Display search index comparison
+ */
+function displaySearchResults(results: SearchIndexBenchmark[]): void {
+  const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+  console.log(`\n🔍 Search Index (median of ${SEARCH_RUNS} loads):`);
+  for (const result of results) {
+    const sizeChange = ((result.prebuilt.gzipBytes - result.legacy.gzipBytes) / result.legacy.gzipBytes) * 100;
+    const speedup = result.legacy.timeToFirstResult / result.prebuilt.timeToFirstResult;
+
+    console.log(`   [${result.language}] ${result.documentCount} documents, query "${result.query}"`);
+    console.log(`     Legacy:   ${kb(result.legacy.payloadBytes)} (${kb(result.legacy.gzipBytes)} gzip), first result in ${result.legacy.timeToFirstResult.toFixed(1)}ms`);
+    console.log(`     Prebuilt: ${kb(result.prebuilt.payloadBytes)} (${kb(result.prebuilt.gzipBytes)} gzip), first result in ${result.prebuilt.timeToFirstResult.toFixed(1)}ms`);
+    console.log(`     Gzip size: ${sizeChange > 0 ? '+' : ''}${sizeChange.toFixed(1)}%, Speedup: ${speedup.toFixed(1)}x`);
+  }
+}
+
 /**
  * Calculate statistics for multiple runs
  */
@@ -151,6 +270,10 @@ function displaySummary(summary: BenchmarkSummary, baseline?: BenchmarkSummary |
     console.log(`   Pages: ${firstRun.pageCount}`);
   }
 
+  if (summary.search?.length) {
+    displaySearchResults(summary.search);
+  }
+
   if (baseline) {
     const improvement = ((baseline.average - summary.average) / baseline.average) * 100;
     const improvementSymbol = improvement > 0 ? '🚀' : '⚠️';
@@ -183,6 +306,14 @@ async function main(): Promise<void> {
   const quickMode = args.includes('--quick');
   const runs = quickMode ? 1 : 3;
 
+  if (args.includes('--search-only')) {
+    const search = (['en', 'id'] as const)
+      .map(measureSearchIndex)
+      .filter((result): result is SearchIndexBenchmark => result !== null);
+    displaySearchResults(search);
+    return;
+  }
+
   console.log(`Mode: ${quickMode ? 'Quick (1 run)' : 'Full (3 runs)'}`);
   console.log('='.repeat(60));
 
@@ -204,6 +335,9 @@ async function main(): Promise<void> {
 
   // Calculate and display summary
   const summary = calculateStats(results);
+  summary.search = (['en', 'id'] as const)
+    .map(measureSearchIndex)
+    .filter((result): result is SearchIndexBenchmark => result !== null);
   const baseline = loadPreviousBaseline();
 
   displaySummary(summary, baseline);
@@ -20,10 +20,33 @@ export interface ShareData {
   url: string;
 }
 
+/**
+ * Build the reveal.js hash of a slide
+ * Vertical slides add their position in the section (`#/h/v`); top slides keep `#/h`
+ *
+ * @param {number} h - Horizontal index (0-based)
+ * @param {number} [v=0] - Vertical index in the section (0-based)
+ * @returns {string} Hash such as "#/3" or "#/3/1"
+ */
+export function getSlideHash(h: number, v: number = 0): string {
+  return v > 0 ? `#/${h}/${v}` : `#/${h}`;
+}
+
+/**
+ * Get the label of a slide in `h.v` style (1-based): "4" for a top slide, "4.2" below it
+ *
+ * @param {number} h - Horizontal index (0-based)
+ * @param {number} [v=0] - Vertical index in the section (0-based)
+ * @returns {string} Slide label
+ */
+export function getSlideLabel(h: number, v: number = 0): string {
+  return v > 0 ? `${h + 1}.${v + 1}` : `${h + 1}`;
+}
+
 /**
  * Get the current slide's shareable URL with hash navigation
  *
- * @returns {string} Full URL with slide hash (e.g., "https://example.com/presentation#/3")
+ * @returns {string} Full URL with slide hash (e.g., "https://example.com/presentation#/3" or ".../presentation#/3/1")
  * @example
  * ```typescript
  * const url = getCurrentShareUrl();
@@ -34,7 +57,7 @@ export function getCurrentShareUrl(): string {
   const deck = (window as any).Reveal;
   if (deck) {
     const indices = deck.getIndices();
-    return window.location.origin + window.location.pathname + `#/${indices.h}`;
+    return window.location.origin + window.location.pathname + getSlideHash(indices.h, indices.v);
   }
   return window.location.href;
 }
@@ -61,7 +84,7 @@ export function getCurrentShareText(): ShareData {
     }
     const indices = deck.getIndices();
     return {
-      title: `${slideTitle} - Slide ${indices.h + 1}`,
+      title: `${slideTitle} - Slide ${getSlideLabel(indices.h, indices.v)}`,
       text: `Check out this slide: ${slideTitle}`,
       url: getCurrentShareUrl()
     };
@@ -0,0 +1,3 @@
+// Export quiz components for easy importing
+export { default as Quiz } from './Quiz.astro';
+export { default as Question } from './Question.astro';
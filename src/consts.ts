@@ -7,3 +7,6 @@ export const SITE_AUTHOR = 'QuiverLearn Team';
 export const SITE_EMAIL = 'hello@quiverlearn.com';
 export const GITHUB_URL = 'https://github.com/quiverlearn';
 export const TWITTER_URL = 'https://twitter.com/quiverlearn';
+
+// Whether feed items carry the full post ('full') or only its description ('summary')
+export const FEED_CONTENT: 'full' | 'summary' = 'full';
@@ -20,6 +20,8 @@ const blogSchema = ({ image }: { image: any }) =>
 		estimatedReadingTime: z.number().optional(), // in minutes
 		featured: z.boolean().default(false),
 		draft: z.boolean().default(false),
+		// Posts to read first: slugs in the same language, or `presentation:<slug>`
+		prerequisites: z.array(z.string()).default([]),
 		// i18n fields
 		language: z.enum(['en', 'id']),
 		translationId: z.string().optional(), // Links related translations
@@ -49,8 +51,38 @@ const blogId = defineCollection({
 	schema: blogSchema,
 });
 
+// Text given in every supported language
+const localizedText = z.object({
+	en: z.string().min(1),
+	id: z.string().min(1),
+});
+
+// Learning paths: ordered curricula over posts and presentations in both languages
+const learningPaths = defineCollection({
+	loader: glob({ base: './src/content/learning-paths', pattern: '**/*.{md,mdx}' }),
+	schema: z.object({
+		title: localizedText,
+		description: localizedText,
+		difficulty: z.enum(['beginner', 'intermediate', 'advanced']).default('beginner'),
+		prerequisites: z.array(z.string()).default([]), // IDs of paths to finish first
+		steps: z.array(z.object({
+			type: z.enum(['post', 'presentation']),
+			// One slug for both languages, or a slug per language
+			slug: z.union([
+				z.string().min(1),
+				z.object({
+					en: z.string().optional(),
+					id: z.string().optional(),
+				}).refine((slugs) => slugs.en || slugs.id, 'A step needs a slug in at least one language'),
+			]),
+		})).min(1),
+		draft: z.boolean().default(false),
+	}),
+});
+
 export const collections = {
 	blog, // Keep for backward compatibility during migration
 	'blog-en': blogEn,
 	'blog-id': blogId,
+	'learning-paths': learningPaths,
 };
@@ -135,6 +135,41 @@ export class BlogPost {
 		return this.tags.map((tag) => tag.toLowerCase().replace(/\s+/g, '-'));
 	}
 
+	/**
+	 * Get the author
+	 */
+	get author(): string {
+		return this.entry.data.author;
+	}
+
+	/**
+	 * Get the raw Markdown/MDX source of the post
+	 */
+	get body(): string {
+		return this.entry.body ?? '';
+	}
+
+	/**
+	 * Get the source format, from the file extension
+	 */
+	get format(): 'md' | 'mdx' {
+		return this.entry.filePath?.endsWith('.mdx') ? 'mdx' : 'md';
+	}
+
+	/**
+	 * Get the prerequisite references (see PrerequisiteGraph)
+	 */
+	get prerequisites(): string[] {
+		return this.entry.data.prerequisites || [];
+	}
+
+	/**
+	 * Get the ID shared by the translations of the post (the slug when not set)
+	 */
+	get translationId(): string {
+		return this.entry.data.translationId || this.slug;
+	}
+
 	/**
 	 * Get the draft status
 	 */
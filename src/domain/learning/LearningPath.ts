@@ -0,0 +1,270 @@
+/**
+ * Learning path domain model
+ * An ordered curriculum of blog posts and presentations
+ */
+
+import type { Language } from '../../i18n';
+
+export type LearningPathStepType = 'post' | 'presentation';
+export type LearningPathDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+/**
+ * Raw step data as stored in the learning-paths collection
+ */
+export interface LearningPathStepData {
+  type: LearningPathStepType;
+  /** One slug for both languages, or a slug per language */
+  slug: string | Partial<Record<Language, string>>;
+}
+
+/**
+ * Raw learning path data as stored in the learning-paths collection
+ */
+export interface LearningPathData {
+  title: Record<Language, string>;
+  description: Record<Language, string>;
+  difficulty: LearningPathDifficulty;
+  prerequisites: string[];
+  steps: LearningPathStepData[];
+}
+
+const LANGUAGES: Language[] = ['en', 'id'];
+
+/**
+ * A single step in a learning path, pointing to a post or presentation
+ */
+export class LearningPathStep {
+  readonly type: LearningPathStepType;
+  readonly position: number;
+  private readonly slugs: Partial<Record<Language, string>>;
+
+  constructor(data: LearningPathStepData, position: number) {
+    if (data.type !== 'post' && data.type !== 'presentation') {
+      throw new Error(`Invalid learning path step type: ${data.type}`);
+    }
+
+    const { slug } = data;
+    const slugs: Partial<Record<Language, string>> = typeof slug === 'string'
+      ? Object.fromEntries(LANGUAGES.map((lang) => [lang, slug]))
+      : slug;
+
+    if (!LANGUAGES.some((lang) => slugs[lang]?.trim())) {
+      throw new Error(`Learning path step ${position} needs a slug in at least one language`);
+    }
+
+    this.type = data.type;
+    this.position = position;
+    this.slugs = slugs;
+  }
+
+  /**
+   * Get the slug of this step in a language
+   */
+  getSlug(language: Language): string | undefined {
+    return this.slugs[language] || undefined;
+  }
+
+  /**
+   * Get the languages this step has a slug for
+   */
+  getLanguages(): Language[] {
+    return LANGUAGES.filter((lang) => !!this.slugs[lang]);
+  }
+
+  /**
+   * Check if this step points to the given post or presentation
+   */
+  matches(type: LearningPathStepType, slug: string, language: Language): boolean {
+    return this.type === type && this.slugs[language] === slug;
+  }
+
+  /**
+   * Get the URL of this step in a language
+   */
+  getUrl(language: Language): string | undefined {
+    const slug = this.getSlug(language);
+    if (!slug) return undefined;
+
+    return this.type === 'post'
+      ? `/${language}/blog/${slug}/`
+      : `/${language}/presentations/${slug}/`;
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      type: this.type,
+      position: this.position,
+      slug: { ...this.slugs },
+    };
+  }
+}
+
+/**
+ * Steps around the current one in a learning path
+ */
+export interface LearningPathNeighbours {
+  current: LearningPathStep;
+  previous?: LearningPathStep;
+  next?: LearningPathStep;
+}
+
+/**
+ * Rich domain model for LearningPath
+ */
+export class LearningPath {
+  readonly id: string;
+  readonly data: LearningPathData;
+  readonly steps: LearningPathStep[];
+
+  constructor(id: string, data: LearningPathData) {
+    this.validateData(id, data);
+
+    this.id = id;
+    this.data = data;
+    this.steps = data.steps.map((step, index) => new LearningPathStep(step, index + 1));
+
+    this.validateSteps();
+  }
+
+  /**
+   * Validate learning path data
+   */
+  private validateData(id: string, data: LearningPathData): void {
+    if (!id || id.trim().length === 0) {
+      throw new Error('Learning path id is required');
+    }
+
+    for (const lang of LANGUAGES) {
+      if (!data.title?.[lang] || data.title[lang].trim().length === 0) {
+        throw new Error(`Learning path ${id}: title is required in "${lang}"`);
+      }
+    }
+
+    if (!data.steps || data.steps.length === 0) {
+      throw new Error(`Learning path ${id}: at least one step is required`);
+    }
+
+    if (!['beginner', 'intermediate', 'advanced'].includes(data.difficulty)) {
+      throw new Error(`Learning path ${id}: invalid difficulty level`);
+    }
+
+    if (data.prerequisites.includes(id)) {
+      throw new Error(`Learning path ${id} cannot be its own prerequisite`);
+    }
+  }
+
+  /**
+   * Reject paths that list the same post or presentation twice
+   */
+  private validateSteps(): void {
+    for (const lang of LANGUAGES) {
+      const seen = new Set<string>();
+
+      for (const step of this.steps) {
+        const slug = step.getSlug(lang);
+        if (!slug) continue;
+
+        const key = `${step.type}:${slug}`;
+        if (seen.has(key)) {
+          throw new Error(`Learning path ${this.id}: ${step.type} "${slug}" appears more than once`);
+        }
+        seen.add(key);
+      }
+    }
+  }
+
+  /**
+   * Get the path title in a language
+   */
+  getTitle(language: Language): string {
+    return this.data.title[language];
+  }
+
+  /**
+   * Get the path description in a language
+   */
+  getDescription(language: Language): string {
+    return this.data.description[language];
+  }
+
+  /**
+   * Get the path difficulty level
+   */
+  getDifficulty(): LearningPathDifficulty {
+    return this.data.difficulty;
+  }
+
+  /**
+   * Get the IDs of paths to finish before this one
+   */
+  getPrerequisites(): string[] {
+    return [...this.data.prerequisites]; // Return a copy
+  }
+
+  /**
+   * Check if another path must be finished before this one
+   */
+  hasPrerequisite(pathId: string): boolean {
+    return this.data.prerequisites.includes(pathId);
+  }
+
+  /**
+   * Get the number of steps
+   */
+  getStepCount(): number {
+    return this.steps.length;
+  }
+
+  /**
+   * Get a specific step by position (1-based)
+   */
+  getStep(position: number): LearningPathStep | undefined {
+    return this.steps[position - 1];
+  }
+
+  /**
+   * Find the step pointing to a post or presentation
+   */
+  findStep(type: LearningPathStepType, slug: string, language: Language): LearningPathStep | undefined {
+    return this.steps.find((step) => step.matches(type, slug, language));
+  }
+
+  /**
+   * Check if the path includes a post or presentation
+   */
+  contains(type: LearningPathStepType, slug: string, language: Language): boolean {
+    return !!this.findStep(type, slug, language);
+  }
+
+  /**
+   * Get the steps before and after a post or presentation
+   * @returns null if the path doesn't include it
+   */
+  getNeighbours(type: LearningPathStepType, slug: string, language: Language): LearningPathNeighbours | null {
+    const current = this.findStep(type, slug, language);
+    if (!current) return null;
+
+    return {
+      current,
+      previous: this.getStep(current.position - 1),
+      next: this.getStep(current.position + 1),
+    };
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      title: this.data.title,
+      description: this.data.description,
+      difficulty: this.data.difficulty,
+      prerequisites: this.getPrerequisites(),
+      steps: this.steps.map((step) => step.toJSON()),
+    };
+  }
+}
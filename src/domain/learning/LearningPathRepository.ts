@@ -0,0 +1,35 @@
+/**
+ * Repository interface for LearningPath data access
+ * Provides an abstraction over the data source (content collection, etc.)
+ */
+
+import type { Language } from '../../i18n';
+import type { LearningPath, LearningPathStepType } from './LearningPath';
+
+/**
+ * Repository interface for accessing learning paths
+ * Returns domain models (LearningPath) instead of raw data
+ */
+export interface LearningPathRepository {
+  /**
+   * Find all published learning paths
+   * @returns Array of LearningPath domain models
+   */
+  findAll(): Promise<LearningPath[]>;
+
+  /**
+   * Find a learning path by its ID
+   * @param id The learning path ID
+   * @returns The LearningPath domain model or null if not found
+   */
+  findById(id: string): Promise<LearningPath | null>;
+
+  /**
+   * Find all learning paths that include a post or presentation
+   * @param type Whether the slug is a post or presentation
+   * @param slug The post or presentation slug
+   * @param language The language code
+   * @returns Array of LearningPath domain models
+   */
+  findContaining(type: LearningPathStepType, slug: string, language: Language): Promise<LearningPath[]>;
+}
@@ -0,0 +1,185 @@
+/**
+ * Prerequisite graph domain service
+ * Links posts and presentations to the content that should be read first
+ */
+
+import type { LearningPathStepType } from './LearningPath';
+
+/**
+ * A post or presentation in the graph
+ */
+export interface ContentReference {
+  type: LearningPathStepType;
+  slug: string;
+}
+
+/**
+ * A graph node with its raw prerequisite references.
+ * A plain slug refers to content of the same type; `post:<slug>` and
+ * `presentation:<slug>` refer to the other type.
+ */
+export interface PrerequisiteNode extends ContentReference {
+  prerequisites: string[];
+}
+
+/**
+ * A problem found while validating the graph
+ */
+export interface PrerequisiteProblem {
+  kind: 'missing' | 'cycle';
+  message: string;
+}
+
+/**
+ * Directed graph of prerequisites for one language
+ */
+export class PrerequisiteGraph {
+  private readonly nodes = new Map<string, ContentReference>();
+  private readonly edges = new Map<string, ContentReference[]>();
+
+  constructor(nodes: PrerequisiteNode[]) {
+    for (const { type, slug } of nodes) {
+      this.nodes.set(PrerequisiteGraph.keyOf({ type, slug }), { type, slug });
+    }
+
+    for (const node of nodes) {
+      this.edges.set(
+        PrerequisiteGraph.keyOf(node),
+        node.prerequisites.map((reference) => PrerequisiteGraph.parseReference(reference, node.type))
+      );
+    }
+  }
+
+  /**
+   * Parse a prerequisite reference, defaulting to the type of the content that lists it
+   */
+  static parseReference(reference: string, defaultType: LearningPathStepType): ContentReference {
+    const match = reference.trim().match(/^(post|presentation):(.+)$/);
+    return match
+      ? { type: match[1] as LearningPathStepType, slug: match[2].trim() }
+      : { type: defaultType, slug: reference.trim() };
+  }
+
+  /**
+   * Unique key for a post or presentation
+   */
+  static keyOf(reference: ContentReference): string {
+    return `${reference.type}:${reference.slug}`;
+  }
+
+  /**
+   * Check if the graph contains a post or presentation
+   */
+  has(reference: ContentReference): boolean {
+    return this.nodes.has(PrerequisiteGraph.keyOf(reference));
+  }
+
+  /**
+   * Get the prerequisites listed directly on a post or presentation
+   */
+  getDirectPrerequisites(reference: ContentReference): ContentReference[] {
+    return [...(this.edges.get(PrerequisiteGraph.keyOf(reference)) ?? [])];
+  }
+
+  /**
+   * Find references to content that doesn't exist and prerequisite cycles
+   */
+  validate(): PrerequisiteProblem[] {
+    const problems: PrerequisiteProblem[] = [];
+
+    for (const [key, prerequisites] of this.edges) {
+      for (const prerequisite of prerequisites) {
+        if (!this.has(prerequisite)) {
+          problems.push({
+            kind: 'missing',
+            message: `${key} lists missing prerequisite ${PrerequisiteGraph.keyOf(prerequisite)}`,
+          });
+        }
+      }
+    }
+
+    for (const cycle of this.findCycles()) {
+      problems.push({
+        kind: 'cycle',
+        message: `Prerequisite cycle: ${[...cycle, cycle[0]].join(' → ')}`,
+      });
+    }
+
+    return problems;
+  }
+
+  /**
+   * Throw if the graph has missing prerequisites or cycles
+   * @param context - Added to the error message, e.g. the language of the graph
+   */
+  assertValid(context?: string): void {
+    const problems = this.validate();
+
+    if (problems.length > 0) {
+      const label = context ? `Invalid prerequisites (${context})` : 'Invalid prerequisites';
+      throw new Error(`${label}:\n${problems.map((problem) => `  - ${problem.message}`).join('\n')}`);
+    }
+  }
+
+  /**
+   * Find every prerequisite cycle, each listed once starting from its smallest key
+   */
+  findCycles(): string[][] {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const cycles = new Map<string, string[]>();
+
+    const visit = (key: string) => {
+      state.set(key, 'visiting');
+      stack.push(key);
+
+      for (const prerequisite of this.edges.get(key) ?? []) {
+        const next = PrerequisiteGraph.keyOf(prerequisite);
+        if (!this.nodes.has(next)) continue;
+
+        if (state.get(next) === 'visiting') {
+          const cycle = stack.slice(stack.indexOf(next));
+          const start = cycle.indexOf([...cycle].sort()[0]);
+          const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+          cycles.set(normalized.join('|'), normalized);
+        } else if (!state.has(next)) {
+          visit(next);
+        }
+      }
+
+      stack.pop();
+      state.set(key, 'done');
+    };
+
+    for (const key of this.nodes.keys()) {
+      if (!state.has(key)) visit(key);
+    }
+
+    return [...cycles.values()];
+  }
+
+  /**
+   * Everything to read before a post or presentation, in reading order:
+   * each item comes after its own prerequisites. The content itself is
+   * not included. Missing references and cycles are skipped.
+   */
+  getReadingOrder(reference: ContentReference): ContentReference[] {
+    const rootKey = PrerequisiteGraph.keyOf(reference);
+    const visited = new Set<string>([rootKey]);
+    const order: ContentReference[] = [];
+
+    const visit = (key: string) => {
+      for (const prerequisite of this.edges.get(key) ?? []) {
+        const next = PrerequisiteGraph.keyOf(prerequisite);
+        if (visited.has(next) || !this.nodes.has(next)) continue;
+
+        visited.add(next);
+        visit(next);
+        order.push(this.nodes.get(next)!);
+      }
+    };
+
+    visit(rootKey);
+    return order;
+  }
+}
@@ -4,10 +4,54 @@
  */
 
 import type { Language } from '../blog/types';
+import type { RevealConfig } from '../../utils/presentation/schemas';
 import { Slide, type SlideData } from './Slide';
 
 export type PresentationDifficulty = 'beginner' | 'intermediate' | 'advanced';
 
+/**
+ * Slide layout: square ("instagram") or 16:9 ("fullscreen")
+ */
+export type PresentationDisplayMode = 'instagram' | 'fullscreen';
+
+export const DEFAULT_DISPLAY_MODE: PresentationDisplayMode = 'instagram';
+
+/**
+ * A slide's place in the planned schedule, in seconds from the start of the deck
+ */
+export interface PlannedSlide {
+  slideNumber: number;
+  title: string;
+  start: number;
+  end: number;
+  duration: number;
+}
+
+/**
+ * Slide timings reconciled against the presentation's estimated time
+ */
+export interface TimingSummary {
+  /** End of the last planned slide */
+  plannedSeconds: number;
+  /** Sum of the slide durations (less than plannedSeconds when there are gaps) */
+  slideSeconds: number;
+  /** `estimatedTime` from the metadata */
+  estimatedSeconds: number;
+  /** plannedSeconds - estimatedSeconds */
+  differenceSeconds: number;
+  /** Unplanned time before a slide whose range starts after the previous one ends */
+  gaps: { slideNumber: number; seconds: number }[];
+  /** Slides whose range starts before the previous one ends */
+  overlaps: { slideNumber: number; seconds: number }[];
+  /** Slides whose time can't be parsed */
+  untimedSlides: number[];
+}
+
+/**
+ * Difference between planned and estimated time that still counts as consistent
+ */
+export const TIMING_TOLERANCE_SECONDS = 60;
+
 /**
  * Presentation metadata
  */
@@ -15,7 +59,11 @@ export interface PresentationMetadata {
   title: string;
   description: string;
   pubDate: string;
+  updatedDate?: string;
+  /** Shared by the translations of the presentation; defaults to the slug */
+  translationId?: string;
   relatedBlogPost?: string;
+  prerequisites?: string[];
   category: string;
   tags: string[];
   difficulty: PresentationDifficulty;
@@ -23,6 +71,13 @@ export interface PresentationMetadata {
   estimatedTime: number;
   totalSlides: number;
   author: string;
+  displayMode?: PresentationDisplayMode;
+  /** reveal.js theme name, or "custom" for the site theme */
+  theme?: string;
+  /** reveal.js settings for this deck, validated against RevealConfigSchema */
+  reveal?: RevealConfig;
+  /** Completion rule for this deck, merged over the site default */
+  completion?: { minShare?: number; minDwellSeconds?: number };
 }
 
 /**
@@ -100,13 +155,35 @@ export class Presentation {
     return this.metadata.relatedBlogPost;
   }
 
+  /**
+   * Get the prerequisite references (see PrerequisiteGraph)
+   */
+  getPrerequisites(): string[] {
+    return [...(this.metadata.prerequisites ?? [])]; // Return a copy
+  }
+
   /**
    * Get the number of slides
+   * Counts horizontal sections, like `totalSlides` in the metadata
    */
   getSlideCount(): number {
     return this.slides.length;
   }
 
+  /**
+   * Get the number of slides including the vertical slides of each section
+   */
+  getTotalSlideCount(): number {
+    return this.slides.reduce((total, slide) => total + slide.getSectionSize(), 0);
+  }
+
+  /**
+   * Check if any section has vertical slides
+   */
+  hasVerticalSlides(): boolean {
+    return this.slides.some((slide) => slide.hasVerticalSlides());
+  }
+
   /**
    * Get a specific slide by index (0-based)
    */
@@ -114,6 +191,14 @@ export class Presentation {
     return this.slides[index];
   }
 
+  /**
+   * Get a slide by its reveal.js indices (0-based section, 0-based position in the section)
+   */
+  getSlideAt(h: number, v: number = 0): Slide | undefined {
+    const slide = this.slides[h];
+    return v === 0 ? slide : slide?.getVerticalSlides()[v - 1];
+  }
+
   /**
    * Get a specific slide by number (1-based)
    */
@@ -163,6 +248,34 @@ export class Presentation {
     return this.metadata.difficulty === 'advanced';
   }
 
+  /**
+   * Get the slide layout
+   */
+  getDisplayMode(): PresentationDisplayMode {
+    return this.metadata.displayMode ?? DEFAULT_DISPLAY_MODE;
+  }
+
+  /**
+   * Get the reveal.js theme
+   */
+  getTheme(): string {
+    return this.metadata.theme ?? 'custom';
+  }
+
+  /**
+   * Get the reveal.js settings of this deck (without the site defaults)
+   */
+  getRevealSettings(): RevealConfig {
+    return { ...this.metadata.reveal }; // Return a copy
+  }
+
+  /**
+   * Get the completion rule settings of this deck (without the site default)
+   */
+  getCompletionSettings(): { minShare?: number; minDwellSeconds?: number } {
+    return { ...this.metadata.completion }; // Return a copy
+  }
+
   /**
    * Get the estimated completion time in minutes
    */
@@ -177,6 +290,28 @@ export class Presentation {
     return new Date(this.metadata.pubDate);
   }
 
+  /**
+   * Get the update date (if exists)
+   */
+  getUpdatedDate(): Date | undefined {
+    return this.metadata.updatedDate ? new Date(this.metadata.updatedDate) : undefined;
+  }
+
+  /**
+   * Get the most recent date (updated or published)
+   */
+  getMostRecentDate(): Date {
+    const updated = this.getUpdatedDate();
+    return updated && updated > this.getPubDate() ? updated : this.getPubDate();
+  }
+
+  /**
+   * Get the ID shared by the translations of the presentation (the slug when not set)
+   */
+  getTranslationId(): string {
+    return this.metadata.translationId || this.id;
+  }
+
   /**
    * Get formatted publication date
    */
@@ -231,12 +366,75 @@ export class Presentation {
   }
 
   /**
-   * Calculate total estimated reading time based on slides
+   * Calculate total estimated reading time based on slides, in seconds
    */
   calculateTotalTime(): number {
     return this.slides.reduce((total, slide) => total + slide.getEstimatedTime(), 0);
   }
 
+  /**
+   * Get the planned schedule of the slides
+   * Ranges keep their place in the deck; durations follow the previous slide
+   */
+  getSchedule(): PlannedSlide[] {
+    let cursor = 0;
+
+    return this.slides.map((slide) => {
+      const timing = slide.getTiming();
+      const start = timing?.getStart() ?? cursor;
+      const duration = timing?.getDuration() ?? 0;
+      cursor = start + duration;
+
+      return {
+        slideNumber: slide.getSlideNumber(),
+        title: slide.getTitle(),
+        start,
+        end: cursor,
+        duration,
+      };
+    });
+  }
+
+  /**
+   * Reconcile the slide timings with the estimated time in the metadata
+   */
+  getTimingSummary(): TimingSummary {
+    const schedule = this.getSchedule();
+    const summary: TimingSummary = {
+      plannedSeconds: Math.max(0, ...schedule.map((slide) => slide.end)),
+      slideSeconds: this.calculateTotalTime(),
+      estimatedSeconds: this.metadata.estimatedTime * 60,
+      differenceSeconds: 0,
+      gaps: [],
+      overlaps: [],
+      untimedSlides: this.slides.filter((slide) => !slide.getTiming()).map((slide) => slide.getSlideNumber()),
+    };
+    summary.differenceSeconds = summary.plannedSeconds - summary.estimatedSeconds;
+
+    schedule.slice(1).forEach((slide, index) => {
+      const previousEnd = schedule[index].end;
+      if (slide.start > previousEnd) {
+        summary.gaps.push({ slideNumber: slide.slideNumber, seconds: slide.start - previousEnd });
+      } else if (slide.start < previousEnd) {
+        summary.overlaps.push({ slideNumber: slide.slideNumber, seconds: previousEnd - slide.start });
+      }
+    });
+
+    return summary;
+  }
+
+  /**
+   * Check if the slide timings add up to the estimated time (within TIMING_TOLERANCE_SECONDS)
+   */
+  hasConsistentTiming(): boolean {
+    const summary = this.getTimingSummary();
+    return (
+      Math.abs(summary.differenceSeconds) <= TIMING_TOLERANCE_SECONDS &&
+      summary.overlaps.length === 0 &&
+      summary.untimedSlides.length === 0
+    );
+  }
+
   /**
    * Get a summary of the presentation
    */
@@ -4,6 +4,7 @@
  */
 
 import type { Language } from '../blog/types';
+import type { RevealConfig } from '../../utils/presentation/schemas';
 import type { Presentation } from './Presentation';
 
 /**
@@ -13,7 +14,11 @@ export interface PresentationMetadata {
   title: string;
   description: string;
   pubDate: string;
+  updatedDate?: string;
+  /** Shared by the translations of the presentation; defaults to the slug */
+  translationId?: string;
   relatedBlogPost?: string;
+  prerequisites?: string[];
   category: string;
   tags: string[];
   difficulty: 'beginner' | 'intermediate' | 'advanced';
@@ -21,16 +26,36 @@ export interface PresentationMetadata {
   estimatedTime: number;
   totalSlides: number;
   author: string;
+  displayMode?: 'instagram' | 'fullscreen';
+  /** reveal.js theme name, or "custom" for the site theme */
+  theme?: string;
+  /** reveal.js settings for this deck, validated against RevealConfigSchema */
+  reveal?: RevealConfig;
 }
 
 /**
- * Raw slide metadata structure
+ * Raw metadata of a vertical slide; it shares the time of its section
  */
-export interface SlideMetadata {
-  slideNumber: number;
+export interface VerticalSlideMetadata {
   title: string;
-  time: string;
   fileName: string;
+  /** Speaker notes in Markdown; a companion `slide-NN.notes.md` file takes precedence */
+  notes?: string;
+  /** Reveal list items and top-level blocks one at a time */
+  fragments?: boolean;
+  transition?: string;
+  /** Any reveal.js `data-background` value: a color, gradient or image URL */
+  background?: string;
+}
+
+/**
+ * Raw slide metadata structure: one horizontal section
+ */
+export interface SlideMetadata extends VerticalSlideMetadata {
+  slideNumber: number;
+  time: string;
+  /** Slides stacked below this one, in order */
+  verticalSlides?: VerticalSlideMetadata[];
 }
 
 /**
@@ -44,8 +69,15 @@ export interface SlideData {
   fragments?: boolean;
   transition?: string;
   background?: string;
+  /** Slides stacked below this one (from `verticalSlides` entries and `--` in Markdown slides) */
+  verticalSlides?: VerticalSlideData[];
 }
 
+/**
+ * Raw structure of a vertical slide
+ */
+export type VerticalSlideData = Omit<SlideData, 'time' | 'verticalSlides'>;
+
 /**
  * Combined presentation data (metadata + slides)
  */
@@ -3,6 +3,8 @@
  * Encapsulates slide behavior and validation
  */
 
+import { SlideTiming } from './SlideTiming';
+
 /**
  * Raw slide data structure
  */
@@ -14,8 +16,16 @@ export interface SlideData {
   fragments?: boolean;
   transition?: string;
   background?: string;
+  /** Slides stacked below this one; together they form one horizontal section */
+  verticalSlides?: VerticalSlideData[];
 }
 
+/**
+ * Raw data of a vertical slide
+ * Vertical slides have no time of their own: they share the time of their section
+ */
+export type VerticalSlideData = Omit<SlideData, 'time' | 'verticalSlides'>;
+
 /**
  * Rich domain model for Slide
  */
@@ -27,9 +37,13 @@ export class Slide {
   readonly fragments: boolean;
   readonly transition?: string;
   readonly background?: string;
+  readonly verticalSlides: Slide[];
   readonly slideNumber: number;
+  /** Position in the section: 0 for the top slide, 1+ for the slides below it */
+  readonly verticalIndex: number;
+  private readonly timing: SlideTiming | null;
 
-  constructor(data: SlideData, slideNumber: number) {
+  constructor(data: SlideData, slideNumber: number, verticalIndex: number = 0) {
     this.validateSlideData(data);
 
     this.title = data.title;
@@ -40,6 +54,13 @@ export class Slide {
     this.transition = data.transition;
     this.background = data.background;
     this.slideNumber = slideNumber;
+    this.verticalIndex = verticalIndex;
+    this.verticalSlides = verticalIndex === 0
+      ? (data.verticalSlides ?? []).map(
+          (child, index) => new Slide({ ...child, time: data.time }, slideNumber, index + 1)
+        )
+      : [];
+    this.timing = SlideTiming.tryParse(data.time);
   }
 
   /**
@@ -108,31 +129,69 @@ export class Slide {
     return this.background;
   }
 
+  /**
+   * Get the slides stacked below this one
+   */
+  getVerticalSlides(): Slide[] {
+    return this.verticalSlides;
+  }
+
+  /**
+   * Check if the slide has slides stacked below it
+   */
+  hasVerticalSlides(): boolean {
+    return this.verticalSlides.length > 0;
+  }
+
+  /**
+   * Check if the slide is stacked below the top slide of its section
+   */
+  isVerticalSlide(): boolean {
+    return this.verticalIndex > 0;
+  }
+
+  /**
+   * Get the number of slides in the section (this slide and the ones below it)
+   */
+  getSectionSize(): number {
+    return 1 + this.verticalSlides.length;
+  }
+
   /**
    * Get the slide number (1-based)
+   * Vertical slides have the number of their section
    */
   getSlideNumber(): number {
     return this.slideNumber;
   }
 
   /**
-   * Parse the time string to get estimated time in seconds
-   * Format: "MM:SS" or "HH:MM:SS"
+   * Get the position in the section (0 for the top slide)
    */
-  getEstimatedTime(): number {
-    const parts = this.time.split(':').map((p) => parseInt(p, 10));
-
-    if (parts.length === 2) {
-      // MM:SS format
-      const [minutes, seconds] = parts;
-      return minutes * 60 + seconds;
-    } else if (parts.length === 3) {
-      // HH:MM:SS format
-      const [hours, minutes, seconds] = parts;
-      return hours * 3600 + minutes * 60 + seconds;
-    }
+  getVerticalIndex(): number {
+    return this.verticalIndex;
+  }
 
-    return 0;
+  /**
+   * Get the slide label in reveal.js `h.v` style: "3" for a top slide, "3.2" for the first slide below it
+   */
+  getLabel(): string {
+    return this.isVerticalSlide() ? `${this.slideNumber}.${this.verticalIndex + 1}` : String(this.slideNumber);
+  }
+
+  /**
+   * Get the planned timing, or null if the time string can't be parsed
+   */
+  getTiming(): SlideTiming | null {
+    return this.timing;
+  }
+
+  /**
+   * Get the planned duration in seconds (0 if the time can't be parsed)
+   * Accepts every SlideTiming format: ranges, "MM:SS"/"HH:MM:SS" and "3 min"
+   */
+  getEstimatedTime(): number {
+    return this.timing?.getDuration() ?? 0;
   }
 
   /**
@@ -177,7 +236,7 @@ export class Slide {
    * Check if the slide is a title slide (typically the first slide)
    */
   isTitleSlide(): boolean {
-    return this.slideNumber === 1;
+    return this.slideNumber === 1 && !this.isVerticalSlide();
   }
 
   /**
@@ -194,7 +253,7 @@ export class Slide {
 
     const featuresStr = features.length > 0 ? ` [${features.join(', ')}]` : '';
 
-    return `Slide ${this.slideNumber}: ${this.title} (${wordCount} words, ${this.time})${featuresStr}`;
+    return `Slide ${this.getLabel()}: ${this.title} (${wordCount} words, ${this.time})${featuresStr}`;
   }
 
   /**
@@ -209,6 +268,14 @@ export class Slide {
       fragments: this.fragments,
       transition: this.transition,
       background: this.background,
+      ...(this.hasVerticalSlides()
+        ? {
+            verticalSlides: this.verticalSlides.map((child) => {
+              const { time: _time, ...data } = child.toJSON();
+              return data;
+            }),
+          }
+        : {}),
     };
   }
 }
@@ -0,0 +1,152 @@
+/**
+ * SlideTiming value object
+ * Parses the planned time of a slide, either a position in the deck or a duration
+ */
+
+const CLOCK = String.raw`\d+(?::[0-5]\d){1,2}`;
+const RANGE_PATTERN = new RegExp(`^(${CLOCK})\\s*-\\s*(${CLOCK})$`);
+const CLOCK_PATTERN = new RegExp(`^${CLOCK}$`);
+const UNIT_PATTERN = /^(\d+(?:\.\d+)?)\s*(s|sec|secs|seconds?|m|min|mins|minutes?)$/i;
+
+/**
+ * Immutable planned time of a slide
+ *
+ * Supported formats:
+ * - Range in the deck: "7:00-10:00" or "1:05:00-1:10:00" (start and end)
+ * - Clock duration: "02:30" or "01:02:30"
+ * - Unit duration: "3 min", "2.5 minutes", "45s"
+ */
+export class SlideTiming {
+  private constructor(
+    private readonly durationSeconds: number,
+    private readonly startSeconds?: number
+  ) {}
+
+  /**
+   * Parse a slide time
+   * @throws Error if the format isn't supported or a range ends before it starts
+   */
+  static parse(value: string): SlideTiming {
+    const text = value.trim();
+
+    const range = text.match(RANGE_PATTERN);
+    if (range) {
+      const start = SlideTiming.parseClock(range[1]);
+      const end = SlideTiming.parseClock(range[2]);
+      if (end < start) {
+        throw new Error(`Slide time range "${value}" ends before it starts`);
+      }
+      return new SlideTiming(end - start, start);
+    }
+
+    if (CLOCK_PATTERN.test(text)) {
+      return new SlideTiming(SlideTiming.parseClock(text));
+    }
+
+    const unit = text.match(UNIT_PATTERN);
+    if (unit) {
+      const amount = parseFloat(unit[1]);
+      const seconds = unit[2].toLowerCase().startsWith('s') ? amount : amount * 60;
+      return new SlideTiming(Math.round(seconds));
+    }
+
+    throw new Error(
+      `Invalid slide time "${value}": use a range like "7:00-10:00" or a duration like "02:30" or "3 min"`
+    );
+  }
+
+  /**
+   * Parse a slide time, returning null instead of throwing
+   */
+  static tryParse(value: string): SlideTiming | null {
+    try {
+      return SlideTiming.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a timing from a duration in seconds
+   */
+  static fromDuration(seconds: number): SlideTiming {
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      throw new Error('Slide duration must be a non-negative number of seconds');
+    }
+    return new SlideTiming(Math.round(seconds));
+  }
+
+  /**
+   * Format seconds as "M:SS", or "H:MM:SS" from one hour
+   */
+  static formatClock(totalSeconds: number): string {
+    const sign = totalSeconds < 0 ? '-' : '';
+    const seconds = Math.round(Math.abs(totalSeconds));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const rest = String(seconds % 60).padStart(2, '0');
+
+    return hours > 0
+      ? `${sign}${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+      : `${sign}${minutes}:${rest}`;
+  }
+
+  /**
+   * Parse "MM:SS" or "HH:MM:SS" into seconds
+   */
+  private static parseClock(value: string): number {
+    return value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  }
+
+  /**
+   * Check if the timing places the slide in the deck (a start-end range)
+   */
+  isRange(): boolean {
+    return this.startSeconds !== undefined;
+  }
+
+  /**
+   * Get the planned start in seconds from the beginning of the deck, for ranges
+   */
+  getStart(): number | undefined {
+    return this.startSeconds;
+  }
+
+  /**
+   * Get the planned end in seconds from the beginning of the deck, for ranges
+   */
+  getEnd(): number | undefined {
+    return this.startSeconds === undefined ? undefined : this.startSeconds + this.durationSeconds;
+  }
+
+  /**
+   * Get the planned duration in seconds
+   */
+  getDuration(): number {
+    return this.durationSeconds;
+  }
+
+  /**
+   * Get the planned duration in whole minutes (rounded up)
+   */
+  getDurationInMinutes(): number {
+    return Math.ceil(this.durationSeconds / 60);
+  }
+
+  /**
+   * Check if two timings are the same
+   */
+  equals(other: SlideTiming): boolean {
+    return this.durationSeconds === other.durationSeconds && this.startSeconds === other.startSeconds;
+  }
+
+  /**
+   * Format the timing in its canonical form
+   */
+  toString(): string {
+    if (this.startSeconds !== undefined) {
+      return `${SlideTiming.formatClock(this.startSeconds)}-${SlideTiming.formatClock(this.getEnd()!)}`;
+    }
+    return SlideTiming.formatClock(this.durationSeconds);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Content collection implementation of LearningPathRepository
+ * Reads learning paths from the `learning-paths` Astro collection
+ */
+
+import { getCollection, type CollectionEntry } from 'astro:content';
+import type { Language } from '../../i18n';
+import type { LearningPathRepository } from '../../domain/learning/LearningPathRepository';
+import { LearningPath, type LearningPathStepType } from '../../domain/learning/LearningPath';
+
+/**
+ * Content collection implementation of LearningPathRepository
+ */
+export class ContentCollectionLearningPathRepository implements LearningPathRepository {
+  private pathsPromise: Promise<LearningPath[]> | null = null;
+
+  /**
+   * Find all published learning paths, sorted by title
+   */
+  async findAll(): Promise<LearningPath[]> {
+    if (!this.pathsPromise) {
+      this.pathsPromise = this.loadPaths();
+    }
+    return this.pathsPromise;
+  }
+
+  /**
+   * Find a learning path by its ID
+   */
+  async findById(id: string): Promise<LearningPath | null> {
+    const paths = await this.findAll();
+    return paths.find((path) => path.id === id) ?? null;
+  }
+
+  /**
+   * Find all learning paths that include a post or presentation
+   */
+  async findContaining(type: LearningPathStepType, slug: string, language: Language): Promise<LearningPath[]> {
+    const paths = await this.findAll();
+    return paths.filter((path) => path.contains(type, slug, language));
+  }
+
+  /**
+   * Load and validate all paths from the collection
+   */
+  private async loadPaths(): Promise<LearningPath[]> {
+    const entries = await getCollection('learning-paths');
+    const paths = entries
+      .filter((entry) => !entry.data.draft)
+      .map((entry) => this.mapEntryToDomain(entry))
+      .sort((a, b) => a.getTitle('en').localeCompare(b.getTitle('en')));
+
+    // Prerequisites must point at other published paths
+    const ids = new Set(paths.map((path) => path.id));
+    for (const path of paths) {
+      const unknown = path.getPrerequisites().filter((id) => !ids.has(id));
+      if (unknown.length > 0) {
+        throw new Error(`Learning path ${path.id} lists unknown prerequisites: ${unknown.join(', ')}`);
+      }
+    }
+
+    return paths;
+  }
+
+  /**
+   * Map a collection entry to the domain model
+   */
+  private mapEntryToDomain(entry: CollectionEntry<'learning-paths'>): LearningPath {
+    return new LearningPath(entry.id.replace(/\.mdx?$/, ''), {
+      title: entry.data.title,
+      description: entry.data.description,
+      difficulty: entry.data.difficulty ?? 'beginner',
+      prerequisites: entry.data.prerequisites ?? [],
+      steps: entry.data.steps,
+    });
+  }
+
+  /**
+   * Clear the cache (useful for testing or development)
+   */
+  clearCache(): void {
+    this.pathsPromise = null;
+  }
+}
+
+/**
+ * Default singleton instance
+ */
+let defaultRepository: ContentCollectionLearningPathRepository | null = null;
+
+/**
+ * Get the default learning path repository instance
+ */
+export function getDefaultLearningPathRepository(): ContentCollectionLearningPathRepository {
+  if (!defaultRepository) {
+    defaultRepository = new ContentCollectionLearningPathRepository();
+  }
+  return defaultRepository;
+}
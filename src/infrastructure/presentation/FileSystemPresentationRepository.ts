@@ -5,16 +5,27 @@
 
 import fs from 'fs';
 import path from 'path';
+import type { z } from 'astro:content';
 import type {
   PresentationRepository,
   PresentationData,
   PresentationMetadata,
   SlideData,
   SlideMetadata,
+  VerticalSlideData,
+  VerticalSlideMetadata,
   PresentationListItem,
 } from '../../domain/presentation/PresentationRepository';
 import type { Language } from '../../domain/blog/types';
-import { Presentation } from '../../domain/presentation/Presentation';
+import { Presentation, TIMING_TOLERANCE_SECONDS } from '../../domain/presentation/Presentation';
+import { SlideTiming } from '../../domain/presentation/SlideTiming';
+import { getNotesFileName, renderSpeakerNotes } from '../../utils/presentation/speakerNotes';
+import { compileMarkdownSlide, getSlideFormat } from '../../utils/presentation/markdownSlides';
+import {
+  safeValidatePresentationMetadata,
+  safeValidateSlideMetadata,
+} from '../../utils/presentation/schemas';
+import { PresentationLoadReport, type PresentationIssueKind } from './PresentationLoadReport';
 
 /**
  * Cache for presentation data to avoid repeated filesystem reads
@@ -82,6 +93,7 @@ class PresentationCache {
  */
 export class FileSystemPresentationRepository implements PresentationRepository {
   private cache = new PresentationCache();
+  private report = new PresentationLoadReport();
   private readonly contentDir: string;
   private readonly supportedLanguages: Language[] = ['en', 'id'];
 
@@ -104,37 +116,98 @@ export class FileSystemPresentationRepository implements PresentationRepository
   }
 
   /**
-   * Load metadata from filesystem
+   * Read and parse a JSON file of a presentation, recording problems in the report
    */
-  private async loadMetadataFromFS(slug: string, language: Language): Promise<PresentationMetadata | null> {
+  private readJsonFile(slug: string, language: Language, file: string): unknown | undefined {
+    const filePath = path.join(this.getPresentationPath(slug, language), file);
+
+    if (!fs.existsSync(filePath)) {
+      this.report.add({ kind: 'missing-file', slug, language, file, message: 'File not found' });
+      return undefined;
+    }
+
     try {
-      const metadataPath = path.join(this.getPresentationPath(slug, language), 'metadata.json');
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      this.report.add({ kind: 'invalid-json', slug, language, file, message: (error as Error).message });
+      return undefined;
+    }
+  }
 
-      if (!fs.existsSync(metadataPath)) {
-        return null;
-      }
+  /**
+   * Record every schema problem of a file in the report
+   */
+  private addSchemaIssues(
+    slug: string,
+    language: Language,
+    file: string,
+    kind: PresentationIssueKind,
+    error: z.ZodError
+  ): void {
+    for (const issue of error.issues) {
+      this.report.add({
+        kind,
+        slug,
+        language,
+        file,
+        path: issue.path.length > 0 ? issue.path.join('.') : undefined,
+        message: issue.message,
+      });
+    }
+  }
 
-      const rawData = fs.readFileSync(metadataPath, 'utf-8');
-      const metadata = JSON.parse(rawData) as PresentationMetadata;
+  /**
+   * Load and validate metadata from filesystem
+   * @returns The metadata, or null if the presentation doesn't exist or is invalid
+   */
+  private async loadMetadataFromFS(slug: string, language: Language): Promise<PresentationMetadata | null> {
+    if (!fs.existsSync(this.getPresentationPath(slug, language))) {
+      return null;
+    }
 
-      return metadata;
-    } catch (error) {
-      console.error(`Failed to load presentation metadata ${slug} (${language}):`, error);
+    const data = this.readJsonFile(slug, language, 'metadata.json');
+    if (data === undefined) {
       return null;
     }
+
+    const result = safeValidatePresentationMetadata(data);
+    if (!result.success) {
+      this.addSchemaIssues(slug, language, 'metadata.json', 'invalid-metadata', result.error);
+      return null;
+    }
+
+    if (result.data.language !== language) {
+      this.report.add({
+        kind: 'language-mismatch',
+        slug,
+        language,
+        file: 'metadata.json',
+        path: 'language',
+        message: `Expected "${language}" for a presentation in presentations-${language}, got "${result.data.language}"`,
+      });
+      return null;
+    }
+
+    return result.data;
   }
 
   /**
-   * Load slide metadata from filesystem
+   * Load and validate slide metadata from filesystem
+   * @returns The slide metadata, or null if it is invalid
    */
-  private async loadSlideMetadataFromFS(slug: string, language: Language): Promise<SlideMetadata[]> {
-    const slideMetadataPath = path.join(
-      this.getPresentationPath(slug, language),
-      'slide-metadata.json'
-    );
+  private async loadSlideMetadataFromFS(slug: string, language: Language): Promise<SlideMetadata[] | null> {
+    const data = this.readJsonFile(slug, language, 'slide-metadata.json');
+    if (data === undefined) {
+      return null;
+    }
 
-    const rawData = fs.readFileSync(slideMetadataPath, 'utf-8');
-    return JSON.parse(rawData) as SlideMetadata[];
+    const result = safeValidateSlideMetadata(data);
+    if (!result.success) {
+      this.addSchemaIssues(slug, language, 'slide-metadata.json', 'invalid-slide-metadata', result.error);
+      return null;
+    }
+
+    return result.data;
   }
 
   /**
@@ -146,29 +219,163 @@ export class FileSystemPresentationRepository implements PresentationRepository
   }
 
   /**
-   * Load all slides for a presentation from filesystem
+   * Load the Markdown speaker notes that accompany a slide, if any
+   */
+  private loadSlideNotes(slug: string, fileName: string, language: Language): string | undefined {
+    const notesPath = path.join(this.getPresentationPath(slug, language), getNotesFileName(fileName));
+    return fs.existsSync(notesPath) ? fs.readFileSync(notesPath, 'utf-8') : undefined;
+  }
+
+  /**
+   * Load the HTML of a slide, compiling Markdown and MDX slides
+   * @returns The slide followed by its vertical slides, or null if the slide doesn't compile
    */
-  private async loadSlidesFromFS(slug: string, language: Language): Promise<SlideData[]> {
+  private async loadSlideParts(slug: string, fileName: string, language: Language): Promise<string[] | null> {
+    const content = this.loadSlideContent(slug, fileName, language);
+    const format = getSlideFormat(fileName);
+
+    if (format === 'html') {
+      // Remove the HTML comment header from content
+      return [content.replace(/^<!--[\s\S]*?-->\n/, '')];
+    }
+
+    let parts: string[];
     try {
-      const slideMetadataList = await this.loadSlideMetadataFromFS(slug, language);
+      parts = await compileMarkdownSlide(content, format);
+    } catch (error) {
+      this.report.add({ kind: 'invalid-slide', slug, language, file: fileName, message: (error as Error).message });
+      return null;
+    }
+
+    if (parts.length === 0) {
+      this.report.add({ kind: 'invalid-slide', slug, language, file: fileName, message: 'Slide is empty' });
+      return null;
+    }
+
+    return parts;
+  }
+
+  /**
+   * Load a slide file with its notes
+   * @returns The slide followed by the slides split from it with `--`, or null if it doesn't compile
+   */
+  private async loadSlideStack(
+    slug: string,
+    entry: VerticalSlideMetadata,
+    language: Language
+  ): Promise<VerticalSlideData[] | null> {
+    const parts = await this.loadSlideParts(slug, entry.fileName, language);
+    if (!parts) {
+      return null;
+    }
+
+    // Companion notes file wins over inline notes in slide-metadata.json
+    const notes = await renderSpeakerNotes(
+      this.loadSlideNotes(slug, entry.fileName, language) ?? entry.notes
+    );
 
-      const slides = slideMetadataList.map((slideMeta) => {
-        const content = this.loadSlideContent(slug, slideMeta.fileName, language);
+    return parts.map((content, index) => ({
+      title: entry.title,
+      content,
+      ...(index === 0 ? { notes } : {}),
+      fragments: entry.fragments,
+      transition: entry.transition,
+      background: entry.background,
+    }));
+  }
+
+  /**
+   * Load all slides for a presentation from filesystem
+   * @returns The slides, or null if any slide is missing or doesn't match the metadata
+   */
+  private async loadSlidesFromFS(
+    slug: string,
+    language: Language,
+    metadata: PresentationMetadata
+  ): Promise<SlideData[] | null> {
+    const slideMetadataList = await this.loadSlideMetadataFromFS(slug, language);
+    if (!slideMetadataList) {
+      return null;
+    }
 
-        // Remove the HTML comment header from content
-        const cleanContent = content.replace(/^<!--[\s\S]*?-->\n/, '');
+    let valid = true;
 
-        return {
-          title: slideMeta.title,
-          time: slideMeta.time,
-          content: cleanContent,
-        };
+    if (slideMetadataList.length !== metadata.totalSlides) {
+      this.report.add({
+        kind: 'slide-count-mismatch',
+        slug,
+        language,
+        file: 'metadata.json',
+        path: 'totalSlides',
+        message: `totalSlides is ${metadata.totalSlides} but slide-metadata.json lists ${slideMetadataList.length} slides`,
       });
+      valid = false;
+    }
 
-      return slides;
-    } catch (error) {
-      console.error(`Failed to load slides for ${slug} (${language}):`, error);
-      return [];
+    for (const slideMeta of slideMetadataList) {
+      for (const entry of [slideMeta, ...(slideMeta.verticalSlides ?? [])]) {
+        if (!fs.existsSync(path.join(this.getPresentationPath(slug, language), entry.fileName))) {
+          const owner = entry === slideMeta ? '' : 'a vertical slide of ';
+          this.report.add({
+            kind: 'missing-file',
+            slug,
+            language,
+            file: entry.fileName,
+            message: `File not found for ${owner}slide ${slideMeta.slideNumber} ("${entry.title}")`,
+          });
+          valid = false;
+        }
+      }
+    }
+
+    if (!valid) {
+      return null;
+    }
+
+    const slides = await Promise.all(slideMetadataList.map(async (slideMeta) => {
+      const stacks = await Promise.all(
+        [slideMeta, ...(slideMeta.verticalSlides ?? [])].map((entry) => this.loadSlideStack(slug, entry, language))
+      );
+      if (!stacks.every((stack) => stack !== null)) {
+        return null;
+      }
+
+      const [main, ...verticalSlides] = (stacks as VerticalSlideData[][]).flat();
+
+      return {
+        ...main,
+        time: slideMeta.time,
+        ...(verticalSlides.length > 0 ? { verticalSlides } : {}),
+      };
+    }));
+
+    return slides.every((slide) => slide !== null) ? (slides as SlideData[]) : null;
+  }
+
+  /**
+   * Record slide timings that don't add up to the presentation's estimated time
+   */
+  private checkTiming(slug: string, language: Language, presentation: Presentation): void {
+    const summary = presentation.getTimingSummary();
+    const issue = { kind: 'timing-mismatch' as const, slug, language, file: 'slide-metadata.json' };
+
+    for (const slideNumber of summary.untimedSlides) {
+      this.report.add({ ...issue, path: `${slideNumber - 1}.time`, message: 'Slide time cannot be parsed' });
+    }
+
+    for (const overlap of summary.overlaps) {
+      this.report.add({
+        ...issue,
+        path: `${overlap.slideNumber - 1}.time`,
+        message: `Slide ${overlap.slideNumber} starts ${SlideTiming.formatClock(overlap.seconds)} before the previous slide ends`,
+      });
+    }
+
+    if (Math.abs(summary.differenceSeconds) > TIMING_TOLERANCE_SECONDS) {
+      this.report.add({
+        ...issue,
+        message: `Slides are planned for ${SlideTiming.formatClock(summary.plannedSeconds)} but estimatedTime in metadata.json is ${presentation.getEstimatedTime()} min`,
+      });
     }
   }
 
@@ -188,10 +395,14 @@ export class FileSystemPresentationRepository implements PresentationRepository
       return null;
     }
 
-    const slides = await this.loadSlidesFromFS(slug, language);
+    const slides = await this.loadSlidesFromFS(slug, language, metadata);
+    if (!slides) {
+      return null;
+    }
 
     // Create domain model
     const presentation = new Presentation(slug, metadata, slides);
+    this.checkTiming(slug, language, presentation);
 
     // Cache the domain model
     this.cache.setPresentation(slug, language, presentation);
@@ -356,11 +567,29 @@ export class FileSystemPresentationRepository implements PresentationRepository
     );
   }
 
+  /**
+   * Get the problems found in the presentations loaded so far
+   */
+  getReport(): PresentationLoadReport {
+    return this.report;
+  }
+
+  /**
+   * Load every presentation in every language and report all problems found
+   */
+  async validateAll(): Promise<PresentationLoadReport> {
+    for (const language of this.supportedLanguages) {
+      await this.findAll(language);
+    }
+    return this.report;
+  }
+
   /**
    * Clear the cache (useful for testing or development)
    */
   clearCache(): void {
     this.cache.clear();
+    this.report.clear();
   }
 }
 
@@ -0,0 +1,110 @@
+/**
+ * Store for exported presentation handouts (PDF and per-slide PNGs)
+ * Exports are written to `public/exports/{lang}/{slug}/` by scripts/export-presentations.ts,
+ * with a manifest.json that the pages read at build time to link them.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Language } from '../../domain/blog/types';
+
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Files of one exported presentation, relative to its export folder
+ */
+export interface PresentationExportManifest {
+  pdf: string;
+  images: string[];
+  exportedAt: string;
+}
+
+/**
+ * Links to the exported files of a presentation
+ */
+export interface PresentationExport {
+  pdfUrl: string;
+  /** One image per slide, in slide order */
+  imageUrls: string[];
+  exportedAt: string;
+}
+
+/**
+ * FileSystem store for presentation exports
+ */
+export class PresentationExportStore {
+  private readonly publicDir: string;
+
+  constructor(publicDir?: string) {
+    this.publicDir = publicDir || path.join(process.cwd(), 'public');
+  }
+
+  /**
+   * Get the folder the exports of a presentation are written to
+   */
+  getDirectory(slug: string, language: Language): string {
+    return path.join(this.publicDir, 'exports', language, slug);
+  }
+
+  /**
+   * Get the site URL of an exported file
+   */
+  getUrl(slug: string, language: Language, file: string): string {
+    return `/exports/${language}/${slug}/${file}`;
+  }
+
+  /**
+   * Record the files of an export once they are written
+   */
+  save(slug: string, language: Language, manifest: PresentationExportManifest): void {
+    const directory = this.getDirectory(slug, language);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+  }
+
+  /**
+   * Find the exports of a presentation
+   * @returns The links, or null if the presentation hasn't been exported or files are missing
+   */
+  find(slug: string, language: Language): PresentationExport | null {
+    const directory = this.getDirectory(slug, language);
+    const manifestPath = path.join(directory, MANIFEST_FILE);
+
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    let manifest: PresentationExportManifest;
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+
+    const files = [manifest.pdf, ...(manifest.images ?? [])];
+    if (!manifest.pdf || !files.every((file) => fs.existsSync(path.join(directory, file)))) {
+      return null;
+    }
+
+    return {
+      pdfUrl: this.getUrl(slug, language, manifest.pdf),
+      imageUrls: manifest.images.map((file) => this.getUrl(slug, language, file)),
+      exportedAt: manifest.exportedAt,
+    };
+  }
+}
+
+/**
+ * Default singleton instance
+ */
+let defaultStore: PresentationExportStore | null = null;
+
+/**
+ * Get the default presentation export store instance
+ */
+export function getDefaultPresentationExportStore(): PresentationExportStore {
+  if (!defaultStore) {
+    defaultStore = new PresentationExportStore();
+  }
+  return defaultStore;
+}
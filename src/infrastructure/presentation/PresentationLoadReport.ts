@@ -0,0 +1,110 @@
+/**
+ * Report of problems found while loading file-based presentations
+ * Collects every problem across all decks so a build fails once with the full list
+ */
+
+import type { Language } from '../../domain/blog/types';
+
+export type PresentationIssueKind =
+  | 'missing-file'
+  | 'invalid-json'
+  | 'invalid-metadata'
+  | 'invalid-slide-metadata'
+  | 'invalid-slide'
+  | 'slide-count-mismatch'
+  | 'language-mismatch'
+  | 'timing-mismatch';
+
+/**
+ * A single problem with a presentation
+ */
+export interface PresentationIssue {
+  kind: PresentationIssueKind;
+  slug: string;
+  language: Language;
+  /** File name inside the presentation folder, e.g. `slide-metadata.json` */
+  file: string;
+  /** Location of the problem inside the file, e.g. `pubDate` or `3.time` */
+  path?: string;
+  message: string;
+}
+
+/**
+ * Problems found while loading presentations, grouped per deck
+ */
+export class PresentationLoadReport {
+  private readonly issues: PresentationIssue[] = [];
+  private readonly keys = new Set<string>();
+
+  /**
+   * Record a problem (a deck loaded more than once reports it only once)
+   */
+  add(issue: PresentationIssue): void {
+    const key = [issue.language, issue.slug, issue.file, issue.path, issue.kind, issue.message].join('|');
+    if (this.keys.has(key)) {
+      return;
+    }
+
+    this.keys.add(key);
+    this.issues.push(issue);
+  }
+
+  /**
+   * Get all recorded problems
+   */
+  getIssues(): PresentationIssue[] {
+    return [...this.issues]; // Return a copy
+  }
+
+  /**
+   * Get the problems of one deck
+   */
+  getIssuesFor(slug: string, language: Language): PresentationIssue[] {
+    return this.issues.filter((issue) => issue.slug === slug && issue.language === language);
+  }
+
+  /**
+   * Check if any problems were recorded
+   */
+  hasIssues(): boolean {
+    return this.issues.length > 0;
+  }
+
+  /**
+   * Format the problems as a readable list, one block per deck
+   */
+  format(): string {
+    const decks = new Map<string, PresentationIssue[]>();
+
+    for (const issue of this.issues) {
+      const deck = `presentations-${issue.language}/${issue.slug}`;
+      decks.set(deck, [...(decks.get(deck) ?? []), issue]);
+    }
+
+    return Array.from(decks, ([deck, issues]) => {
+      const lines = issues.map((issue) => {
+        const location = issue.path ? `${issue.file} (${issue.path})` : issue.file;
+        return `  - ${location}: ${issue.message}`;
+      });
+      return `${deck}:\n${lines.join('\n')}`;
+    }).join('\n');
+  }
+
+  /**
+   * Throw if any problems were recorded
+   * @throws Error listing every problem
+   */
+  assertValid(): void {
+    if (this.hasIssues()) {
+      throw new Error(`Invalid presentations (${this.issues.length} problems):\n${this.format()}`);
+    }
+  }
+
+  /**
+   * Forget all recorded problems
+   */
+  clear(): void {
+    this.issues.length = 0;
+    this.keys.clear();
+  }
+}
@@ -0,0 +1,15 @@
+import rss from '@astrojs/rss';
+import type { APIRoute, GetStaticPaths } from 'astro';
+import type { Language } from '../../i18n';
+import { supportedLanguages } from '../../utils/i18n';
+import { FEED_CONTENT } from '../../consts';
+import { getDefaultFeedService } from '../../services/feed/FeedService';
+import { toRssOptions } from '../../utils/feed/feed';
+
+export const getStaticPaths: GetStaticPaths = () =>
+  supportedLanguages.map((lang) => ({ params: { lang } }));
+
+export const GET: APIRoute = async ({ params, site }) => {
+  const feed = await getDefaultFeedService().getFeed(params.lang as Language, site!, { content: FEED_CONTENT });
+  return rss(toRssOptions(feed));
+};
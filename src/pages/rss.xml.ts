@@ -0,0 +1,11 @@
+import rss from '@astrojs/rss';
+import type { APIRoute } from 'astro';
+import { FEED_CONTENT } from '../consts';
+import { getDefaultFeedService } from '../services/feed/FeedService';
+import { toRssOptions } from '../utils/feed/feed';
+
+// Kept for existing subscribers: the English feed, also at /en/rss.xml
+export const GET: APIRoute = async ({ site }) => {
+	const feed = await getDefaultFeedService().getFeed('en', site!, { content: FEED_CONTENT });
+	return rss(toRssOptions(feed));
+};
@@ -1,13 +1,23 @@
 import { getCollection } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { postToSearchable } from '../utils/search';
+import {
+	createSearchIndexPayload,
+	postToSearchableDocuments,
+	presentationToSearchableDocuments,
+} from '../utils/search';
+import { getDefaultPresentationRepository } from '../infrastructure/presentation/FileSystemPresentationRepository';
 
 export const GET: APIRoute = async () => {
 	try {
 		const posts = await getCollection('blog-en');
-		const searchablePosts = posts.map(post => postToSearchable(post, 'en'));
+		const presentations = await getDefaultPresentationRepository().findAll('en');
+		const documents = [
+			...posts.flatMap(post => postToSearchableDocuments(post, 'en')),
+			...presentations.flatMap(presentation => presentationToSearchableDocuments(presentation, 'en')),
+		];
 
-		return new Response(JSON.stringify(searchablePosts), {
+		// Ship a prebuilt Fuse index so browsers don't re-index on load
+		return new Response(JSON.stringify(createSearchIndexPayload(documents, 'en')), {
 			status: 200,
 			headers: {
 				'Content-Type': 'application/json',
@@ -16,7 +26,7 @@ export const GET: APIRoute = async () => {
 		});
 	} catch (error) {
 		console.error('Error generating English search index:', error);
-		return new Response(JSON.stringify([]), {
+		return new Response(JSON.stringify(createSearchIndexPayload([], 'en')), {
 			status: 200,
 			headers: {
 				'Content-Type': 'application/json',
@@ -1,14 +1,24 @@
 import { getCollection } from 'astro:content';
 import type { APIRoute } from 'astro';
-import { postToSearchable } from '../utils/search';
+import {
+	createSearchIndexPayload,
+	postToSearchableDocuments,
+	presentationToSearchableDocuments,
+} from '../utils/search';
+import { getDefaultPresentationRepository } from '../infrastructure/presentation/FileSystemPresentationRepository';
 
 export const GET: APIRoute = async () => {
 	try {
-		// Try to get Indonesian blog posts
+		// Try to get Indonesian blog posts and presentations
 		const posts = await getCollection('blog-id');
-		const searchablePosts = posts.map(post => postToSearchable(post, 'id'));
+		const presentations = await getDefaultPresentationRepository().findAll('id');
+		const documents = [
+			...posts.flatMap(post => postToSearchableDocuments(post, 'id')),
+			...presentations.flatMap(presentation => presentationToSearchableDocuments(presentation, 'id')),
+		];
 
-		return new Response(JSON.stringify(searchablePosts), {
+		// Ship a prebuilt Fuse index so browsers don't re-index on load
+		return new Response(JSON.stringify(createSearchIndexPayload(documents, 'id')), {
 			status: 200,
 			headers: {
 				'Content-Type': 'application/json',
@@ -16,9 +26,9 @@ export const GET: APIRoute = async () => {
 			},
 		});
 	} catch (error) {
-		// If blog-id collection doesn't exist or is empty, return empty array
+		// If blog-id collection doesn't exist or is empty, return an empty index
 		console.error('Error generating Indonesian search index:', error);
-		return new Response(JSON.stringify([]), {
+		return new Response(JSON.stringify(createSearchIndexPayload([], 'id')), {
 			status: 200,
 			headers: {
 				'Content-Type': 'application/json',
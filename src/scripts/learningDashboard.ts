@@ -0,0 +1,137 @@
+/**
+ * "My learning" dashboard
+ * Fills the sections of pages/[lang]/learning with the progress saved in this browser,
+ * joined with the catalogue the page was built with
+ */
+
+import { LearnerProgressStore } from '../utils/progress/LearnerProgressStore';
+import { buildLearningDashboard, type DashboardEntry, type DashboardTotal } from '../utils/progress/learningDashboard';
+import type { LearningCatalogueItem } from '../services/learning/LearningCatalogueService';
+
+type Labels = Record<string, string> & {
+  types: Record<string, string>;
+  difficulty: Record<string, string>;
+};
+
+declare global {
+  interface Window {
+    __LEARNING_CATALOGUE__: LearningCatalogueItem[];
+    __LEARNING_LABELS__: Labels;
+  }
+}
+
+/**
+ * Fill `{name}` placeholders of a label
+ */
+function format(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Render one item from the page's `<template data-learning-item>`
+ */
+function renderItem(
+  template: HTMLTemplateElement,
+  labels: Labels,
+  item: LearningCatalogueItem,
+  entry: DashboardEntry | null,
+  language: string
+): Node {
+  const node = template.content.cloneNode(true) as DocumentFragment;
+  const title = node.querySelector<HTMLAnchorElement>('[data-item-title]')!;
+  const status = node.querySelector<HTMLElement>('[data-item-status]')!;
+  const bar = node.querySelector<HTMLElement>('[data-item-bar]')!;
+  const action = node.querySelector<HTMLAnchorElement>('[data-item-action]')!;
+
+  node.querySelector('[data-item-type]')!.textContent = labels.types[item.type] ?? item.type;
+  title.textContent = item.title;
+  title.href = item.url;
+
+  if (!entry) {
+    // A suggestion: nothing started yet
+    status.textContent = labels.suggestionReason;
+    bar.parentElement!.remove();
+    action.textContent = labels.start;
+    action.href = item.url;
+  } else if (entry.completedAt) {
+    const date = new Date(entry.completedAt).toLocaleDateString(language, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+    status.textContent = format(labels.completedOn, { date });
+    bar.style.width = '100%';
+    action.textContent = labels.review;
+    action.href = item.url;
+  } else {
+    status.textContent = format(labels.percentDone, { percent: String(entry.percent) });
+    bar.style.width = `${entry.percent}%`;
+    action.textContent = labels.resume;
+    action.href = entry.resumeUrl;
+  }
+
+  return node;
+}
+
+/**
+ * Render category or difficulty totals as `<div><dt/><dd/></div>` rows
+ */
+function renderTotals(list: HTMLElement, totals: DashboardTotal[], nameOf: (key: string | null) => string, labels: Labels): void {
+  list.replaceChildren(...totals.map((total) => {
+    const row = document.createElement('div');
+    const name = document.createElement('dt');
+    const counts = document.createElement('dd');
+
+    name.textContent = nameOf(total.key);
+    counts.textContent = [
+      format(labels.completedOf, { completed: String(total.completed), total: String(total.total) }),
+      ...(total.inProgress > 0 ? [format(labels.inProgressCount, { count: String(total.inProgress) })] : []),
+    ].join(' · ');
+
+    row.append(name, counts);
+    return row;
+  }));
+}
+
+/**
+ * Hydrate the `[data-learning-dashboard]` of the page
+ */
+export function initLearningDashboard(): void {
+  const root = document.querySelector<HTMLElement>('[data-learning-dashboard]');
+  const template = document.querySelector<HTMLTemplateElement>('template[data-learning-item]');
+  if (!root || !template) return;
+
+  const labels = window.__LEARNING_LABELS__;
+  const language = root.dataset.lang ?? 'en';
+  const dashboard = buildLearningDashboard(window.__LEARNING_CATALOGUE__ ?? [], new LearnerProgressStore().getAll());
+
+  // Also called again after an import, so every state is set both ways
+  const hasProgress = dashboard.inProgress.length > 0 || dashboard.completed.length > 0;
+  root.querySelector<HTMLElement>('[data-learning-loading]')!.hidden = true;
+  root.querySelector<HTMLElement>('[data-learning-empty]')!.hidden = hasProgress;
+  root.querySelector<HTMLElement>('[data-learning-content]')!.hidden = !hasProgress;
+  if (!hasProgress) return;
+
+  const lists: Record<string, Node[]> = {
+    suggestion: dashboard.suggestion ? [renderItem(template, labels, dashboard.suggestion, null, language)] : [],
+    inProgress: dashboard.inProgress.map((entry) => renderItem(template, labels, entry.item, entry, language)),
+    completed: dashboard.completed.map((entry) => renderItem(template, labels, entry.item, entry, language)),
+  };
+  for (const [name, items] of Object.entries(lists)) {
+    root.querySelector(`[data-learning-list="${name}"]`)!.replaceChildren(...items);
+    root.querySelector<HTMLElement>(`[data-learning-none="${name}"]`)!.hidden = items.length > 0;
+  }
+
+  renderTotals(
+    root.querySelector<HTMLElement>('[data-learning-totals="byCategory"]')!,
+    dashboard.byCategory,
+    (key) => key ?? labels.uncategorized,
+    labels
+  );
+  renderTotals(
+    root.querySelector<HTMLElement>('[data-learning-totals="byDifficulty"]')!,
+    dashboard.byDifficulty,
+    (key) => labels.difficulty[key!] ?? key!,
+    labels
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Mini-deck initialization
+ * Starts each embedded deck (MiniDeck.astro) as its own reveal.js instance
+ * once it scrolls into view; reveal.js and KaTeX are only downloaded then
+ */
+
+import { renderMath } from '../utils/presentation/mathRendering';
+import { applyAutoFragments } from '../utils/presentation/autoFragments';
+
+const MINI_DECK_SELECTOR = '[data-mini-deck]';
+
+// Start decks a little before they become visible
+const PRELOAD_MARGIN = '200px 0px';
+
+/**
+ * Start the reveal.js instance of one mini-deck
+ */
+async function startMiniDeck(container: HTMLElement): Promise<void> {
+  const element = container.querySelector<HTMLElement>('.reveal');
+  if (!element || container.dataset.miniDeckState) return;
+  container.dataset.miniDeckState = 'loading';
+
+  const config = JSON.parse(container.dataset.config || '{}');
+  const [{ default: Reveal }, { default: Highlight }, { default: renderMathInElement }] = await Promise.all([
+    import('reveal.js'),
+    import('reveal.js/plugin/highlight/highlight.esm.js'),
+    import('katex/contrib/auto-render'),
+  ]);
+
+  // Blog pages don't load KaTeX's auto-render script; renderMath looks for it on window
+  (window as any).renderMathInElement ??= renderMathInElement;
+
+  // Slides with `fragments: true` reveal their blocks step by step
+  applyAutoFragments(element.querySelector('.slides'));
+
+  const deck = new Reveal(element, {
+    plugins: [Highlight],
+    ...config,
+    embedded: true,
+    // Keys only move this deck while focus is inside it, never the article or another deck
+    keyboardCondition: () => element.contains(document.activeElement),
+  });
+
+  deck.on('slidechanged', () => {
+    renderMath(deck.getCurrentSlide());
+  });
+
+  await deck.initialize();
+  container.dataset.miniDeckState = 'ready';
+  renderMath(deck.getCurrentSlide());
+}
+
+function start(container: HTMLElement): void {
+  startMiniDeck(container).catch((error) => {
+    console.error('❌ mini-deck initialization failed:', error);
+  });
+}
+
+/**
+ * Start every mini-deck of the page when it scrolls into view
+ */
+export function initMiniDecks(root: ParentNode = document): void {
+  const containers = Array.from(root.querySelectorAll<HTMLElement>(MINI_DECK_SELECTOR));
+
+  if (!('IntersectionObserver' in window)) {
+    containers.forEach(start);
+    return;
+  }
+
+  const observer = new IntersectionObserver((entries) => {
+    for (const entry of entries) {
+      if (entry.isIntersecting) {
+        observer.unobserve(entry.target);
+        start(entry.target as HTMLElement);
+      }
+    }
+  }, { rootMargin: PRELOAD_MARGIN });
+
+  containers.forEach((container) => observer.observe(container));
+}
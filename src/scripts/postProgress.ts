@@ -0,0 +1,45 @@
+/**
+ * Blog post reading progress
+ * Saves how far a reader got through the article and the last section heading they passed
+ */
+
+import { LearnerProgressStore } from '../utils/progress/LearnerProgressStore';
+
+// A heading counts as reached once it scrolls above this share of the viewport
+const SECTION_LINE = 0.3;
+
+/**
+ * Track the article marked with `data-post-progress="{slug}"`
+ */
+export function initPostProgress(): void {
+  const article = document.querySelector<HTMLElement>('[data-post-progress]');
+  const slug = article?.dataset.postProgress;
+  if (!article || !slug) return;
+
+  const store = new LearnerProgressStore();
+  const headings = Array.from(article.querySelectorAll<HTMLElement>('h2[id], h3[id]'));
+  let furthest = -1;
+  let scheduled = false;
+
+  const measure = () => {
+    scheduled = false;
+
+    // Share of the article above the bottom of the viewport
+    const rect = article.getBoundingClientRect();
+    const percent = Math.round(Math.min(100, Math.max(0, ((window.innerHeight - rect.top) / rect.height) * 100)));
+    if (percent <= furthest) return;
+    furthest = percent;
+
+    const line = window.innerHeight * SECTION_LINE;
+    const section = headings.filter((heading) => heading.getBoundingClientRect().top <= line).pop()?.id;
+    store.savePost(slug, percent, section);
+  };
+
+  window.addEventListener('scroll', () => {
+    if (scheduled) return;
+    scheduled = true;
+    requestAnimationFrame(measure);
+  }, { passive: true });
+
+  measure();
+}
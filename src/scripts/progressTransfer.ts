@@ -0,0 +1,137 @@
+/**
+ * Progress export and import
+ * Hydrates the `[data-progress-transfer]` section of pages/[lang]/learning:
+ * export to a file, import a file, and transfer links (`#progress=…`, also shown
+ * as a QR code), which are imported when the page is opened with one
+ */
+
+import { LearnerProgressStore } from '../utils/progress/LearnerProgressStore';
+import {
+  createProgressExport,
+  createTransferQrCode,
+  decodeProgressFragment,
+  encodeProgressFragment,
+  parseProgressFile,
+  type ProgressImportResult,
+} from '../utils/progress/progressTransfer';
+
+/**
+ * Label of an import error: `data-error-checksum-mismatch` for "checksum-mismatch"
+ */
+function errorLabel(section: HTMLElement, error: string): string {
+  const key = `error-${error}`.replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase());
+  return section.dataset[key] ?? error;
+}
+
+/**
+ * Download the export as a dated JSON file
+ */
+function download(json: string, exportedAt: string): void {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `quiverlearn-progress-${exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Set up export and import
+ * @param onImport - Called after progress was merged, to show it
+ */
+export function initProgressTransfer(onImport: () => void): void {
+  const section = document.querySelector<HTMLElement>('[data-progress-transfer]');
+  if (!section) return;
+
+  const store = new LearnerProgressStore();
+  const labels = section.dataset;
+  const status = section.querySelector<HTMLElement>('[data-transfer-status]')!;
+  const linkPanel = section.querySelector<HTMLElement>('[data-transfer-link-panel]')!;
+  const linkUrl = section.querySelector<HTMLInputElement>('[data-transfer-link-url]')!;
+  const qrCode = section.querySelector<HTMLElement>('[data-transfer-qr]')!;
+
+  // Checksums and compression need a secure context; on plain http they reject
+  const guard = (action: () => Promise<void>) => async () => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error transferring learner progress:', error);
+      status.textContent = errorLabel(section, 'transfer-failed');
+    }
+  };
+
+  const importResult = (result: ProgressImportResult) => {
+    if (!result.success) {
+      status.textContent = errorLabel(section, result.error);
+      return;
+    }
+    if (!store.importProgress(result.progress)) {
+      status.textContent = errorLabel(section, 'save-failed');
+      return;
+    }
+    status.textContent = labels.imported!;
+    onImport();
+  };
+
+  section.querySelector('[data-transfer-export]')?.addEventListener('click', guard(async () => {
+    const exported = await createProgressExport(store.getAll());
+    download(JSON.stringify(exported, null, 2), exported.exportedAt);
+  }));
+
+  const fileInput = section.querySelector<HTMLInputElement>('[data-transfer-import]');
+  fileInput?.addEventListener('change', guard(async () => {
+    const file = fileInput.files?.[0];
+    if (!file) return;
+
+    try {
+      importResult(await parseProgressFile(await file.text()));
+    } finally {
+      // Allow importing the same file again
+      fileInput.value = '';
+    }
+  }));
+
+  section.querySelector('[data-transfer-link]')?.addEventListener('click', guard(async () => {
+    const fragment = await encodeProgressFragment(await createProgressExport(store.getAll()));
+    linkPanel.hidden = fragment === null;
+    status.textContent = fragment === null ? labels.linkTooLong! : '';
+    if (fragment !== null) {
+      linkUrl.value = `${window.location.origin}/${labels.lang}/learning/#${fragment}`;
+      linkUrl.select();
+
+      // Markup built by createTransferQrCode from the link above
+      const svg = createTransferQrCode(linkUrl.value);
+      qrCode.innerHTML = svg ?? '';
+      qrCode.hidden = svg === null;
+    }
+  }));
+
+  section.querySelector('[data-transfer-copy]')?.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(linkUrl.value);
+      status.textContent = labels.copied!;
+    } catch {
+      // Clipboard access denied: the link is selected for copying by hand
+      linkUrl.select();
+    }
+  });
+
+  // Opened from a transfer link
+  decodeProgressFragment(window.location.hash)
+    .then((result) => {
+      if (!result) return;
+
+      // Drop the fragment so reloading doesn't import again
+      history.replaceState(null, '', window.location.pathname + window.location.search);
+      if (!result.success || window.confirm(labels.confirmLink)) {
+        importResult(result);
+      }
+    })
+    .catch((error) => {
+      console.error('Error reading transfer link:', error);
+      status.textContent = errorLabel(section, 'invalid-file');
+    });
+}
@@ -0,0 +1,153 @@
+/**
+ * Quiz client script
+ * Checks answers in the browser and keeps scores in QuizScoreStore.
+ * Hydrates the markup from src/utils/quiz/render.ts, in posts and slides alike.
+ */
+
+import { QuizScoreStore } from '../utils/quiz/QuizScoreStore';
+import {
+  checkMultipleChoiceAnswer,
+  checkNumericAnswer,
+  type AnswerStatus,
+} from '../utils/quiz/checkAnswer';
+
+const store = new QuizScoreStore();
+
+/**
+ * Wire up every quiz under `root` that hasn't been initialised yet
+ */
+export function initQuizzes(root: ParentNode = document): void {
+  root.querySelectorAll<HTMLElement>('.quiz[data-quiz]:not([data-quiz-ready])').forEach(initQuiz);
+}
+
+function initQuiz(quiz: HTMLElement): void {
+  quiz.dataset.quizReady = '';
+
+  const quizId = quiz.dataset.quiz!;
+  const scope = quiz.dataset.quizScope || window.location.pathname.replace(/\/$/, '');
+  const questions = Array.from(quiz.querySelectorAll<HTMLElement>('.quiz-question'));
+
+  const record = (question: HTMLElement, correct: boolean) => {
+    store.recordAnswer(scope, quizId, question.dataset.questionId!, correct, questions.length);
+    updateScore(quiz, scope, quizId);
+  };
+
+  questions.forEach((question) => {
+    question.querySelector('[data-quiz-check]')?.addEventListener('click', () => {
+      const status = checkQuestion(question);
+      showFeedback(question, status);
+      if (status !== 'invalid') {
+        record(question, status === 'correct');
+      }
+    });
+
+    // Enter in a numeric field checks the answer
+    question.querySelector<HTMLInputElement>('input.quiz-input')?.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        question.querySelector<HTMLButtonElement>('[data-quiz-check]')?.click();
+      }
+    });
+
+    question.querySelector('[data-quiz-reveal]')?.addEventListener('click', () => {
+      question.querySelector<HTMLElement>('[data-quiz-model-answer]')!.hidden = false;
+    });
+
+    question.querySelectorAll<HTMLButtonElement>('[data-quiz-self]').forEach((button) => {
+      button.addEventListener('click', () => {
+        const correct = button.dataset.quizSelf === 'correct';
+        showFeedback(question, correct ? 'correct' : 'incorrect');
+        record(question, correct);
+      });
+    });
+  });
+
+  quiz.querySelector('[data-quiz-reset]')?.addEventListener('click', () => {
+    store.clear(scope, quizId);
+    questions.forEach(resetQuestion);
+    updateScore(quiz, scope, quizId);
+  });
+
+  restoreQuiz(quiz, questions, scope, quizId);
+}
+
+/**
+ * Check the current answer of an auto-checked question
+ */
+function checkQuestion(question: HTMLElement): AnswerStatus {
+  const answer = Number(question.dataset.answer);
+
+  if (question.dataset.questionType === 'numeric') {
+    const input = question.querySelector<HTMLInputElement>('input.quiz-input')!;
+    return checkNumericAnswer({ answer, tolerance: Number(question.dataset.tolerance) || 0 }, input.value);
+  }
+
+  const selected = question.querySelector<HTMLInputElement>('input[type="radio"]:checked');
+  return checkMultipleChoiceAnswer({ answer }, selected ? Number(selected.value) : null);
+}
+
+/**
+ * Show the feedback for a result, and the explanation once answered
+ */
+function showFeedback(question: HTMLElement, status: AnswerStatus): void {
+  question.querySelectorAll<HTMLElement>('[data-feedback]').forEach((feedback) => {
+    feedback.hidden = feedback.dataset.feedback !== status;
+  });
+
+  question.classList.toggle('is-correct', status === 'correct');
+  question.classList.toggle('is-incorrect', status === 'incorrect');
+
+  const explanation = question.querySelector<HTMLElement>('[data-quiz-explanation]');
+  if (explanation && status !== 'invalid') {
+    explanation.hidden = false;
+  }
+}
+
+function resetQuestion(question: HTMLElement): void {
+  question.classList.remove('is-correct', 'is-incorrect');
+  question.querySelectorAll<HTMLElement>('[data-feedback], [data-quiz-explanation], [data-quiz-model-answer]')
+    .forEach((element) => {
+      element.hidden = true;
+    });
+  question.querySelectorAll<HTMLInputElement>('input[type="radio"]').forEach((input) => {
+    input.checked = false;
+  });
+  question.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>('.quiz-input').forEach((input) => {
+    input.value = '';
+  });
+}
+
+/**
+ * Show results saved on an earlier visit
+ */
+function restoreQuiz(quiz: HTMLElement, questions: HTMLElement[], scope: string, quizId: string): void {
+  const saved = store.load(scope, quizId);
+
+  if (saved) {
+    questions.forEach((question) => {
+      const attempt = saved.answers[question.dataset.questionId!];
+      if (attempt) {
+        showFeedback(question, attempt.correct ? 'correct' : 'incorrect');
+      }
+    });
+  }
+
+  updateScore(quiz, scope, quizId);
+}
+
+function updateScore(quiz: HTMLElement, scope: string, quizId: string): void {
+  const score = store.getQuizScore(scope, quizId);
+  const scoreElement = quiz.querySelector<HTMLElement>('[data-quiz-score]');
+  const resetButton = quiz.querySelector<HTMLElement>('[data-quiz-reset]');
+
+  if (scoreElement) {
+    scoreElement.textContent = score.answered > 0
+      ? (quiz.dataset.scoreLabel || '{correct} / {total}')
+          .replace('{correct}', String(score.correct))
+          .replace('{total}', String(score.total))
+      : '';
+  }
+  if (resetButton) {
+    resetButton.hidden = score.answered === 0;
+  }
+}
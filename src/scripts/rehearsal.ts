@@ -0,0 +1,114 @@
+/**
+ * Rehearsal mode for presentations
+ * Shows planned vs actual elapsed time per slide and exports a pacing report.
+ * Hydrates the `[data-rehearsal]` panel rendered by RevealPresentation.astro.
+ */
+
+import { RehearsalTimer, formatPacingReportCsv, type PlannedSlideTime } from '../utils/presentation/RehearsalTimer';
+import { SlideTiming } from '../domain/presentation/SlideTiming';
+
+/**
+ * The parts of a reveal.js deck the rehearsal mode uses
+ */
+interface RehearsalDeck {
+  getState(): { indexh: number };
+  on(type: string, listener: (event: any) => void): void;
+  addKeyBinding(binding: { keyCode: number; key: string; description: string }, callback: () => void): void;
+}
+
+const REHEARSE_KEY_CODE = 82; // R
+
+/**
+ * Fill `{name}` placeholders of a label
+ */
+function format(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Download the pacing report as a CSV file
+ */
+function downloadReport(timer: RehearsalTimer, slug: string): void {
+  const csv = formatPacingReportCsv(timer.getReport(slug));
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `${slug || 'presentation'}-pacing.csv`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Set up rehearsal mode: press R, or open the presentation with `?rehearse`
+ * @returns The timer, or null if the page has no rehearsal panel
+ */
+export function initRehearsal(deck: RehearsalDeck, slides: PlannedSlideTime[], slug: string): RehearsalTimer | null {
+  const panel = document.querySelector<HTMLElement>('[data-rehearsal]');
+  if (!panel) return null;
+
+  const timer = new RehearsalTimer(slides);
+  const labels = panel.dataset;
+  const slideTime = panel.querySelector<HTMLElement>('[data-rehearsal-slide]')!;
+  const totalTime = panel.querySelector<HTMLElement>('[data-rehearsal-total]')!;
+  const drift = panel.querySelector<HTMLElement>('[data-rehearsal-drift]')!;
+  let interval: ReturnType<typeof setInterval> | undefined;
+
+  const render = () => {
+    const status = timer.getStatus();
+    const clock = SlideTiming.formatClock;
+
+    slideTime.textContent = format(labels.ofPlanned!, {
+      actual: clock(status.slideActual),
+      planned: clock(status.slidePlanned),
+    });
+    slideTime.classList.toggle('over', status.slideActual > status.slidePlanned);
+    totalTime.textContent = format(labels.ofPlanned!, {
+      actual: clock(status.elapsed),
+      planned: clock(status.plannedElapsed),
+    });
+
+    // Within a few seconds of the plan counts as on plan
+    const state = Math.abs(status.drift) < 5 ? 'on-time' : status.drift > 0 ? 'behind' : 'ahead';
+    drift.dataset.state = state;
+    drift.textContent = state === 'on-time'
+      ? labels.onTime!
+      : format(state === 'behind' ? labels.behind! : labels.ahead!, { time: clock(Math.abs(status.drift)) });
+  };
+
+  const open = () => {
+    timer.start(deck.getState().indexh);
+    panel.hidden = false;
+    render();
+    clearInterval(interval);
+    interval = setInterval(render, 1000);
+  };
+
+  const close = () => {
+    timer.stop();
+    panel.hidden = true;
+    clearInterval(interval);
+  };
+
+  deck.on('slidechanged', (event: any) => {
+    timer.goTo(event.indexh);
+    if (timer.isRunning()) render();
+  });
+
+  deck.addKeyBinding(
+    { keyCode: REHEARSE_KEY_CODE, key: 'R', description: labels.shortcut ?? 'Rehearsal timer' },
+    () => (panel.hidden ? open() : close())
+  );
+
+  panel.querySelector('[data-rehearsal-export]')?.addEventListener('click', () => downloadReport(timer, slug));
+  panel.querySelector('[data-rehearsal-restart]')?.addEventListener('click', open);
+  panel.querySelector('[data-rehearsal-close]')?.addEventListener('click', close);
+
+  if (new URLSearchParams(window.location.search).has('rehearse')) {
+    open();
+  }
+
+  return timer;
+}
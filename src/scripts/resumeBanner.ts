@@ -0,0 +1,66 @@
+/**
+ * Resume notice for presentations
+ * Tells a returning learner where the deck resumed and how much of it they have seen.
+ * Hydrates the `[data-resume-banner]` notice rendered by RevealPresentation.astro.
+ */
+
+import { countSeenSlides, type CompletionRule } from '../utils/progress/completion';
+import type { PresentationProgress } from '../utils/progress/schemas';
+
+/**
+ * The parts of a reveal.js deck the resume notice uses
+ */
+interface ResumeDeck {
+  slide(indexh: number, indexv?: number): void;
+  getTotalSlides(): number;
+}
+
+// The notice goes away by itself after a while
+const AUTO_HIDE_MS = 12000;
+
+/**
+ * Fill `{name}` placeholders of a label
+ */
+function format(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Show the resume notice for the progress the deck resumed from
+ * @returns false if the page has no resume notice
+ */
+export function showResumeBanner(deck: ResumeDeck, progress: PresentationProgress, rule: CompletionRule): boolean {
+  const banner = document.querySelector<HTMLElement>('[data-resume-banner]');
+  if (!banner) return false;
+
+  const labels = banner.dataset;
+  const verticalIndex = progress.currentVerticalSlide ?? 0;
+  const slide = verticalIndex > 0
+    ? `${progress.currentSlide + 1}.${verticalIndex + 1}`
+    : `${progress.currentSlide + 1}`;
+
+  banner.querySelector('[data-resume-message]')!.textContent = format(labels.resumed!, { slide });
+
+  // Progress saved before visit history has no slides seen to report
+  const seen = banner.querySelector<HTMLElement>('[data-resume-seen]')!;
+  seen.hidden = !progress.visitedSlides;
+  seen.textContent = format(labels.seen!, {
+    seen: String(countSeenSlides(progress, rule)),
+    total: String(progress.slideCount ?? deck.getTotalSlides()),
+  });
+
+  const hide = () => {
+    banner.hidden = true;
+    clearTimeout(timeout);
+  };
+  const timeout = setTimeout(hide, AUTO_HIDE_MS);
+
+  banner.querySelector('[data-resume-start-over]')?.addEventListener('click', () => {
+    deck.slide(0, 0);
+    hide();
+  });
+  banner.querySelector('[data-resume-close]')?.addEventListener('click', hide);
+
+  banner.hidden = false;
+  return true;
+}
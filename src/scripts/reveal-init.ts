@@ -8,8 +8,12 @@
 import Reveal from 'reveal.js';
 import Highlight from 'reveal.js/plugin/highlight/highlight.esm.js';
 import Notes from 'reveal.js/plugin/notes/notes.esm.js';
-import { ProgressTracker } from '../utils/presentation/ProgressTracker';
-import { renderMath } from '../utils/presentation/mathRendering';
+import { LearnerProgressStore } from '../utils/progress/LearnerProgressStore';
+import { DEFAULT_COMPLETION_RULE, type CompletionRule } from '../utils/progress/completion';
+import { renderMath, renderMathInAll } from '../utils/presentation/mathRendering';
+import { applyAutoFragments } from '../utils/presentation/autoFragments';
+import { initRehearsal } from './rehearsal';
+import { showResumeBanner } from './resumeBanner';
 
 // Get config from global variable (set by inline script)
 declare global {
@@ -17,21 +21,24 @@ declare global {
     __REVEAL_CONFIG__: any;
     __REVEAL_SLUG__: string;
     __REVEAL_SLIDES__: any[];
+    __REVEAL_COMPLETION__?: CompletionRule;
   }
 }
 
-// Initialize progress tracker
-const progressTracker = new ProgressTracker();
-
 // ===== REVEAL.JS INITIALIZATION =====
 const slug = window.__REVEAL_SLUG__;
 const slides = window.__REVEAL_SLIDES__;
 const revealConfig = window.__REVEAL_CONFIG__;
+const completionRule = window.__REVEAL_COMPLETION__ ?? DEFAULT_COMPLETION_RULE;
+
+// Initialize progress store
+const progressStore = new LearnerProgressStore(undefined, completionRule);
+
+// Slides with `fragments: true` reveal their blocks step by step
+applyAutoFragments(document.querySelector('.reveal .slides'));
 
 const deck = new Reveal({
   plugins: [Highlight, Notes],
-  // Configuration
-  ...revealConfig,
   // Mobile optimizations
   touch: true,
   keyboard: true,
@@ -40,6 +47,8 @@ const deck = new Reveal({
   // View distance (preload slides)
   viewDistance: window.innerWidth > 768 ? 3 : 1,
   mobileViewDistance: 1,
+  // Configuration (site defaults merged with the deck's metadata.json), wins over the above
+  ...revealConfig,
 });
 
 // Initialize reveal.js
@@ -48,36 +57,92 @@ deck.initialize().then(() => {
 
   // Load saved progress
   if (slug) {
-    const progress = progressTracker.load(slug);
-    if (progress && progress.currentSlide > 0 && !progress.completed) {
+    const progress = progressStore.loadPresentation(slug);
+    const verticalIndex = progress?.currentVerticalSlide ?? 0;
+    if (progress && (progress.currentSlide > 0 || verticalIndex > 0) && !progress.completed) {
       console.log(`📖 Resuming from slide ${progress.currentSlide + 1} of ${slides.length}`);
-      deck.slide(progress.currentSlide);
+      deck.slide(progress.currentSlide, verticalIndex);
+      showResumeBanner(deck, progress, completionRule);
     }
   }
 
+  // Start timing the first slide only once the deck is ready (and possibly resumed)
+  startView();
+
   // Initial KaTeX render
   const currentSlide = deck.getCurrentSlide();
   if (currentSlide) {
     renderMath(currentSlide);
   }
+
+  // Print view (?print-pdf) shows every slide at once: render all math, then
+  // signal scripts/export-presentations.ts that the page can be captured
+  if (document.documentElement.classList.contains('reveal-print')) {
+    renderMathInAll('.reveal .slides section');
+    document.documentElement.dataset.exportReady = 'true';
+  }
+
+  // Rehearsal mode: planned vs actual time per slide (press R or open with ?rehearse)
+  initRehearsal(deck, slides, slug);
 }).catch((error) => {
   console.error('❌ reveal.js initialization failed:', error);
 });
 
+// ===== VISIT HISTORY =====
+
+// The slide on screen and when it was shown; null while the page is hidden
+let currentView: { indexh: number; indexv: number; since: number } | null = null;
+
+function startView(): void {
+  const { h, v } = deck.getIndices();
+  currentView = { indexh: h, indexv: v ?? 0, since: performance.now() };
+}
+
+/**
+ * Add the time spent on the slide on screen to the visit history
+ */
+function recordView(): void {
+  if (!slug || !currentView) return;
+
+  const wasCompleted = progressStore.loadPresentation(slug)?.completed ?? false;
+  const progress = progressStore.recordSlideView(slug, {
+    slideIndex: currentView.indexh,
+    verticalIndex: currentView.indexv,
+    dwellMs: performance.now() - currentView.since,
+    totalSlides: slides.length, // Horizontal sections
+    slideCount: deck.getTotalSlides(),
+  });
+  currentView = null;
+
+  if (progress?.completed && !wasCompleted) {
+    console.log('🎉 Presentation completed!');
+  }
+}
+
+// Time with the tab in the background doesn't count
+document.addEventListener('visibilitychange', () => {
+  if (!deck.isReady()) return;
+  if (document.visibilityState === 'hidden') {
+    recordView();
+  } else {
+    startView();
+  }
+});
+
+window.addEventListener('pagehide', recordView);
+
 // ===== EVENT LISTENERS =====
 
 // Slide changed event
 deck.on('slidechanged', (event: any) => {
-  console.log(`Slide changed: ${event.indexh + 1} / ${slides.length}`);
+  const position = event.indexv > 0 ? `${event.indexh + 1}.${event.indexv + 1}` : `${event.indexh + 1}`;
+  console.log(`Slide changed: ${position} / ${slides.length}`);
 
-  // Save progress
+  // Save progress (slides.length counts horizontal sections)
   if (slug) {
-    progressTracker.save(slug, event.indexh, slides.length);
-
-    // Log completion
-    if (event.indexh === slides.length - 1) {
-      console.log('🎉 Presentation completed!');
-    }
+    recordView();
+    progressStore.savePresentation(slug, event.indexh, slides.length, event.indexv);
+    startView();
   }
 
   // Render KaTeX on new slide
@@ -0,0 +1,119 @@
+/**
+ * Feed Service Layer
+ * Builds the feed of a language from its published posts and presentations;
+ * pages/[lang]/rss.xml, atom.xml and feed.json serialize it (see utils/feed)
+ */
+
+import type { Language } from '../../i18n';
+import { getTranslations } from '../../i18n';
+import { SITE_AUTHOR } from '../../consts';
+import { BlogPostService } from '../BlogPostService';
+import { PresentationService } from '../presentation/PresentationService';
+import { renderFeedContent } from '../../utils/feed/feedContent';
+import {
+  FEED_PATHS,
+  getFeedPath,
+  type Feed,
+  type FeedContentMode,
+  type FeedFormat,
+  type FeedItem,
+} from '../../utils/feed/feed';
+
+/**
+ * Post source used to build feeds
+ */
+export type FeedPostSource = Pick<typeof BlogPostService, 'find'>;
+
+export interface FeedOptions {
+  /** Full post content or only the description (default: 'summary') */
+  content?: FeedContentMode;
+}
+
+/**
+ * Category first, then tags, without repeats
+ */
+function getCategories(category: string | undefined, tags: string[]): string[] {
+  return [...new Set([...(category ? [category] : []), ...tags])];
+}
+
+/**
+ * Service class for site feeds
+ */
+export class FeedService {
+  private presentationService: PresentationService;
+  private postSource: FeedPostSource;
+
+  constructor(presentationService?: PresentationService, postSource?: FeedPostSource) {
+    this.presentationService = presentationService || new PresentationService();
+    this.postSource = postSource || BlogPostService;
+  }
+
+  /**
+   * Get the feed of a language: posts (drafts excluded) and published presentations, newest first
+   * @param site - Site origin, from `context.site`
+   */
+  async getFeed(language: Language, site: URL | string, options: FeedOptions = {}): Promise<Feed> {
+    const t = getTranslations(language);
+    const absolute = (path: string) => new URL(path, site).href;
+    const [posts, presentations] = await Promise.all([
+      this.postSource.find(language, { excludeDrafts: true }, { sort: 'latest' }),
+      this.presentationService.getPublishedPresentations(language),
+    ]);
+
+    const postItems = await Promise.all(posts.map(async (post): Promise<FeedItem> => ({
+      type: 'post',
+      url: absolute(`/${language}/blog/${post.slug}/`),
+      title: post.title,
+      summary: post.description,
+      ...(options.content === 'full'
+        ? { content: await renderFeedContent(post.body, post.format, absolute('/')) }
+        : {}),
+      published: post.pubDate,
+      ...(post.updatedDate ? { updated: post.updatedDate } : {}),
+      author: post.author,
+      categories: getCategories(post.category, post.tags),
+    })));
+
+    const presentationItems = presentations.map((presentation): FeedItem => ({
+      type: 'presentation',
+      url: absolute(`/${language}/presentations/${presentation.id}/`),
+      title: presentation.title,
+      summary: presentation.description,
+      published: new Date(presentation.pubDate),
+      ...(presentation.updatedDate ? { updated: new Date(presentation.updatedDate) } : {}),
+      author: presentation.author,
+      categories: getCategories(presentation.category, presentation.tags),
+    }));
+
+    const formats = Object.keys(FEED_PATHS) as FeedFormat[];
+
+    return {
+      language,
+      title: t.feed.title,
+      description: t.feed.description,
+      homeUrl: absolute(`/${language}/`),
+      feedUrls: Object.fromEntries(
+        formats.map((format) => [format, absolute(getFeedPath(language, format))])
+      ) as Record<FeedFormat, string>,
+      author: SITE_AUTHOR,
+      items: [...postItems, ...presentationItems].sort(
+        (a, b) => b.published.getTime() - a.published.getTime()
+      ),
+    };
+  }
+}
+
+/**
+ * Default singleton instance
+ */
+let defaultService: FeedService | null = null;
+
+/**
+ * Get the default feed service instance
+ */
+export function getDefaultFeedService(): FeedService {
+  if (!defaultService) {
+    defaultService = new FeedService();
+  }
+  return defaultService;
+}
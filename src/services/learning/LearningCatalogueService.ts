@@ -0,0 +1,100 @@
+/**
+ * Learning Catalogue Service Layer
+ * Lists every post and presentation of a language for the "My learning" page,
+ * which joins it with the progress saved in the browser
+ */
+
+import type { Language } from '../../i18n';
+import type { LearningPathStepType } from '../../domain/learning/LearningPath';
+import type { PresentationRepository } from '../../domain/presentation/PresentationRepository';
+import { BlogPostRepository } from '../../repositories/BlogPostRepository';
+import { getDefaultPresentationRepository } from '../../infrastructure/presentation/FileSystemPresentationRepository';
+
+/**
+ * Post source used to build the catalogue
+ */
+export type LearningCataloguePostSource = Pick<typeof BlogPostRepository, 'findAll'>;
+
+/**
+ * Catalogue item view model; `slug` is the key of the item's saved progress
+ */
+export interface LearningCatalogueItem {
+  type: LearningPathStepType;
+  slug: string;
+  title: string;
+  description: string;
+  url: string;
+  /** Absent for posts without a category */
+  category?: string;
+  difficulty: string;
+  tags: string[];
+}
+
+/**
+ * Service class for the learning catalogue
+ */
+export class LearningCatalogueService {
+  private presentationRepository: PresentationRepository;
+  private postRepository: LearningCataloguePostSource;
+
+  constructor(
+    presentationRepository?: PresentationRepository,
+    postRepository?: LearningCataloguePostSource
+  ) {
+    this.presentationRepository = presentationRepository || getDefaultPresentationRepository();
+    this.postRepository = postRepository || BlogPostRepository;
+  }
+
+  /**
+   * Get every post and presentation of a language: posts first, each sorted by title
+   */
+  async getCatalogue(language: Language): Promise<LearningCatalogueItem[]> {
+    const [posts, presentations] = await Promise.all([
+      this.postRepository.findAll(language),
+      this.presentationRepository.findAll(language),
+    ]);
+    const byTitle = (a: LearningCatalogueItem, b: LearningCatalogueItem) => a.title.localeCompare(b.title);
+
+    return [
+      ...posts
+        .map((post): LearningCatalogueItem => ({
+          type: 'post',
+          slug: post.slug,
+          title: post.title,
+          description: post.description,
+          url: `/${language}/blog/${post.slug}/`,
+          ...(post.category ? { category: post.category } : {}),
+          difficulty: post.difficulty ?? 'beginner',
+          tags: post.tags,
+        }))
+        .sort(byTitle),
+      ...presentations
+        .map((presentation): LearningCatalogueItem => ({
+          type: 'presentation',
+          slug: presentation.id,
+          title: presentation.getTitle(),
+          description: presentation.getDescription(),
+          url: `/${language}/presentations/${presentation.id}/`,
+          category: presentation.getCategory(),
+          difficulty: presentation.getDifficulty(),
+          tags: presentation.getTags(),
+        }))
+        .sort(byTitle),
+    ];
+  }
+}
+
+/**
+ * Default singleton instance
+ */
+let defaultService: LearningCatalogueService | null = null;
+
+/**
+ * Get the default learning catalogue service instance
+ */
+export function getDefaultLearningCatalogueService(): LearningCatalogueService {
+  if (!defaultService) {
+    defaultService = new LearningCatalogueService();
+  }
+  return defaultService;
+}
@@ -0,0 +1,261 @@
+/**
+ * Learning Path Service Layer
+ * Resolves learning path steps to posts and presentations for the pages
+ */
+
+import type { Language } from '../../i18n';
+import type { LearningPath, LearningPathStep, LearningPathStepType } from '../../domain/learning/LearningPath';
+import type { LearningPathRepository } from '../../domain/learning/LearningPathRepository';
+import type { PresentationRepository } from '../../domain/presentation/PresentationRepository';
+import { BlogPostRepository } from '../../repositories/BlogPostRepository';
+import { getDefaultLearningPathRepository } from '../../infrastructure/learning/ContentCollectionLearningPathRepository';
+import { getDefaultPresentationRepository } from '../../infrastructure/presentation/FileSystemPresentationRepository';
+
+/**
+ * Post lookup used to resolve post steps
+ */
+export type LearningPathPostLookup = Pick<typeof BlogPostRepository, 'findBySlug'>;
+
+/**
+ * Learning path step view model
+ */
+export interface LearningPathStepViewModel {
+  position: number;
+  type: LearningPathStepType;
+  slug: string;
+  title: string;
+  description: string;
+  url: string;
+  /** Language the step is shown in; differs from the page when it isn't translated yet */
+  language: Language;
+  isFallback: boolean;
+}
+
+/**
+ * Learning path link view model
+ */
+export interface LearningPathLinkViewModel {
+  id: string;
+  title: string;
+  url: string;
+}
+
+/**
+ * Learning path list view model
+ */
+export interface LearningPathListViewModel extends LearningPathLinkViewModel {
+  description: string;
+  difficulty: string;
+  stepCount: number;
+  prerequisites: LearningPathLinkViewModel[];
+}
+
+/**
+ * Learning path detail view model
+ */
+export interface LearningPathDetailViewModel extends LearningPathListViewModel {
+  steps: LearningPathStepViewModel[];
+}
+
+/**
+ * Where a post or presentation sits in one learning path
+ */
+export interface LearningPathNavigationViewModel {
+  path: LearningPathLinkViewModel;
+  position: number;
+  total: number;
+  previous?: LearningPathStepViewModel;
+  next?: LearningPathStepViewModel;
+}
+
+const LANGUAGES: Language[] = ['en', 'id'];
+
+/**
+ * Service class for learning path operations
+ */
+export class LearningPathService {
+  private pathRepository: LearningPathRepository;
+  private presentationRepository: PresentationRepository;
+  private postRepository: LearningPathPostLookup;
+
+  constructor(
+    pathRepository?: LearningPathRepository,
+    presentationRepository?: PresentationRepository,
+    postRepository?: LearningPathPostLookup
+  ) {
+    this.pathRepository = pathRepository || getDefaultLearningPathRepository();
+    this.presentationRepository = presentationRepository || getDefaultPresentationRepository();
+    this.postRepository = postRepository || BlogPostRepository;
+  }
+
+  /**
+   * Get all learning paths for a language as view models
+   */
+  async getPathsForLanguage(language: Language): Promise<LearningPathListViewModel[]> {
+    const paths = await this.pathRepository.findAll();
+
+    return paths.map((path) => this.toListViewModel(path, paths, language));
+  }
+
+  /**
+   * Get a single learning path with its steps resolved
+   */
+  async getPathDetail(id: string, language: Language): Promise<LearningPathDetailViewModel | null> {
+    const [paths, path] = await Promise.all([
+      this.pathRepository.findAll(),
+      this.pathRepository.findById(id),
+    ]);
+
+    if (!path) {
+      return null;
+    }
+
+    return {
+      ...this.toListViewModel(path, paths, language),
+      steps: await this.resolveSteps(path, language),
+    };
+  }
+
+  /**
+   * Get previous/next steps around a post or presentation in every path that includes it
+   */
+  async getNavigation(
+    type: LearningPathStepType,
+    slug: string,
+    language: Language
+  ): Promise<LearningPathNavigationViewModel[]> {
+    const paths = await this.pathRepository.findContaining(type, slug, language);
+
+    const navigation = await Promise.all(
+      paths.map(async (path): Promise<LearningPathNavigationViewModel | null> => {
+        const steps = await this.resolveSteps(path, language);
+        const index = steps.findIndex(
+          (step) => step.type === type && step.slug === slug && step.language === language
+        );
+
+        if (index === -1) {
+          return null;
+        }
+
+        return {
+          path: this.toLinkViewModel(path, language),
+          position: index + 1,
+          total: steps.length,
+          previous: steps[index - 1],
+          next: steps[index + 1],
+        };
+      })
+    );
+
+    return navigation.filter((item): item is LearningPathNavigationViewModel => item !== null);
+  }
+
+  /**
+   * Resolve every step of a path, numbering the ones that exist
+   */
+  private async resolveSteps(path: LearningPath, language: Language): Promise<LearningPathStepViewModel[]> {
+    const steps = await Promise.all(path.steps.map((step) => this.resolveStep(path, step, language)));
+
+    return steps
+      .filter((step): step is LearningPathStepViewModel => step !== null)
+      .map((step, index) => ({ ...step, position: index + 1 }));
+  }
+
+  /**
+   * Resolve a step in the requested language, falling back to the other
+   * language when the post or presentation isn't translated yet
+   */
+  private async resolveStep(
+    path: LearningPath,
+    step: LearningPathStep,
+    language: Language
+  ): Promise<LearningPathStepViewModel | null> {
+    const languages = [language, ...LANGUAGES.filter((lang) => lang !== language)];
+
+    for (const lang of languages) {
+      const slug = step.getSlug(lang);
+      if (!slug) continue;
+
+      const target = await this.findTarget(step.type, slug, lang);
+      if (!target) continue;
+
+      return {
+        position: step.position,
+        type: step.type,
+        slug,
+        title: target.title,
+        description: target.description,
+        url: step.getUrl(lang)!,
+        language: lang,
+        isFallback: lang !== language,
+      };
+    }
+
+    console.warn(`Learning path ${path.id}: step ${step.position} (${step.type}) has no content in any language`);
+    return null;
+  }
+
+  /**
+   * Look up the title and description of a post or presentation
+   */
+  private async findTarget(
+    type: LearningPathStepType,
+    slug: string,
+    language: Language
+  ): Promise<{ title: string; description: string } | null> {
+    if (type === 'post') {
+      const post = await this.postRepository.findBySlug(slug, language);
+      return post ? { title: post.title, description: post.description } : null;
+    }
+
+    const presentation = await this.presentationRepository.findBySlug(slug, language);
+    return presentation
+      ? { title: presentation.getTitle(), description: presentation.getDescription() }
+      : null;
+  }
+
+  /**
+   * Convert a path to a link view model
+   */
+  private toLinkViewModel(path: LearningPath, language: Language): LearningPathLinkViewModel {
+    return {
+      id: path.id,
+      title: path.getTitle(language),
+      url: `/${language}/paths/${path.id}/`,
+    };
+  }
+
+  /**
+   * Convert a path to a list view model
+   */
+  private toListViewModel(
+    path: LearningPath,
+    allPaths: LearningPath[],
+    language: Language
+  ): LearningPathListViewModel {
+    return {
+      ...this.toLinkViewModel(path, language),
+      description: path.getDescription(language),
+      difficulty: path.getDifficulty(),
+      stepCount: path.getStepCount(),
+      prerequisites: allPaths
+        .filter((other) => path.hasPrerequisite(other.id))
+        .map((other) => this.toLinkViewModel(other, language)),
+    };
+  }
+}
+
+/**
+ * Default singleton instance
+ */
+let defaultService: LearningPathService | null = null;
+
+/**
+ * Get the default learning path service instance
+ */
+export function getDefaultLearningPathService(): LearningPathService {
+  if (!defaultService) {
+    defaultService = new LearningPathService();
+  }
+  return defaultService;
+}
@@ -0,0 +1,168 @@
+/**
+ * Prerequisite Service Layer
+ * Builds the prerequisite graph for posts and presentations and resolves "read these first" lists
+ */
+
+import type { Language } from '../../i18n';
+import type { LearningPathStepType } from '../../domain/learning/LearningPath';
+import type { PresentationRepository } from '../../domain/presentation/PresentationRepository';
+import { PrerequisiteGraph } from '../../domain/learning/PrerequisiteGraph';
+import { BlogPostRepository } from '../../repositories/BlogPostRepository';
+import { getDefaultPresentationRepository } from '../../infrastructure/presentation/FileSystemPresentationRepository';
+
+/**
+ * Post source used to build the graph
+ */
+export type PrerequisitePostSource = Pick<typeof BlogPostRepository, 'findAll'>;
+
+/**
+ * Read-first item view model
+ */
+export interface PrerequisiteViewModel {
+  type: LearningPathStepType;
+  slug: string;
+  title: string;
+  description: string;
+  url: string;
+  /** Listed on the content itself rather than pulled in through another prerequisite */
+  isDirect: boolean;
+}
+
+interface ContentSummary {
+  title: string;
+  description: string;
+}
+
+/**
+ * Graph of one language with the titles needed for view models
+ */
+interface LanguageGraph {
+  graph: PrerequisiteGraph;
+  summaries: Map<string, ContentSummary>;
+}
+
+/**
+ * Service class for prerequisite operations
+ */
+export class PrerequisiteService {
+  private presentationRepository: PresentationRepository;
+  private postRepository: PrerequisitePostSource;
+  private graphs = new Map<Language, Promise<LanguageGraph>>();
+
+  constructor(
+    presentationRepository?: PresentationRepository,
+    postRepository?: PrerequisitePostSource
+  ) {
+    this.presentationRepository = presentationRepository || getDefaultPresentationRepository();
+    this.postRepository = postRepository || BlogPostRepository;
+  }
+
+  /**
+   * Get the validated prerequisite graph for a language
+   * @throws Error if a prerequisite is missing or the prerequisites form a cycle
+   */
+  async getGraph(language: Language): Promise<PrerequisiteGraph> {
+    const { graph } = await this.loadGraph(language);
+    return graph;
+  }
+
+  /**
+   * Get everything to read before a post or presentation, in reading order
+   */
+  async getReadFirst(
+    type: LearningPathStepType,
+    slug: string,
+    language: Language
+  ): Promise<PrerequisiteViewModel[]> {
+    const { graph, summaries } = await this.loadGraph(language);
+    const reference = { type, slug };
+    const direct = new Set(graph.getDirectPrerequisites(reference).map(PrerequisiteGraph.keyOf));
+
+    return graph.getReadingOrder(reference).map((item) => {
+      const key = PrerequisiteGraph.keyOf(item);
+      const summary = summaries.get(key)!;
+
+      return {
+        type: item.type,
+        slug: item.slug,
+        title: summary.title,
+        description: summary.description,
+        url: item.type === 'post'
+          ? `/${language}/blog/${item.slug}/`
+          : `/${language}/presentations/${item.slug}/`,
+        isDirect: direct.has(key),
+      };
+    });
+  }
+
+  /**
+   * Build and validate the graph once per language
+   */
+  private loadGraph(language: Language): Promise<LanguageGraph> {
+    let graph = this.graphs.get(language);
+    if (!graph) {
+      graph = this.buildGraph(language);
+      this.graphs.set(language, graph);
+    }
+    return graph;
+  }
+
+  /**
+   * Build the graph from every post and presentation in a language
+   */
+  private async buildGraph(language: Language): Promise<LanguageGraph> {
+    const [posts, presentations] = await Promise.all([
+      this.postRepository.findAll(language),
+      this.presentationRepository.findAll(language),
+    ]);
+
+    const summaries = new Map<string, ContentSummary>();
+    const nodes = [
+      ...posts.map((post) => ({
+        type: 'post' as const,
+        slug: post.slug,
+        prerequisites: post.prerequisites,
+        title: post.title,
+        description: post.description,
+      })),
+      ...presentations.map((presentation) => ({
+        type: 'presentation' as const,
+        slug: presentation.id,
+        prerequisites: presentation.getPrerequisites(),
+        title: presentation.getTitle(),
+        description: presentation.getDescription(),
+      })),
+    ];
+
+    for (const node of nodes) {
+      summaries.set(PrerequisiteGraph.keyOf(node), { title: node.title, description: node.description });
+    }
+
+    const graph = new PrerequisiteGraph(nodes);
+    graph.assertValid(language);
+
+    return { graph, summaries };
+  }
+
+  /**
+   * Clear the cached graphs (useful for testing or development)
+   */
+  clearCache(): void {
+    this.graphs.clear();
+  }
+}
+
+/**
+ * Default singleton instance
+ */
+let defaultService: PrerequisiteService | null = null;
+
+/**
+ * Get the default prerequisite service instance
+ */
+export function getDefaultPrerequisiteService(): PrerequisiteService {
+  if (!defaultService) {
+    defaultService = new PrerequisiteService();
+  }
+  return defaultService;
+}
@@ -4,8 +4,11 @@
  */
 
 import type { PresentationRepository } from '../../domain/presentation/PresentationRepository';
-import type { Presentation } from '../../domain/presentation/Presentation';
+import type { Presentation, PresentationDisplayMode } from '../../domain/presentation/Presentation';
 import type { Language } from '../../domain/blog/types';
+import type { CompletionRule, RevealConfig } from '../../utils/presentation/schemas';
+import { resolveRevealConfig } from '../../utils/presentation/revealConfig';
+import { resolveCompletionRule } from '../../utils/progress/completion';
 import { getDefaultPresentationRepository } from '../../infrastructure/presentation/FileSystemPresentationRepository';
 
 /**
@@ -20,7 +23,9 @@ export interface PresentationListViewModel {
   estimatedTime: number;
   totalSlides: number;
   relatedBlogPost?: string;
+  category: string;
   pubDate: string;
+  updatedDate?: string;
   author: string;
 }
 
@@ -39,10 +44,34 @@ export interface PresentationDetailViewModel {
   estimatedTime: number;
   totalSlides: number;
   author: string;
+  displayMode: PresentationDisplayMode;
+  /** reveal.js theme name, or "custom" for the site theme */
+  theme: string;
+  /** reveal.js settings: the deck's `reveal` block merged over the site defaults */
+  reveal: RevealConfig;
+  /** When a learner has completed the deck: its `completion` block merged over the site default */
+  completion: CompletionRule;
   slides: Array<{
     title: string;
     time: string;
+    /** Planned start in seconds from the beginning of the deck */
+    plannedStart: number;
+    /** Planned duration in seconds */
+    plannedDuration: number;
     content: string;
+    notes?: string;
+    fragments: boolean;
+    transition?: string;
+    background?: string;
+    /** Slides stacked below this one; they share its planned time */
+    verticalSlides: Array<{
+      title: string;
+      content: string;
+      notes?: string;
+      fragments: boolean;
+      transition?: string;
+      background?: string;
+    }>;
   }>;
 }
 
@@ -99,6 +128,7 @@ export class PresentationService {
       estimatedTime: p.estimatedTime,
       totalSlides: p.totalSlides,
       relatedBlogPost: p.relatedBlogPost,
+      category: p.category,
       pubDate: p.pubDate,
       author: p.author,
     }));
@@ -122,6 +152,18 @@ export class PresentationService {
     return featured.map((p) => this.toPresentationListViewModel(p));
   }
 
+  /**
+   * Get published presentations (publication date not in the future), newest first
+   */
+  async getPublishedPresentations(language: Language): Promise<PresentationListViewModel[]> {
+    const presentations = await this.repository.findAll(language);
+
+    return presentations
+      .filter((p) => p.isPublished())
+      .sort((a, b) => b.getPubDate().getTime() - a.getPubDate().getTime())
+      .map((p) => this.toPresentationListViewModel(p));
+  }
+
   /**
    * Get presentations by tag
    */
@@ -208,7 +250,9 @@ export class PresentationService {
       estimatedTime: presentation.getEstimatedTime(),
       totalSlides: presentation.getSlideCount(),
       relatedBlogPost: presentation.getRelatedBlogPost(),
+      category: presentation.getCategory(),
       pubDate: presentation.metadata.pubDate,
+      ...(presentation.metadata.updatedDate ? { updatedDate: presentation.metadata.updatedDate } : {}),
       author: presentation.getAuthor(),
     };
   }
@@ -219,6 +263,8 @@ export class PresentationService {
   private toPresentationDetailViewModel(
     presentation: Presentation
   ): PresentationDetailViewModel {
+    const schedule = presentation.getSchedule();
+
     return {
       id: presentation.id,
       title: presentation.getTitle(),
@@ -231,10 +277,32 @@ export class PresentationService {
       estimatedTime: presentation.getEstimatedTime(),
       totalSlides: presentation.getSlideCount(),
       author: presentation.getAuthor(),
-      slides: presentation.slides.map((slide) => ({
+      displayMode: presentation.getDisplayMode(),
+      theme: presentation.getTheme(),
+      reveal: resolveRevealConfig({
+        displayMode: presentation.getDisplayMode(),
+        hasVerticalSlides: presentation.hasVerticalSlides(),
+        settings: presentation.getRevealSettings(),
+      }),
+      completion: resolveCompletionRule(presentation.getCompletionSettings()),
+      slides: presentation.slides.map((slide, index) => ({
         title: slide.getTitle(),
         time: slide.getFormattedTime(),
+        plannedStart: schedule[index].start,
+        plannedDuration: schedule[index].duration,
         content: slide.getContent(),
+        notes: slide.getNotes(),
+        fragments: slide.hasFragments(),
+        transition: slide.getTransition(),
+        background: slide.getBackground(),
+        verticalSlides: slide.getVerticalSlides().map((child) => ({
+          title: child.getTitle(),
+          content: child.getContent(),
+          notes: child.getNotes(),
+          fragments: child.hasFragments(),
+          transition: child.getTransition(),
+          background: child.getBackground(),
+        })),
       })),
     };
   }
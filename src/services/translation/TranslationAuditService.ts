@@ -0,0 +1,377 @@
+/**
+ * Translation Audit Service Layer
+ * Pairs posts and presentations across languages and reports missing or drifting translations
+ */
+
+import type { Language } from '../../i18n';
+import { supportedLanguages } from '../../i18n';
+import type { LearningPathStepType } from '../../domain/learning/LearningPath';
+import type { PresentationRepository } from '../../domain/presentation/PresentationRepository';
+import type { Presentation } from '../../domain/presentation/Presentation';
+import { switchLanguage } from '../../utils/i18n';
+import { BlogPostRepository } from '../../repositories/BlogPostRepository';
+import { getDefaultPresentationRepository } from '../../infrastructure/presentation/FileSystemPresentationRepository';
+
+/**
+ * Post source used to pair translations
+ */
+export type TranslationPostSource = Pick<typeof BlogPostRepository, 'findAll'>;
+
+/**
+ * Days a translation may lag behind the most recently updated version
+ */
+export const TRANSLATION_DRIFT_TOLERANCE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One language version of a post or presentation
+ */
+export interface TranslationVersion {
+  slug: string;
+  title: string;
+  url: string;
+  /** updatedDate, or pubDate when the content hasn't been updated */
+  lastUpdated: Date;
+}
+
+/**
+ * The language versions of one post or presentation
+ */
+export interface TranslationGroup {
+  type: LearningPathStepType;
+  translationId: string;
+  versions: Partial<Record<Language, TranslationVersion>>;
+}
+
+export type TranslationIssueKind =
+  | 'missing-translation'
+  | 'slide-count-mismatch'
+  | 'untranslated-slide-titles'
+  | 'outdated-translation';
+
+/**
+ * A problem with the translations of a group
+ */
+export interface TranslationIssue {
+  kind: TranslationIssueKind;
+  type: LearningPathStepType;
+  translationId: string;
+  /** The language version the problem is in */
+  language: Language;
+  message: string;
+}
+
+/**
+ * Result of auditing every post and presentation
+ */
+export interface TranslationAudit {
+  groups: TranslationGroup[];
+  issues: TranslationIssue[];
+}
+
+/**
+ * Where the language switcher should send a reader
+ */
+export interface AlternateLink {
+  url: string;
+  /** False when the page has no translation and the link falls back to the section index */
+  translated: boolean;
+}
+
+/**
+ * Presentations of one group, kept for the slide checks
+ */
+type PresentationsByLanguage = Partial<Record<Language, Presentation>>;
+
+const CONTENT_PATHS: Record<LearningPathStepType, string> = {
+  post: 'blog',
+  presentation: 'presentations',
+};
+
+/**
+ * Key of a group: content type and translation ID
+ */
+function keyOf(type: LearningPathStepType, translationId: string): string {
+  return `${type}:${translationId}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Service class for translation operations
+ */
+export class TranslationAuditService {
+  private presentationRepository: PresentationRepository;
+  private postRepository: TranslationPostSource;
+  private auditPromise: Promise<TranslationAudit> | null = null;
+  private reported = false;
+
+  constructor(
+    presentationRepository?: PresentationRepository,
+    postRepository?: TranslationPostSource
+  ) {
+    this.presentationRepository = presentationRepository || getDefaultPresentationRepository();
+    this.postRepository = postRepository || BlogPostRepository;
+  }
+
+  /**
+   * Pair every post and presentation with its translations and check them (built once)
+   */
+  audit(): Promise<TranslationAudit> {
+    if (!this.auditPromise) {
+      this.auditPromise = this.buildAudit();
+    }
+    return this.auditPromise;
+  }
+
+  /**
+   * Find the version of a post or presentation in another language
+   * @returns The version, or null if the content isn't translated to that language
+   */
+  async findTranslation(
+    type: LearningPathStepType,
+    slug: string,
+    from: Language,
+    to: Language
+  ): Promise<TranslationVersion | null> {
+    const group = await this.findGroup(type, slug, from);
+    return group?.versions[to] ?? null;
+  }
+
+  /**
+   * Find the version of a post or presentation to link to from a page in `language`
+   * @returns The version in `language` or, failing that, in another language with the language it's in
+   */
+  async findVersion(
+    type: LearningPathStepType,
+    slug: string,
+    language: Language
+  ): Promise<{ language: Language; version: TranslationVersion } | null> {
+    const { groups } = await this.audit();
+    const ofType = groups.filter((group) => group.type === type);
+    // The slug in this language first, then a slug of another language
+    const group =
+      ofType.find((candidate) => candidate.versions[language]?.slug === slug) ??
+      ofType.find((candidate) => Object.values(candidate.versions).some((version) => version?.slug === slug));
+    if (!group) {
+      return null;
+    }
+
+    for (const candidate of [language, ...supportedLanguages.filter((lang) => lang !== language)]) {
+      const version = group.versions[candidate];
+      if (version) {
+        return { language: candidate, version };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the URL of a page in another language
+   * Posts and presentations link to their translation; without one, to the section index of the other language
+   */
+  async getAlternateLink(pathname: string, from: Language, to: Language): Promise<AlternateLink> {
+    const [, section, slug, ...rest] = pathname.split('/').filter(Boolean);
+    const type = (Object.keys(CONTENT_PATHS) as LearningPathStepType[]).find((key) => CONTENT_PATHS[key] === section);
+
+    if (!type || !slug || rest.length > 0) {
+      return { url: switchLanguage(pathname, to), translated: true };
+    }
+
+    const translation = await this.findTranslation(type, slug, from, to);
+    return translation
+      ? { url: translation.url, translated: true }
+      : { url: `/${to}/${CONTENT_PATHS[type]}/`, translated: false };
+  }
+
+  /**
+   * Log the audit issues as build warnings (once per service)
+   */
+  async reportIssues(): Promise<void> {
+    if (this.reported) return;
+    this.reported = true;
+
+    const { issues } = await this.audit();
+    if (issues.length === 0) return;
+
+    console.warn(`⚠️  Translation audit found ${issues.length} problem(s):`);
+    for (const issue of issues) {
+      console.warn(`  - ${issue.type} "${issue.translationId}" (${issue.language}): ${issue.message}`);
+    }
+  }
+
+  /**
+   * Clear the cached audit (useful for testing or development)
+   */
+  clearCache(): void {
+    this.auditPromise = null;
+    this.reported = false;
+  }
+
+  /**
+   * Find the group a slug belongs to in a language
+   */
+  private async findGroup(
+    type: LearningPathStepType,
+    slug: string,
+    language: Language
+  ): Promise<TranslationGroup | undefined> {
+    const { groups } = await this.audit();
+    return groups.find((group) => group.type === type && group.versions[language]?.slug === slug);
+  }
+
+  /**
+   * Load every language and check each group
+   */
+  private async buildAudit(): Promise<TranslationAudit> {
+    const groups = new Map<string, TranslationGroup>();
+    const presentations = new Map<string, PresentationsByLanguage>();
+
+    const addVersion = (
+      type: LearningPathStepType,
+      translationId: string,
+      language: Language,
+      version: Omit<TranslationVersion, 'url'>
+    ) => {
+      const key = keyOf(type, translationId);
+      const group = groups.get(key) ?? { type, translationId, versions: {} };
+      group.versions[language] = { ...version, url: `/${language}/${CONTENT_PATHS[type]}/${version.slug}/` };
+      groups.set(key, group);
+    };
+
+    for (const language of supportedLanguages) {
+      const [posts, decks] = await Promise.all([
+        this.postRepository.findAll(language),
+        this.presentationRepository.findAll(language),
+      ]);
+
+      for (const post of posts) {
+        addVersion('post', post.translationId, language, {
+          slug: post.slug,
+          title: post.title,
+          lastUpdated: post.getMostRecentDate(),
+        });
+      }
+
+      for (const deck of decks) {
+        const translationId = deck.getTranslationId();
+        addVersion('presentation', translationId, language, {
+          slug: deck.id,
+          title: deck.getTitle(),
+          lastUpdated: deck.getMostRecentDate(),
+        });
+        const key = keyOf('presentation', translationId);
+        presentations.set(key, { ...presentations.get(key), [language]: deck });
+      }
+    }
+
+    const issues: TranslationIssue[] = [];
+    for (const [key, group] of groups) {
+      issues.push(...this.checkVersions(group), ...this.checkSlides(group, presentations.get(key) ?? {}));
+    }
+
+    return { groups: [...groups.values()], issues };
+  }
+
+  /**
+   * Report missing languages and versions that lag behind the most recently updated one
+   */
+  private checkVersions(group: TranslationGroup): TranslationIssue[] {
+    const issues: TranslationIssue[] = [];
+    const issue = { type: group.type, translationId: group.translationId };
+    const available = supportedLanguages.filter((language) => group.versions[language]);
+    const newest = available.reduce((latest, language) =>
+      group.versions[language]!.lastUpdated > group.versions[latest]!.lastUpdated ? language : latest
+    );
+
+    for (const language of supportedLanguages) {
+      const version = group.versions[language];
+
+      if (!version) {
+        issues.push({
+          ...issue,
+          kind: 'missing-translation',
+          language,
+          message: `Not translated (available in ${available.join(', ')})`,
+        });
+        continue;
+      }
+
+      const newestVersion = group.versions[newest]!;
+      const days = Math.floor((newestVersion.lastUpdated.valueOf() - version.lastUpdated.valueOf()) / DAY_MS);
+      if (days > TRANSLATION_DRIFT_TOLERANCE_DAYS) {
+        issues.push({
+          ...issue,
+          kind: 'outdated-translation',
+          language,
+          message: `Last updated ${formatDate(version.lastUpdated)}, ${days} days before the ${newest} version (${formatDate(newestVersion.lastUpdated)})`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Compare the slides of translated presentations with the first language's version
+   */
+  private checkSlides(group: TranslationGroup, decks: PresentationsByLanguage): TranslationIssue[] {
+    const languages = supportedLanguages.filter((language) => decks[language]);
+    if (languages.length < 2) {
+      return [];
+    }
+
+    const issues: TranslationIssue[] = [];
+    const [reference, ...translations] = languages;
+    const source = decks[reference]!;
+    const issue = { type: group.type, translationId: group.translationId };
+
+    for (const language of translations) {
+      const deck = decks[language]!;
+      const sourceSizes = source.slides.map((slide) => slide.getSectionSize());
+      const sizes = deck.slides.map((slide) => slide.getSectionSize());
+
+      if (sizes.join() !== sourceSizes.join()) {
+        issues.push({
+          ...issue,
+          kind: 'slide-count-mismatch',
+          language,
+          message: `${deck.getSlideCount()} sections with ${deck.getTotalSlideCount()} slides, ${reference} has ${source.getSlideCount()} sections with ${source.getTotalSlideCount()} slides`,
+        });
+        continue;
+      }
+
+      const same = deck.slides.filter((slide, index) => slide.getTitle() === source.slides[index].getTitle());
+      if (same.length > 0) {
+        issues.push({
+          ...issue,
+          kind: 'untranslated-slide-titles',
+          language,
+          message: same.length === deck.getSlideCount()
+            ? `All ${same.length} slide titles are the same as in ${reference}`
+            : `${same.length} of ${deck.getSlideCount()} slide titles are the same as in ${reference} (slides ${same.map((slide) => slide.getSlideNumber()).join(', ')})`,
+        });
+      }
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Default singleton instance
+ */
+let defaultService: TranslationAuditService | null = null;
+
+/**
+ * Get the default translation audit service instance
+ */
+export function getDefaultTranslationAuditService(): TranslationAuditService {
+  if (!defaultService) {
+    defaultService = new TranslationAuditService();
+  }
+  return defaultService;
+}
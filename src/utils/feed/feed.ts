@@ -0,0 +1,164 @@
+/**
+ * Site feeds
+ * One feed per language, served as RSS 2.0, Atom 1.0 and JSON Feed 1.1.
+ * FeedService builds the Feed; the functions here only serialize it
+ */
+
+import type { RSSOptions } from '@astrojs/rss';
+import type { Language } from '../../i18n';
+import { escapeHtml } from '../html';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/**
+ * Whether items carry the full post or only its description
+ */
+export type FeedContentMode = 'full' | 'summary';
+
+/**
+ * Path of each feed format below the language prefix: `/en/rss.xml`
+ */
+export const FEED_PATHS: Record<FeedFormat, string> = {
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+};
+
+export interface FeedItem {
+  type: 'post' | 'presentation';
+  /** Absolute URL of the post or presentation, also used as the item id */
+  url: string;
+  title: string;
+  summary: string;
+  /** Full HTML, when the feed carries full content */
+  content?: string;
+  published: Date;
+  updated?: Date;
+  author: string;
+  /** Category first, then tags */
+  categories: string[];
+}
+
+export interface Feed {
+  language: Language;
+  title: string;
+  description: string;
+  /** Absolute URL of the language's home page */
+  homeUrl: string;
+  /** Absolute URL of each format of this feed */
+  feedUrls: Record<FeedFormat, string>;
+  author: string;
+  /** Newest first */
+  items: FeedItem[];
+}
+
+/**
+ * Get the site path of a feed
+ */
+export function getFeedPath(language: Language, format: FeedFormat): string {
+  return `/${language}/${FEED_PATHS[format]}`;
+}
+
+/**
+ * Date of the most recent change in the feed
+ */
+function getLastUpdated(feed: Feed): Date {
+  const times = feed.items.map((item) => (item.updated ?? item.published).getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : new Date(0);
+}
+
+/**
+ * Options for `rss()` / `getRssString()` of @astrojs/rss
+ */
+export function toRssOptions(feed: Feed): RSSOptions {
+  return {
+    title: feed.title,
+    description: feed.description,
+    site: feed.homeUrl,
+    xmlns: {
+      atom: 'http://www.w3.org/2005/Atom',
+      dc: 'http://purl.org/dc/elements/1.1/',
+    },
+    customData: [
+      `<language>${feed.language}</language>`,
+      `<atom:link href="${escapeHtml(feed.feedUrls.rss)}" rel="self" type="${FEED_CONTENT_TYPES.rss}"/>`,
+    ].join(''),
+    items: feed.items.map((item) => ({
+      title: item.title,
+      link: item.url,
+      description: item.summary,
+      pubDate: item.published,
+      categories: item.categories,
+      ...(item.content !== undefined ? { content: item.content } : {}),
+      // RSS <author> must be an email address
+      customData: `<dc:creator>${escapeHtml(item.author)}</dc:creator>`,
+    })),
+  };
+}
+
+/**
+ * Serialize a feed as Atom 1.0
+ */
+export function renderAtomFeed(feed: Feed): string {
+  const entries = feed.items.map((item) => [
+    '  <entry>',
+    `    <id>${escapeHtml(item.url)}</id>`,
+    `    <title>${escapeHtml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeHtml(item.url)}"/>`,
+    `    <published>${item.published.toISOString()}</published>`,
+    `    <updated>${(item.updated ?? item.published).toISOString()}</updated>`,
+    `    <author><name>${escapeHtml(item.author)}</name></author>`,
+    ...item.categories.map((category) => `    <category term="${escapeHtml(category)}"/>`),
+    `    <summary>${escapeHtml(item.summary)}</summary>`,
+    ...(item.content !== undefined ? [`    <content type="html">${escapeHtml(item.content)}</content>`] : []),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">`,
+    `  <id>${escapeHtml(feed.feedUrls.atom)}</id>`,
+    `  <title>${escapeHtml(feed.title)}</title>`,
+    `  <subtitle>${escapeHtml(feed.description)}</subtitle>`,
+    `  <link rel="self" type="${FEED_CONTENT_TYPES.atom}" href="${escapeHtml(feed.feedUrls.atom)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeHtml(feed.homeUrl)}"/>`,
+    `  <updated>${getLastUpdated(feed).toISOString()}</updated>`,
+    `  <author><name>${escapeHtml(feed.author)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize a feed as JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+ */
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrls.json,
+    language: feed.language,
+    authors: [{ name: feed.author }],
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      // Every item needs content_html or content_text
+      ...(item.content !== undefined ? { content_html: item.content } : { content_text: item.summary }),
+      date_published: item.published.toISOString(),
+      ...(item.updated ? { date_modified: item.updated.toISOString() } : {}),
+      authors: [{ name: item.author }],
+      tags: item.categories,
+    })),
+  }, null, 2);
+}
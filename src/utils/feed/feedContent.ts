@@ -0,0 +1,187 @@
+/**
+ * Full post content for feeds
+ * Compiles a post's Markdown/MDX source to standalone HTML with the same math
+ * plugins as the site (see markdownPlugins.ts). Feed readers can't run components,
+ * so MDX is flattened:
+ * - imports, exports and `{expressions}` are dropped
+ * - box components keep their content, with their `title` as a bold first line
+ * - interactive components (quizzes, embedded decks) are dropped; the item links to the post
+ * - root-relative links and images are made absolute
+ */
+
+import { unified } from 'unified';
+import type { Node } from 'unist';
+import remarkParse from 'remark-parse';
+import remarkMdx from 'remark-mdx';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeRaw from 'rehype-raw';
+import rehypeStringify from 'rehype-stringify';
+import { mathRemarkPlugins, mathRehypePlugins } from '../markdownPlugins';
+
+/**
+ * The parts of an mdast/hast node the feed plugins use
+ */
+interface TreeNode {
+  type: string;
+  value?: unknown;
+  name?: string | null;
+  tagName?: string;
+  attributes?: { type: string; name?: string; value?: unknown }[];
+  properties?: Record<string, unknown>;
+  children?: TreeNode[];
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Components that only work on the page
+ */
+const INTERACTIVE_COMPONENTS = new Set(['Quiz', 'Question', 'MiniDeck']);
+
+const URL_PROPERTIES = ['href', 'src'];
+
+/**
+ * Read the plain string props of a JSX element; expression props are skipped
+ */
+function getStringProps(node: TreeNode): Record<string, string> {
+  const props: Record<string, string> = {};
+
+  for (const attribute of node.attributes ?? []) {
+    if (attribute.type === 'mdxJsxAttribute' && attribute.name && typeof attribute.value === 'string') {
+      props[attribute.name] = attribute.value;
+    }
+  }
+
+  return props;
+}
+
+function isBlock(node: TreeNode): boolean {
+  return node.type === 'feedBlock';
+}
+
+function isBlockOrSpace(node: TreeNode): boolean {
+  return isBlock(node) || (node.type === 'text' && typeof node.value === 'string' && !node.value.trim());
+}
+
+/**
+ * Turn MDX elements into plain HTML
+ */
+function remarkFeedMdx() {
+  const transform = (node: TreeNode): TreeNode[] => {
+    if (node.type === 'mdxjsEsm' || node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression') {
+      return [];
+    }
+
+    if (node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') {
+      if (node.name && INTERACTIVE_COMPONENTS.has(node.name)) {
+        return [];
+      }
+    }
+
+    if (node.children) {
+      node.children = node.children.flatMap(transform);
+    }
+
+    if (node.type === 'paragraph' && node.children?.some(isBlock) && node.children.every(isBlockOrSpace)) {
+      // Elements written on one line (`<SplitPanel>...</SplitPanel>`) are blocks, not text
+      return node.children.filter(isBlock);
+    }
+
+    if (node.type !== 'mdxJsxFlowElement' && node.type !== 'mdxJsxTextElement') {
+      return [node];
+    }
+
+    if (!node.name) {
+      return node.children ?? []; // <>...</>
+    }
+
+    const props = getStringProps(node);
+
+    if (/^[a-z]/.test(node.name)) {
+      const { class: className, className: reactClassName, slot: _slot, ...attributes } = props;
+      const classes = className ?? reactClassName;
+      return [{
+        ...node,
+        type: 'feedBlock',
+        data: { hName: node.name, hProperties: { ...attributes, ...(classes ? { className: classes.split(/\s+/) } : {}) } },
+      }];
+    }
+
+    const title: TreeNode[] = props.title
+      ? [{ type: 'paragraph', children: [{ type: 'strong', children: [{ type: 'text', value: props.title }] }] }]
+      : [];
+
+    return [{
+      ...node,
+      type: 'feedBlock',
+      data: { hName: 'div' },
+      children: [...title, ...(node.children ?? [])],
+    }];
+  };
+
+  return (tree: Node) => {
+    const root = tree as TreeNode;
+    root.children = (root.children ?? []).flatMap(transform);
+  };
+}
+
+/**
+ * Make root-relative `href` and `src` attributes absolute
+ */
+function rehypeAbsoluteUrls(options: { siteUrl: string }) {
+  const visit = (node: TreeNode) => {
+    if (node.type === 'element' && node.properties) {
+      for (const property of URL_PROPERTIES) {
+        const value = node.properties[property];
+        if (typeof value === 'string' && value.startsWith('/') && !value.startsWith('//')) {
+          node.properties[property] = new URL(value, options.siteUrl).href;
+        }
+      }
+    }
+    node.children?.forEach(visit);
+  };
+
+  return (tree: Node) => visit(tree as TreeNode);
+}
+
+/**
+ * Compiles one post body to HTML
+ */
+type FeedContentCompiler = (source: string) => Promise<string>;
+
+const compilers = new Map<string, FeedContentCompiler>();
+
+/**
+ * Get the shared compiler for a format and site (created once)
+ */
+function getCompiler(format: 'md' | 'mdx', siteUrl: string): FeedContentCompiler {
+  const key = `${format} ${siteUrl}`;
+  let compiler = compilers.get(key);
+
+  if (!compiler) {
+    const processor = unified()
+      .use(remarkParse)
+      .use(format === 'mdx' ? [remarkMdx, remarkFeedMdx] : [])
+      .use(remarkGfm)
+      .use(mathRemarkPlugins)
+      .use(remarkRehype, { allowDangerousHtml: true })
+      .use(rehypeRaw)
+      .use(mathRehypePlugins)
+      .use(rehypeAbsoluteUrls, { siteUrl })
+      .use(rehypeStringify);
+    compiler = async (source) => String(await processor.process(source)).trim();
+    compilers.set(key, compiler);
+  }
+
+  return compiler;
+}
+
+/**
+ * Compile a post body to HTML for a feed
+ * @param body - Markdown or MDX source, without frontmatter
+ * @param format - Source format of the post
+ * @param siteUrl - Site origin that root-relative URLs are resolved against
+ */
+export function renderFeedContent(body: string, format: 'md' | 'mdx', siteUrl: string): Promise<string> {
+  return getCompiler(format, siteUrl)(body);
+}
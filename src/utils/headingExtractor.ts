@@ -65,7 +65,7 @@ function stripHTML(html: string): string {
 /**
  * Generate a URL-safe ID from text
  */
-function generateId(text: string): string {
+export function generateId(text: string): string {
 	return text
 		.toLowerCase()
 		.replace(/[^\w\s-]/g, '')
@@ -0,0 +1,15 @@
+/**
+ * HTML helpers shared by code that builds markup as strings
+ */
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
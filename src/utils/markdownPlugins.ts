@@ -0,0 +1,33 @@
+/**
+ * Markdown plugin configuration
+ * Shared by astro.config.mjs (posts) and the Markdown/MDX slide compiler
+ */
+
+import type { RehypePlugins } from '@astrojs/markdown-remark';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeSlug from 'rehype-slug';
+import rehypeAutolinkHeadings from 'rehype-autolink-headings';
+
+/**
+ * Math support: `$...$` and `$$...$$` rendered with KaTeX at build time
+ */
+export const mathRemarkPlugins = [remarkMath];
+export const mathRehypePlugins = [rehypeKatex];
+
+/**
+ * Heading ids and anchor links, for long-form pages only
+ */
+export const headingRehypePlugins: RehypePlugins = [
+	rehypeSlug,
+	[
+		rehypeAutolinkHeadings,
+		{
+			behavior: 'wrap',
+			properties: {
+				className: ['heading-anchor'],
+				ariaLabel: 'Link to heading',
+			},
+		},
+	],
+];
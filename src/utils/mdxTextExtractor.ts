@@ -0,0 +1,211 @@
+/**
+ * MDX Text Extractor Utility
+ * Turns markdown/MDX post bodies into plain text for the search index
+ */
+
+import { ensureUniqueIds, generateId } from './headingExtractor';
+
+export interface TextSection {
+	/** Heading ID as produced by headingExtractor ('' for text before the first heading) */
+	id: string;
+	heading: string;
+	level: number;
+	text: string;
+}
+
+const GREEK_LETTERS = [
+	'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa',
+	'lambda', 'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega',
+];
+
+const LATEX_WORDS: Record<string, string> = {
+	sum: 'sum',
+	prod: 'product',
+	int: 'integral',
+	iint: 'integral',
+	oint: 'integral',
+	partial: 'partial',
+	nabla: 'nabla gradient',
+	infty: 'infinity',
+	lim: 'limit',
+	sqrt: 'sqrt',
+	log: 'log',
+	ln: 'ln',
+	exp: 'exp',
+	sin: 'sin',
+	cos: 'cos',
+	tan: 'tan',
+	max: 'max',
+	min: 'min',
+	argmax: 'argmax',
+	argmin: 'argmin',
+	det: 'det',
+	cdot: '*',
+	times: '*',
+	div: '/',
+	pm: '±',
+	leq: '<=',
+	le: '<=',
+	geq: '>=',
+	ge: '>=',
+	neq: '!=',
+	ne: '!=',
+	approx: '≈',
+	to: '->',
+	rightarrow: '->',
+	mid: '|',
+};
+
+/**
+ * Convert LaTeX source into readable, searchable words.
+ * `\frac{\partial f}{\partial w}` becomes `partial f / partial w`,
+ * Greek letters become their names and layout commands are dropped.
+ */
+export function latexToText(tex: string): string {
+	// Unwrap fractions (innermost first so nested fractions resolve)
+	let text = tex;
+	let previous: string;
+	do {
+		previous = text;
+		text = text.replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, ' $1 / $2 ');
+	} while (text !== previous);
+
+	return text
+		.replace(/\\begin\{[^}]*\}|\\end\{[^}]*\}/g, ' ')
+		.replace(/\\(?:left|right|big|Big|bigg|Bigg)\b/g, ' ')
+		.replace(/\\(?:text|textbf|mathrm|mathbf|mathit|mathcal|mathbb|operatorname|boldsymbol)\s*\{([^{}]*)\}/g, ' $1 ')
+		.replace(/\\(?:hat|bar|tilde|vec|dot|overline|underline)\s*\{([^{}]*)\}/g, '$1')
+		.replace(/\\(var)?([a-zA-Z]+)/g, (_, variant: string | undefined, name: string) => {
+			if (GREEK_LETTERS.includes(name.toLowerCase())) {
+				return ` ${name.toLowerCase()} `;
+			}
+			const word = LATEX_WORDS[variant ? `var${name}` : name] ?? LATEX_WORDS[name];
+			return word ? ` ${word} ` : ' ';
+		})
+		.replace(/\\[,;:!\\ |{}]/g, ' ')
+		.replace(/[{}&_^]/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Convert one line of markdown/MDX prose to plain text
+ */
+function markdownLineToText(line: string): string {
+	return line
+		// Display and inline math
+		.replace(/\$\$([^$]+)\$\$/g, (_, tex: string) => ` ${latexToText(tex)} `)
+		.replace(/\$([^$\n]+)\$/g, (_, tex: string) => ` ${latexToText(tex)} `)
+		// Keep component titles (e.g. <DefinitionBox title="Linear Function">) as text
+		.replace(/<[A-Za-z][\w.]*\s[^>]*?\btitle=(["'])(.*?)\1[^>]*>/g, ' $2 ')
+		// Drop remaining JSX/HTML tags and expressions
+		.replace(/<\/?[A-Za-z][^>]*>/g, ' ')
+		.replace(/\{\/\*[\s\S]*?\*\/\}/g, ' ')
+		// Images and links keep their visible text
+		.replace(/!\[([^\]]*)\]\([^)]*\)/g, ' $1 ')
+		.replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+		// Block markers
+		.replace(/^\s{0,3}>\s?/, '')
+		.replace(/^\s*(?:[-*+]|\d+\.)\s+(?:\[[ xX]\]\s+)?/, '')
+		// Emphasis and inline code
+		.replace(/(\*\*|__)(.+?)\1/g, '$2')
+		.replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+		.replace(/`([^`]+)`/g, '$1')
+		// Table cells
+		.replace(/\|/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Extract plain-text sections from a markdown/MDX body.
+ * Imports, exports, component tags and table syntax are dropped while the
+ * text inside box components is kept. Each section is keyed by the ID
+ * `headingExtractor` assigns to its heading so results can link to it.
+ */
+export function extractTextSections(body: string): TextSection[] {
+	const lines = body.replace(/^---\n[\s\S]*?\n---\n/, '').split(/\r?\n/);
+
+	const sections: TextSection[] = [{ id: '', heading: '', level: 0, text: '' }];
+	const sectionLines: string[][] = [[]];
+
+	let inCodeFence = false;
+	let inDisplayMath = false;
+	let mathLines: string[] = [];
+
+	for (const rawLine of lines) {
+		const line = rawLine.trim();
+		const current = sectionLines[sectionLines.length - 1];
+
+		if (/^(```|~~~)/.test(line)) {
+			inCodeFence = !inCodeFence;
+			continue;
+		}
+
+		if (inCodeFence) {
+			if (line) current.push(line);
+			continue;
+		}
+
+		// Multi-line display math: $$ on its own line
+		if (line === '$$') {
+			if (inDisplayMath) {
+				current.push(latexToText(mathLines.join(' ')));
+				mathLines = [];
+			}
+			inDisplayMath = !inDisplayMath;
+			continue;
+		}
+
+		if (inDisplayMath) {
+			mathLines.push(line);
+			continue;
+		}
+
+		if (/^(import|export)\s/.test(line)) {
+			continue;
+		}
+
+		// Table separator rows and horizontal rules carry no text
+		if (/^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/.test(line) || /^([-*_])(\s*\1){2,}$/.test(line)) {
+			continue;
+		}
+
+		const headingMatch = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+		if (headingMatch) {
+			const heading = markdownLineToText(headingMatch[2]);
+			sections.push({
+				id: generateId(heading),
+				heading,
+				level: headingMatch[1].length,
+				text: '',
+			});
+			sectionLines.push([]);
+			continue;
+		}
+
+		const text = markdownLineToText(line);
+		if (text) current.push(text);
+	}
+
+	const uniqueIds = ensureUniqueIds(
+		sections.slice(1).map(({ id, heading, level }) => ({ id, text: heading, level }))
+	);
+
+	return sections
+		.map((section, index) => ({
+			...section,
+			id: index === 0 ? '' : uniqueIds[index - 1].id,
+			text: sectionLines[index].join(' '),
+		}))
+		.filter((section) => section.heading || section.text);
+}
+
+/**
+ * Extract the whole body of a markdown/MDX post as a single plain-text string
+ */
+export function extractPlainText(body: string): string {
+	return extractTextSections(body)
+		.map((section) => [section.heading, section.text].filter(Boolean).join(' '))
+		.join(' ');
+}
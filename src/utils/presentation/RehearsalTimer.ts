@@ -0,0 +1,240 @@
+/**
+ * RehearsalTimer - Tracks actual time per slide against the planned slide timings
+ * Used by the rehearsal mode in reveal-init.ts; the clock is injectable for tests
+ */
+
+export interface PlannedSlideTime {
+  title: string;
+  /** Planned start in seconds from the beginning of the deck */
+  plannedStart: number;
+  /** Planned duration in seconds */
+  plannedDuration: number;
+}
+
+export interface RehearsalStatus {
+  slideIndex: number;
+  /** Seconds since the rehearsal started */
+  elapsed: number;
+  /** Where the plan expects the rehearsal to be by now, in seconds */
+  plannedElapsed: number;
+  /** Seconds spent on the current slide, over all visits */
+  slideActual: number;
+  slidePlanned: number;
+  /** elapsed - plannedElapsed: positive when behind schedule */
+  drift: number;
+}
+
+export interface PacingRow {
+  slideNumber: number;
+  title: string;
+  plannedStart: number;
+  plannedDuration: number;
+  /** Elapsed seconds when the slide was first shown, null if it never was */
+  actualStart: number | null;
+  actualDuration: number;
+  visits: number;
+  /** actualDuration - plannedDuration */
+  difference: number;
+}
+
+export interface PacingReport {
+  presentation: string;
+  startedAt: string; // ISO date string
+  plannedTotal: number;
+  actualTotal: number;
+  slides: PacingRow[];
+}
+
+interface SlideRecord {
+  actualStart: number | null;
+  /** Milliseconds booked on earlier visits */
+  booked: number;
+  visits: number;
+}
+
+function toSeconds(milliseconds: number): number {
+  return Math.round(milliseconds / 1000);
+}
+
+export class RehearsalTimer {
+  private records: SlideRecord[] = [];
+  private startedAt: number | null = null;
+  private stoppedAt: number | null = null;
+  private currentIndex = 0;
+  private enteredAt = 0;
+
+  /**
+   * Create a new RehearsalTimer
+   * @param slides - Planned times of the slides, in order
+   * @param now - Clock in milliseconds (defaults to Date.now)
+   */
+  constructor(
+    private readonly slides: PlannedSlideTime[],
+    private readonly now: () => number = () => Date.now()
+  ) {
+    this.reset();
+  }
+
+  /**
+   * Start (or restart) the rehearsal on a slide
+   * @param slideIndex - Slide shown when the rehearsal starts (0-based)
+   */
+  start(slideIndex: number = 0): void {
+    this.reset();
+    this.startedAt = this.now();
+    this.enter(slideIndex);
+  }
+
+  /**
+   * Check if a rehearsal is running
+   */
+  isRunning(): boolean {
+    return this.startedAt !== null && this.stoppedAt === null;
+  }
+
+  /**
+   * Move to another slide, booking the time spent on the current one
+   * @param slideIndex - Slide now shown (0-based)
+   */
+  goTo(slideIndex: number): void {
+    if (!this.isRunning() || slideIndex === this.currentIndex) return;
+
+    this.bookCurrentSlide();
+    this.enter(slideIndex);
+  }
+
+  /**
+   * Stop the rehearsal, keeping the recorded times for the report
+   */
+  stop(): void {
+    if (!this.isRunning()) return;
+
+    this.bookCurrentSlide();
+    this.stoppedAt = this.now();
+  }
+
+  /**
+   * Forget all recorded times
+   */
+  reset(): void {
+    this.records = this.slides.map(() => ({ actualStart: null, booked: 0, visits: 0 }));
+    this.startedAt = null;
+    this.stoppedAt = null;
+    this.currentIndex = 0;
+    this.enteredAt = 0;
+  }
+
+  /**
+   * Get planned vs actual time at this moment
+   */
+  getStatus(): RehearsalStatus {
+    const index = this.currentIndex;
+    const slide = this.slides[index];
+    const planned = slide?.plannedDuration ?? 0;
+    const slideActual = toSeconds((this.records[index]?.booked ?? 0) + this.getTimeOnCurrentSlide());
+    const elapsed = this.getElapsed();
+    const plannedElapsed = (slide?.plannedStart ?? 0) + Math.min(slideActual, planned);
+
+    return {
+      slideIndex: index,
+      elapsed,
+      plannedElapsed,
+      slideActual,
+      slidePlanned: planned,
+      drift: elapsed - plannedElapsed,
+    };
+  }
+
+  /**
+   * Build the pacing report of the rehearsal so far
+   * @param presentation - Identifier of the presentation, e.g. its slug
+   */
+  getReport(presentation: string): PacingReport {
+    const current = this.currentIndex;
+    const timeOnCurrent = this.getTimeOnCurrentSlide();
+
+    const rows = this.slides.map((slide, index) => {
+      const record = this.records[index];
+      const actualDuration = toSeconds(record.booked + (index === current ? timeOnCurrent : 0));
+
+      return {
+        slideNumber: index + 1,
+        title: slide.title,
+        plannedStart: slide.plannedStart,
+        plannedDuration: slide.plannedDuration,
+        actualStart: record.actualStart,
+        actualDuration,
+        visits: record.visits,
+        difference: actualDuration - slide.plannedDuration,
+      };
+    });
+
+    return {
+      presentation,
+      startedAt: new Date(this.startedAt ?? this.now()).toISOString(),
+      plannedTotal: Math.max(0, ...this.slides.map((slide) => slide.plannedStart + slide.plannedDuration)),
+      actualTotal: rows.reduce((total, row) => total + row.actualDuration, 0),
+      slides: rows,
+    };
+  }
+
+  /**
+   * Seconds since the rehearsal started
+   */
+  private getElapsed(): number {
+    if (this.startedAt === null) return 0;
+    return toSeconds((this.stoppedAt ?? this.now()) - this.startedAt);
+  }
+
+  /**
+   * Milliseconds on the current slide since it was last entered
+   */
+  private getTimeOnCurrentSlide(): number {
+    return this.isRunning() ? this.now() - this.enteredAt : 0;
+  }
+
+  private enter(slideIndex: number): void {
+    this.currentIndex = slideIndex;
+    this.enteredAt = this.now();
+
+    const record = this.records[slideIndex];
+    if (!record) return;
+
+    record.visits += 1;
+    if (record.actualStart === null) {
+      record.actualStart = this.getElapsed();
+    }
+  }
+
+  private bookCurrentSlide(): void {
+    const record = this.records[this.currentIndex];
+    if (record) {
+      record.booked += this.getTimeOnCurrentSlide();
+    }
+    this.enteredAt = this.now();
+  }
+}
+
+/**
+ * Format a pacing report as CSV, one row per slide (times in seconds)
+ */
+export function formatPacingReportCsv(report: PacingReport): string {
+  const escape = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = ['slide', 'title', 'planned_start', 'planned_duration', 'actual_start', 'actual_duration', 'difference', 'visits'];
+  const rows = report.slides.map((row) => [
+    row.slideNumber,
+    row.title,
+    row.plannedStart,
+    row.plannedDuration,
+    row.actualStart,
+    row.actualDuration,
+    row.difference,
+    row.visits,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(escape).join(',')).join('\n') + '\n';
+}
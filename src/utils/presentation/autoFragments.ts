@@ -0,0 +1,58 @@
+/**
+ * Auto Fragments - step-by-step reveal for slides with `fragments: true`
+ * Runs before reveal.js initializes so the fragments are picked up on load
+ */
+
+const HEADINGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+/**
+ * Get the child elements of a container, leaving out headings and scripts
+ */
+function getBlocks(container: Element): Element[] {
+  return Array.from(container.children).filter(
+    (element) => !HEADINGS.has(element.tagName) && element.tagName !== 'SCRIPT'
+  );
+}
+
+/**
+ * Turn the blocks of every slide marked `data-auto-fragments` into fragments
+ *
+ * Each block of the slide content (except headings) and every list item
+ * appears on its own step. Elements that are already fragments are left
+ * as they are.
+ *
+ * @param root - Element or document containing the slides
+ * @returns Number of elements turned into fragments
+ *
+ * @example
+ * ```typescript
+ * applyAutoFragments(document.querySelector('.reveal .slides'));
+ * ```
+ */
+export function applyAutoFragments(root: ParentNode | null | undefined): number {
+  if (!root) {
+    return 0;
+  }
+
+  let count = 0;
+
+  root.querySelectorAll<HTMLElement>('section[data-auto-fragments] .slide-content').forEach((content) => {
+    // Slide files wrap their content in layout elements; step into single wrappers
+    // until there are several blocks to reveal
+    let blocks = getBlocks(content);
+    while (blocks.length === 1 && blocks[0].children.length > 0) {
+      blocks = getBlocks(blocks[0]);
+    }
+
+    const items = Array.from(content.querySelectorAll('li'));
+
+    for (const element of [...blocks, ...items]) {
+      if (element.classList.contains('fragment')) continue;
+
+      element.classList.add('fragment');
+      count++;
+    }
+  });
+
+  return count;
+}
@@ -0,0 +1,268 @@
+/**
+ * Markdown and MDX slides
+ * Compiles `slide-NN.md` / `slide-NN.mdx` files to slide HTML with the same math
+ * plugins as posts (see markdownPlugins.ts).
+ *
+ * Slide syntax on top of Markdown:
+ * - A line with only `--` starts a vertical slide below the current one
+ * - A paragraph with only `. . .` pauses: everything after it is revealed as a fragment
+ * - MDX slides can use the box components listed in slideComponents.ts, without importing them
+ */
+
+import { unified } from 'unified';
+import type { Node } from 'unist';
+import remarkParse from 'remark-parse';
+import remarkMdx from 'remark-mdx';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeRaw from 'rehype-raw';
+import rehypeStringify from 'rehype-stringify';
+import { mathRemarkPlugins, mathRehypePlugins } from '../markdownPlugins';
+import { SLIDE_COMPONENTS, checkSlideComponentProps, type SlideComponentProps } from './slideComponents';
+
+export type SlideFormat = 'html' | 'md' | 'mdx';
+
+/**
+ * The parts of an mdast node the slide plugins use
+ */
+interface MdastNode {
+  type: string;
+  value?: string;
+  name?: string | null;
+  attributes?: { type: string; name?: string; value?: unknown }[];
+  children?: MdastNode[];
+  data?: Record<string, unknown>;
+  position?: { start: { line: number } };
+}
+
+const VERTICAL_SEPARATOR = /^--\s*$/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+const FRAGMENT_PAUSE = '. . .';
+
+/**
+ * Get the format of a slide from its file name
+ */
+export function getSlideFormat(fileName: string): SlideFormat {
+  if (fileName.endsWith('.mdx')) return 'mdx';
+  if (fileName.endsWith('.md')) return 'md';
+  return 'html';
+}
+
+/**
+ * Split a Markdown slide at `--` lines (outside code blocks) into vertical slides
+ */
+export function splitVerticalSlides(source: string): string[] {
+  const parts: string[][] = [[]];
+  let inCode = false;
+
+  for (const line of source.split('\n')) {
+    if (CODE_FENCE.test(line)) {
+      inCode = !inCode;
+    }
+
+    if (!inCode && VERTICAL_SEPARATOR.test(line)) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(line);
+    }
+  }
+
+  return parts.map((lines) => lines.join('\n').trim()).filter((part) => part.length > 0);
+}
+
+/**
+ * Error with the line of the slide it was found on
+ */
+function slideError(node: MdastNode, message: string): Error {
+  const line = node.position?.start.line;
+  return new Error(line ? `${message} (line ${line})` : message);
+}
+
+function isPause(node: MdastNode): boolean {
+  return (
+    node.type === 'paragraph' &&
+    node.children?.length === 1 &&
+    node.children[0].type === 'text' &&
+    node.children[0].value?.trim() === FRAGMENT_PAUSE
+  );
+}
+
+/**
+ * Wrap the content after each `. . .` pause in a fragment
+ */
+function remarkFragments() {
+  const wrap = (parent: MdastNode) => {
+    const children = parent.children ?? [];
+
+    if (children.some(isPause)) {
+      const groups: MdastNode[][] = [[]];
+      for (const child of children) {
+        if (isPause(child)) {
+          groups.push([]);
+        } else {
+          groups[groups.length - 1].push(child);
+        }
+      }
+
+      parent.children = [
+        ...groups[0],
+        ...groups.slice(1).filter((group) => group.length > 0).map((group) => ({
+          type: 'slideFragment',
+          data: { hName: 'div', hProperties: { className: ['fragment'] } },
+          children: group,
+        })),
+      ];
+    }
+
+    parent.children?.forEach(wrap);
+  };
+
+  return (tree: Node) => wrap(tree as MdastNode);
+}
+
+/**
+ * Read the props of a JSX element; only plain string values are supported
+ */
+function getProps(node: MdastNode): SlideComponentProps {
+  const props: SlideComponentProps = {};
+
+  for (const attribute of node.attributes ?? []) {
+    if (attribute.type !== 'mdxJsxAttribute' || !attribute.name) {
+      throw slideError(node, `<${node.name}> props must be written as name="value"`);
+    }
+    if (attribute.value !== null && attribute.value !== undefined && typeof attribute.value !== 'string') {
+      throw slideError(node, `<${node.name}> prop "${attribute.name}" must be a plain string`);
+    }
+    props[attribute.name] = (attribute.value as string | null) ?? '';
+  }
+
+  return props;
+}
+
+function isComponent(node: MdastNode): boolean {
+  return node.type === 'slideComponent' || node.type === 'slideElement';
+}
+
+function isComponentOrSpace(node: MdastNode): boolean {
+  return isComponent(node) || (node.type === 'text' && !node.value?.trim());
+}
+
+/**
+ * Turn MDX elements into HTML: box components, plain HTML tags and comments
+ */
+function remarkSlideComponents() {
+  const transform = (node: MdastNode): MdastNode[] => {
+    if (node.type === 'mdxjsEsm') {
+      // Box components are always available; imports of them are not needed
+      return [];
+    }
+
+    if (node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression') {
+      if (/^\/\*[\s\S]*\*\/$/.test(node.value?.trim() ?? '')) {
+        return []; // {/* comment */}
+      }
+      throw slideError(node, 'JavaScript expressions are not supported in slides');
+    }
+
+    if (node.children) {
+      node.children = node.children.flatMap(transform);
+    }
+
+    if (node.type === 'paragraph' && node.children?.some(isComponent) && node.children.every(isComponentOrSpace)) {
+      // Elements written on one line (`<SplitPanel>...</SplitPanel>`) are blocks, not text
+      return node.children.filter(isComponent);
+    }
+
+    if (node.type !== 'mdxJsxFlowElement' && node.type !== 'mdxJsxTextElement') {
+      return [node];
+    }
+
+    if (!node.name) {
+      return node.children ?? []; // <>...</>
+    }
+
+    const props = getProps(node);
+
+    if (/^[a-z]/.test(node.name)) {
+      const { class: className, className: reactClassName, ...attributes } = props;
+      const classes = className ?? reactClassName;
+      return [{
+        ...node,
+        type: 'slideElement',
+        data: { hName: node.name, hProperties: { ...attributes, ...(classes ? { className: classes.split(/\s+/) } : {}) } },
+      }];
+    }
+
+    const problem = checkSlideComponentProps(node.name, props);
+    if (problem) {
+      throw slideError(node, problem);
+    }
+
+    const component = SLIDE_COMPONENTS[node.name];
+    const headings: MdastNode[] = (component.headings ?? [])
+      .filter((heading) => props[heading.prop])
+      .map((heading) => ({
+        type: 'slideComponentHeading',
+        data: {
+          hName: heading.tagName,
+          hProperties: heading.className ? { className: [heading.className] } : {},
+        },
+        children: [{ type: 'text', value: `${props[heading.prop]}${heading.suffix ?? ''}` }],
+      }));
+
+    return [{
+      ...node,
+      type: 'slideComponent',
+      data: {
+        hName: 'div',
+        hProperties: { className: component.className(props) },
+      },
+      children: [...headings, ...(node.children ?? [])],
+    }];
+  };
+
+  return (tree: Node) => {
+    const root = tree as MdastNode;
+    root.children = (root.children ?? []).flatMap(transform);
+  };
+}
+
+/**
+ * Compiles one Markdown or MDX source to HTML
+ */
+type SlideCompiler = (source: string) => Promise<string>;
+
+const compilers = new Map<'md' | 'mdx', SlideCompiler>();
+
+/**
+ * Get the shared compiler for a format (created once)
+ */
+function getCompiler(format: 'md' | 'mdx'): SlideCompiler {
+  let compiler = compilers.get(format);
+
+  if (!compiler) {
+    const processor = unified()
+      .use(remarkParse)
+      .use(format === 'mdx' ? [remarkMdx, remarkSlideComponents] : [])
+      .use(remarkGfm)
+      .use(mathRemarkPlugins)
+      .use(remarkFragments)
+      .use(remarkRehype, { allowDangerousHtml: true })
+      .use(rehypeRaw)
+      .use(mathRehypePlugins)
+      .use(rehypeStringify);
+    compiler = async (source) => String(await processor.process(source)).trim();
+    compilers.set(format, compiler);
+  }
+
+  return compiler;
+}
+
+/**
+ * Compile a Markdown or MDX slide to HTML
+ * @returns The HTML of the slide and of each vertical slide below it
+ * @throws Error if the slide uses unknown components or unsupported MDX
+ */
+export async function compileMarkdownSlide(source: string, format: 'md' | 'mdx'): Promise<string[]> {
+  return Promise.all(splitVerticalSlides(source).map(getCompiler(format)));
+}
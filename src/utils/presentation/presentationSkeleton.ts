@@ -0,0 +1,340 @@
+/**
+ * Presentation skeletons from blog posts
+ * Turns a post into a deck outline that mirrors the article: a title slide, one slide per H2
+ * with its H3s as bullets and its box components as slide callouts, and planned times that
+ * add up to the post's reading time. Used by scripts/generate-presentation.ts.
+ */
+
+import { unified } from 'unified';
+import type { Node } from 'unist';
+import remarkParse from 'remark-parse';
+import remarkMdx from 'remark-mdx';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeRaw from 'rehype-raw';
+import rehypeSlug from 'rehype-slug';
+import rehypeStringify from 'rehype-stringify';
+import type { Language } from '../../i18n';
+import type { PresentationMetadata, SlideMetadata } from '../../domain/presentation/PresentationRepository';
+import { SlideTiming } from '../../domain/presentation/SlideTiming';
+import { extractHeadingsFromHTML } from '../headingExtractor';
+import { escapeHtml } from '../html';
+import { mathRemarkPlugins } from '../markdownPlugins';
+
+/**
+ * Frontmatter fields of a blog post used for the deck
+ */
+export interface BlogPostFrontmatter {
+  title: string;
+  description: string;
+  category?: string;
+  tags?: string[];
+  difficulty?: PresentationMetadata['difficulty'];
+  estimatedReadingTime?: number;
+  author?: string;
+}
+
+export interface BlogPostSource {
+  slug: string;
+  language: Language;
+  format: 'md' | 'mdx';
+  data: BlogPostFrontmatter;
+  /** Post content without the frontmatter */
+  body: string;
+}
+
+export interface PresentationSkeleton {
+  metadata: PresentationMetadata;
+  slideMetadata: SlideMetadata[];
+  /** Slide HTML by file name */
+  slides: Record<string, string>;
+}
+
+interface Callout {
+  color: string;
+  icon: string;
+  label: Record<Language, string>;
+}
+
+/**
+ * Slide callout for each box component (same markup as the hand-written decks)
+ */
+const CALLOUTS: Record<string, Callout> = {
+  DefinitionBox: { color: 'green', icon: '📖', label: { en: 'Definition', id: 'Definisi' } },
+  InsightBox: { color: 'blue', icon: '💡', label: { en: 'Key Insight', id: 'Wawasan Kunci' } },
+  WarningBox: { color: 'red', icon: '⚠️', label: { en: 'Warning', id: 'Peringatan' } },
+  SuccessBox: { color: 'green', icon: '✅', label: { en: 'Success', id: 'Berhasil' } },
+  ExampleBox: { color: 'yellow', icon: '📝', label: { en: 'Example', id: 'Contoh' } },
+  CalloutBox: { color: 'purple', icon: '📌', label: { en: 'Note', id: 'Catatan' } },
+  PracticeProblem: { color: 'orange', icon: '🧩', label: { en: 'Practice', id: 'Latihan' } },
+  CodeBlock: { color: 'gray', icon: '💻', label: { en: 'Code', id: 'Kode' } },
+};
+
+/** Layout components whose content is kept; any other component is left out */
+const LAYOUT_COMPONENTS = new Set(['SplitView', 'SplitPanel']);
+
+/** Slide times are planned in steps of this many seconds */
+const TIME_STEP_SECONDS = 30;
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * The parts of an mdast node the post plugin uses
+ */
+interface MdastNode {
+  type: string;
+  value?: string;
+  name?: string | null;
+  attributes?: { type: string; name?: string; value?: unknown }[];
+  children?: MdastNode[];
+  data?: Record<string, unknown>;
+}
+
+function getStringProp(node: MdastNode, name: string): string | undefined {
+  const attribute = node.attributes?.find((item) => item.type === 'mdxJsxAttribute' && item.name === name);
+  return typeof attribute?.value === 'string' ? attribute.value : undefined;
+}
+
+/**
+ * Mark box components as `<aside data-box>` and drop imports, expressions and other components
+ */
+function remarkPostComponents() {
+  const transform = (node: MdastNode): MdastNode[] => {
+    if (node.type === 'mdxjsEsm' || node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression') {
+      return [];
+    }
+
+    if (node.children) {
+      node.children = node.children.flatMap(transform);
+    }
+
+    if (node.type !== 'mdxJsxFlowElement' && node.type !== 'mdxJsxTextElement') {
+      return [node];
+    }
+
+    if (!node.name || LAYOUT_COMPONENTS.has(node.name)) {
+      return node.children ?? [];
+    }
+
+    if (!CALLOUTS[node.name]) {
+      return [];
+    }
+
+    const title = getStringProp(node, 'title') ?? getStringProp(node, 'level');
+    const icon = getStringProp(node, 'icon');
+
+    return [{
+      type: 'postBox',
+      data: {
+        hName: 'aside',
+        hProperties: { dataBox: node.name, ...(title ? { dataTitle: title } : {}), ...(icon ? { dataIcon: icon } : {}) },
+      },
+      children: node.children ?? [],
+    }];
+  };
+
+  return (tree: Node) => {
+    const root = tree as MdastNode;
+    root.children = (root.children ?? []).flatMap(transform);
+  };
+}
+
+/**
+ * Renders one post body to HTML
+ */
+type PostCompiler = (source: string) => Promise<string>;
+
+const compilers = new Map<'md' | 'mdx', PostCompiler>();
+
+/**
+ * Get the compiler that renders a post to HTML, keeping math as `$...$` for the slides' KaTeX
+ */
+function getCompiler(format: 'md' | 'mdx'): PostCompiler {
+  let compiler = compilers.get(format);
+
+  if (!compiler) {
+    const processor = unified()
+      .use(remarkParse)
+      .use(format === 'mdx' ? [remarkMdx, remarkPostComponents] : [])
+      .use(remarkGfm)
+      .use(mathRemarkPlugins)
+      .use(remarkRehype, {
+        allowDangerousHtml: true,
+        handlers: {
+          inlineMath: (_state: unknown, node: MdastNode) => ({ type: 'text', value: `$${node.value}$` }),
+          math: (_state: unknown, node: MdastNode) => ({
+            type: 'element',
+            tagName: 'p',
+            properties: {},
+            children: [{ type: 'text', value: `$$${node.value}$$` }],
+          }),
+        },
+      })
+      .use(rehypeRaw)
+      .use(rehypeSlug)
+      .use(rehypeStringify);
+    compiler = async (source) => String(await processor.process(source));
+    compilers.set(format, compiler);
+  }
+
+  return compiler;
+}
+
+function countWords(html: string): number {
+  const text = html.replace(/<[^>]*>/g, ' ').trim();
+  return text ? text.split(/\s+/).length : 0;
+}
+
+/**
+ * Split a total time over slides in proportion to their weights
+ * @returns The duration of each slide in seconds, in steps of 30s and at least one step each
+ */
+export function splitSlideTimes(weights: number[], totalSeconds: number): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const durations: number[] = [];
+  let cumulativeWeight = 0;
+  let previousEnd = 0;
+
+  weights.forEach((weight, index) => {
+    cumulativeWeight += weight;
+    const idealEnd = index === weights.length - 1
+      ? totalSeconds
+      : Math.round((totalSeconds * cumulativeWeight) / totalWeight / TIME_STEP_SECONDS) * TIME_STEP_SECONDS;
+    // Leave at least one step for each slide that follows
+    const latestEnd = totalSeconds - (weights.length - 1 - index) * TIME_STEP_SECONDS;
+    const end = Math.max(Math.min(idealEnd, latestEnd), previousEnd + TIME_STEP_SECONDS);
+
+    durations.push(end - previousEnd);
+    previousEnd = end;
+  });
+
+  return durations;
+}
+
+/**
+ * Convert the box components of a section into slide callouts
+ */
+function renderCallouts(sectionHtml: string, language: Language): string[] {
+  const callouts: string[] = [];
+  const boxPattern = /<aside data-box="(\w+)"([^>]*)>([\s\S]*?)<\/aside>/g;
+  let match;
+
+  while ((match = boxPattern.exec(sectionHtml)) !== null) {
+    const [, name, attributes, content] = match;
+    const callout = CALLOUTS[name];
+    const title = attributes.match(/data-title="([^"]*)"/)?.[1] ?? callout.label[language];
+    const icon = attributes.match(/data-icon="([^"]*)"/)?.[1] ?? callout.icon;
+    // Titles like "💡 Tangent Line" bring their own icon
+    const heading = /^\p{Extended_Pictographic}/u.test(title) ? title : `${icon} ${title}`;
+
+    callouts.push([
+      `  <div class="bg-${callout.color}-50 border-l-4 border-${callout.color}-500 p-2.5">`,
+      `    <p class="text-2xl font-semibold">${heading}:</p>`,
+      `    <div class="text-2xl mt-0.5">${content.trim()}</div>`,
+      '  </div>',
+    ].join('\n'));
+  }
+
+  return callouts;
+}
+
+/**
+ * Render the slide of one H2 section: H3s as bullets, boxes as callouts,
+ * or the first paragraph when the section has neither
+ */
+function renderSectionSlide(title: string, sectionHtml: string, language: Language): string {
+  const subheadings = extractHeadingsFromHTML(sectionHtml).filter((heading) => heading.level === 3);
+  const callouts = renderCallouts(sectionHtml, language);
+  const lines = ['<div class="space-y-1.5">', `  <h4 class="text-sm font-bold">${escapeHtml(title)}</h4>`];
+
+  if (subheadings.length > 0) {
+    lines.push('  <ul class="list-disc ml-8 space-y-0 text-2xl leading-snug">');
+    lines.push(...subheadings.map((heading) => `    <li>${escapeHtml(heading.text)}</li>`));
+    lines.push('  </ul>');
+  }
+
+  lines.push(...callouts);
+
+  if (subheadings.length === 0 && callouts.length === 0) {
+    const paragraph = sectionHtml.replace(/<aside[\s\S]*?<\/aside>/g, '').match(/<p>([\s\S]*?)<\/p>/)?.[1];
+    if (paragraph) {
+      lines.push(`  <p class="text-2xl">${paragraph.trim()}</p>`);
+    }
+  }
+
+  lines.push('</div>');
+  return lines.join('\n');
+}
+
+function renderTitleSlide(data: BlogPostFrontmatter): string {
+  return [
+    '<div class="space-y-1.5">',
+    '  <div class="bg-gradient-to-r from-blue-500 to-purple-600 p-3 rounded-lg text-white">',
+    `    <h4 class="text-sm font-bold mb-1">${escapeHtml(data.title)}</h4>`,
+    `    <p class="text-2xl">${escapeHtml(data.description)}</p>`,
+    '  </div>',
+    '</div>',
+  ].join('\n');
+}
+
+/**
+ * Generate a presentation skeleton from a blog post
+ * @param date - Publication date of the deck (defaults to today)
+ */
+export async function generatePresentationSkeleton(
+  post: BlogPostSource,
+  date: Date = new Date()
+): Promise<PresentationSkeleton> {
+  const html = await getCompiler(post.format)(post.body);
+
+  // The post is split before each H2; the part before the first H2 is the introduction
+  const sections = html.split(/(?=<h2[\s>])/);
+  const introduction = /^<h2[\s>]/.test(sections[0]) ? '' : sections.shift()!;
+
+  const outline = [{ title: post.data.title, html: renderTitleSlide(post.data), words: countWords(introduction) }];
+  for (const sectionHtml of sections) {
+    const heading = extractHeadingsFromHTML(sectionHtml).find((item) => item.level === 2);
+    if (heading) {
+      outline.push({
+        title: heading.text,
+        html: renderSectionSlide(heading.text, sectionHtml, post.language),
+        words: countWords(sectionHtml),
+      });
+    }
+  }
+
+  const readingMinutes = post.data.estimatedReadingTime ?? Math.max(1, Math.ceil(countWords(html) / WORDS_PER_MINUTE));
+  const durations = splitSlideTimes(outline.map((slide) => Math.max(slide.words, 1)), readingMinutes * 60);
+
+  const slideMetadata: SlideMetadata[] = [];
+  const slides: Record<string, string> = {};
+  let start = 0;
+
+  outline.forEach((slide, index) => {
+    const slideNumber = index + 1;
+    const fileName = `slide-${String(slideNumber).padStart(2, '0')}.html`;
+    const time = `${SlideTiming.formatClock(start)}-${SlideTiming.formatClock(start + durations[index])}`;
+    const title = slide.title.replace(/--+>?/g, '-');
+
+    slideMetadata.push({ slideNumber, title: slide.title, time, fileName });
+    slides[fileName] = `<!--\n  Slide ${slideNumber}: ${title}\n  Time: ${time}\n-->\n${slide.html}`;
+    start += durations[index];
+  });
+
+  return {
+    metadata: {
+      title: post.data.title,
+      description: post.data.description,
+      pubDate: date.toISOString().slice(0, 10),
+      relatedBlogPost: post.slug,
+      category: post.data.category ?? 'General',
+      tags: post.data.tags ?? [],
+      difficulty: post.data.difficulty ?? 'beginner',
+      language: post.language,
+      estimatedTime: Math.round(start / 60),
+      totalSlides: outline.length,
+      author: post.data.author ?? 'QuiverLearn',
+    },
+    slideMetadata,
+    slides,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * reveal.js settings of the site
+ * Decks can override them with the `reveal` block and `displayMode` of their metadata.json
+ */
+
+import type { PresentationDisplayMode } from '../../domain/presentation/Presentation';
+import type { RevealConfig } from './schemas';
+
+/**
+ * Slide size of each display mode
+ */
+export const DISPLAY_MODE_SIZES: Record<PresentationDisplayMode, { width: number; height: number }> = {
+  instagram: { width: 1080, height: 1080 },
+  fullscreen: { width: 1920, height: 1080 },
+};
+
+/**
+ * Settings every deck starts from
+ */
+export const SITE_REVEAL_DEFAULTS: RevealConfig = {
+  controls: true,
+  progress: true,
+  slideNumber: 'c/t', // "current / total"
+  hash: true, // Enable URL hash navigation
+  transition: 'slide',
+  transitionSpeed: 'default',
+  margin: 0.04,
+  // Handouts: one page per slide with all fragments shown
+  pdfMaxPagesPerSlide: 1,
+  pdfSeparateFragments: false,
+};
+
+interface RevealConfigOptions {
+  displayMode: PresentationDisplayMode;
+  /** Number slides "section.slide" (e.g. 4.2) instead of "current / total" */
+  hasVerticalSlides?: boolean;
+  /** Settings of the deck, applied last */
+  settings?: RevealConfig;
+}
+
+/**
+ * Merge the settings of a deck over the site defaults
+ */
+export function resolveRevealConfig({ displayMode, hasVerticalSlides = false, settings = {} }: RevealConfigOptions): RevealConfig {
+  return {
+    ...SITE_REVEAL_DEFAULTS,
+    ...DISPLAY_MODE_SIZES[displayMode],
+    ...(hasVerticalSlides ? { slideNumber: 'h.v' as const } : {}),
+    ...settings,
+  };
+}
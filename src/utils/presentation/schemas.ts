@@ -3,42 +3,51 @@
  * Week 2: Add runtime validation to catch errors early
  */
 
-import { z } from 'astro:content';
+// The same zod as astro:content; imported directly because MiniDeck.astro pulls these
+// schemas into blog post MDX, which the astro:content module itself loads
+import { z } from 'astro/zod';
+import { SlideTiming } from '../../domain/presentation/SlideTiming';
+
+/**
+ * Slide time in any SlideTiming format: a range in the deck ("2:30-5:00") or a duration ("02:30", "3 min")
+ */
+const SlideTimeSchema = z
+  .string()
+  .refine((value) => SlideTiming.tryParse(value) !== null, {
+    message: 'Time must be a range like "2:30-5:00" or a duration like "02:30" or "3 min"',
+  });
+
+export const SlideTransitionSchema = z.enum(['none', 'fade', 'slide', 'convex', 'concave', 'zoom']);
 
 /**
  * Schema for individual slide data
  */
 export const SlideSchema = z.object({
   title: z.string().min(1, 'Slide title cannot be empty'),
-  time: z.string().regex(/^\d+\s*(min|mins|minute|minutes)$/i, 'Time must be in format "X min"'),
+  time: SlideTimeSchema,
   content: z.string().min(1, 'Slide content cannot be empty'),
   notes: z.string().optional(),
   fragments: z.boolean().optional(),
-  transition: z.enum(['none', 'fade', 'slide', 'convex', 'concave', 'zoom']).optional(),
+  transition: SlideTransitionSchema.optional(),
   background: z.string().optional(),
 });
 
 export type Slide = z.infer<typeof SlideSchema>;
 
 /**
- * Schema for presentation metadata (loaded from metadata.json)
+ * Check that a "YYYY-MM-DD" or ISO datetime string is a real calendar date
  */
-export const PresentationMetadataSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().min(1, 'Description is required'),
-  pubDate: z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
-  updatedDate: z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
-  relatedBlogPost: z.string().optional(),
-  category: z.string().min(1, 'Category is required'),
-  tags: z.array(z.string()).default([]),
-  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
-  language: z.enum(['en', 'id']),
-  estimatedTime: z.number().positive('Estimated time must be positive'),
-  totalSlides: z.number().positive('Total slides must be positive'),
-  author: z.string().optional(),
-});
+function isValidDate(value: string): boolean {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
 
-export type PresentationMetadata = z.infer<typeof PresentationMetadataSchema>;
+const DateStringSchema = z
+  .string()
+  .datetime()
+  .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be "YYYY-MM-DD" or an ISO datetime'))
+  .refine(isValidDate, 'Date does not exist');
 
 /**
  * Schema for Reveal.js configuration
@@ -132,9 +141,9 @@ export const RevealConfigSchema = z.object({
   hideCursorTime: z.number().default(5000),
 
   // Transitions
-  transition: z.enum(['none', 'fade', 'slide', 'convex', 'concave', 'zoom']).default('slide'),
+  transition: SlideTransitionSchema.default('slide'),
   transitionSpeed: z.enum(['default', 'fast', 'slow']).default('default'),
-  backgroundTransition: z.enum(['none', 'fade', 'slide', 'convex', 'concave', 'zoom']).default('fade'),
+  backgroundTransition: SlideTransitionSchema.default('fade'),
 
   // Parallax
   parallaxBackgroundImage: z.string().optional(),
@@ -169,17 +178,106 @@ export const RevealConfigSchema = z.object({
 export type RevealConfig = z.infer<typeof RevealConfigSchema>;
 
 /**
- * Schema for slide metadata (slide-metadata.json)
+ * Slide layouts: square 1080×1080 ("instagram") or 16:9 1920×1080 ("fullscreen")
+ */
+export const PresentationDisplayModeSchema = z.enum(['instagram', 'fullscreen']);
+
+/**
+ * reveal.js themes; "custom" is the site theme (reveal-custom-theme.css)
+ */
+export const RevealThemeSchema = z.enum([
+  'custom', 'white', 'black', 'league', 'sky', 'beige', 'night', 'serif', 'simple', 'solarized', 'moon', 'dracula',
+]);
+
+/**
+ * When a learner has completed a deck: a share of its slides (vertical slides
+ * included), each viewed for at least a number of seconds
  */
-export const SlideMetadataSchema = z.object({
-  slides: z.array(z.object({
-    title: z.string(),
-    time: z.string(),
-    file: z.string(), // Path to HTML file
-  })),
-  totalSlides: z.number().positive(),
+export const CompletionRuleSchema = z.object({
+  minShare: z.number().gt(0).max(1),
+  minDwellSeconds: z.number().min(0),
 });
 
+export type CompletionRule = z.infer<typeof CompletionRuleSchema>;
+
+/**
+ * Schema for presentation metadata (loaded from metadata.json)
+ */
+export const PresentationMetadataSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().min(1, 'Description is required'),
+  pubDate: DateStringSchema,
+  updatedDate: DateStringSchema.optional(),
+  // Links translations whose folders have different slugs (defaults to the slug)
+  translationId: z.string().optional(),
+  relatedBlogPost: z.string().optional(),
+  // Presentations to go through first: slugs in the same language, or `post:<slug>`
+  prerequisites: z.array(z.string()).default([]),
+  category: z.string().min(1, 'Category is required'),
+  tags: z.array(z.string()).default([]),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  language: z.enum(['en', 'id']),
+  estimatedTime: z.number().positive('Estimated time must be positive'),
+  totalSlides: z.number().int().positive('Total slides must be positive'),
+  author: z.string().default(''),
+  // Slide size and layout (see revealConfig.ts); defaults to instagram
+  displayMode: PresentationDisplayModeSchema.optional(),
+  // reveal.js theme; defaults to the site's custom theme
+  theme: RevealThemeSchema.optional(),
+  // reveal.js settings merged over the site defaults; unknown settings are rejected
+  reveal: RevealConfigSchema.strict().optional(),
+  // Completion rule merged over the site default (see utils/progress/completion.ts)
+  completion: CompletionRuleSchema.partial().strict().optional(),
+});
+
+export type PresentationMetadata = z.infer<typeof PresentationMetadataSchema>;
+
+/**
+ * Schema for a vertical slide of a slide-metadata.json entry
+ * Vertical slides share the time of their section, so they have no time or number
+ */
+export const VerticalSlideEntrySchema = z.object({
+  title: z.string().min(1, 'Slide title cannot be empty'),
+  fileName: z
+    .string()
+    .regex(/^[\w.-]+\.(html|md|mdx)$/, 'File name must be an HTML, Markdown or MDX file in the presentation folder'),
+  notes: z.string().optional(),
+  fragments: z.boolean().optional(),
+  transition: SlideTransitionSchema.optional(),
+  background: z.string().optional(),
+});
+
+export type VerticalSlideEntry = z.infer<typeof VerticalSlideEntrySchema>;
+
+/**
+ * Schema for one entry of slide-metadata.json: a horizontal section and the slides stacked below it
+ */
+export const SlideMetadataEntrySchema = VerticalSlideEntrySchema.extend({
+  slideNumber: z.number().int().positive('Slide number must be positive'),
+  time: SlideTimeSchema,
+  verticalSlides: z.array(VerticalSlideEntrySchema).min(1, 'Leave out verticalSlides instead of an empty list').optional(),
+});
+
+export type SlideMetadataEntry = z.infer<typeof SlideMetadataEntrySchema>;
+
+/**
+ * Schema for slide metadata (slide-metadata.json): slides in order, numbered from 1
+ */
+export const SlideMetadataSchema = z
+  .array(SlideMetadataEntrySchema)
+  .min(1, 'A presentation needs at least one slide')
+  .superRefine((slides, ctx) => {
+    slides.forEach((slide, index) => {
+      if (slide.slideNumber !== index + 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Expected slide number ${index + 1}, got ${slide.slideNumber}`,
+          path: [index, 'slideNumber'],
+        });
+      }
+    });
+  });
+
 export type SlideMetadata = z.infer<typeof SlideMetadataSchema>;
 
 /**
@@ -187,8 +285,16 @@ export type SlideMetadata = z.infer<typeof SlideMetadataSchema>;
  */
 export const ProgressDataSchema = z.object({
   currentSlide: z.number().int().min(0),
+  /** Position in the current section; absent for progress saved before vertical slides */
+  currentVerticalSlide: z.number().int().min(0).optional(),
   totalSlides: z.number().int().positive(),
+  /** Number of slides including vertical slides; absent for progress saved before visit history */
+  slideCount: z.number().int().positive().optional(),
+  /** Milliseconds spent on each slide viewed, keyed by position ("3", or "3/1" in a vertical stack) */
+  visitedSlides: z.record(z.string().regex(/^\d+(\/\d+)?$/), z.number().int().min(0)).optional(),
   lastVisited: z.string().datetime(),
+  /** When the completion rule was first met; never cleared */
+  completedAt: z.string().datetime().optional(),
   completed: z.boolean(),
 });
 
@@ -240,3 +346,7 @@ export function safeValidateRevealConfig(data: unknown) {
 export function safeValidateSlide(data: unknown) {
   return SlideSchema.safeParse(data);
 }
+
+export function safeValidateSlideMetadata(data: unknown) {
+  return SlideMetadataSchema.safeParse(data);
+}
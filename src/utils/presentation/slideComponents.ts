@@ -0,0 +1,90 @@
+/**
+ * Box components available in MDX slides
+ * Mirrors the markup of src/components/boxes so slides share boxes.css with posts
+ */
+
+export type SlideComponentProps = Record<string, string | undefined>;
+
+/**
+ * An element a component renders before its children, from one of its props
+ */
+interface ComponentHeading {
+  prop: string;
+  tagName: string;
+  className: string;
+  suffix?: string;
+}
+
+export interface SlideComponent {
+  className: (props: SlideComponentProps) => string[];
+  headings?: ComponentHeading[];
+  /** Props that must be set, with the values they accept (empty = any value) */
+  required?: Record<string, string[]>;
+}
+
+const titled = (className: string): SlideComponent => ({
+  className: () => [className],
+  headings: [{ prop: 'title', tagName: 'strong', className: 'box-title' }],
+});
+
+export const SLIDE_COMPONENTS: Record<string, SlideComponent> = {
+  DefinitionBox: titled('definition-box'),
+  WarningBox: titled('warning-box'),
+  SuccessBox: titled('success-box'),
+  InsightBox: titled('insight-box'),
+  ExampleBox: {
+    className: () => ['example-box'],
+    headings: [{ prop: 'title', tagName: 'h4', className: 'example-title' }],
+  },
+  CalloutBox: {
+    className: () => ['callout'],
+    headings: [{ prop: 'icon', tagName: 'span', className: 'callout-icon' }],
+  },
+  CodeBlock: {
+    className: () => ['custom-code-block'],
+    headings: [{ prop: 'title', tagName: 'div', className: 'code-title' }],
+  },
+  PracticeProblem: {
+    className: () => ['practice-problem'],
+    headings: [{ prop: 'level', tagName: 'strong', className: 'problem-level', suffix: ':' }],
+  },
+  SplitView: {
+    className: (props) => ['split-view', ...(props.class ? props.class.split(/\s+/) : [])],
+  },
+  SplitPanel: {
+    className: (props) => ['split-panel', `split-panel-${props.side}`],
+    headings: [{ prop: 'title', tagName: 'h3', className: 'panel-title' }],
+    required: { side: ['left', 'right'] },
+  },
+  HeroSection: {
+    className: () => ['hero-section'],
+    headings: [
+      { prop: 'title', tagName: 'h1', className: '' },
+      { prop: 'subtitle', tagName: 'div', className: 'hero-subtitle' },
+    ],
+    required: { title: [] },
+  },
+};
+
+/**
+ * Check the props of a component
+ * @returns A description of the first problem, or null if the props are valid
+ */
+export function checkSlideComponentProps(name: string, props: SlideComponentProps): string | null {
+  const component = SLIDE_COMPONENTS[name];
+  if (!component) {
+    return `Unknown component <${name}>. Available: ${Object.keys(SLIDE_COMPONENTS).join(', ')}`;
+  }
+
+  for (const [prop, values] of Object.entries(component.required ?? {})) {
+    const value = props[prop];
+    if (!value) {
+      return `<${name}> needs a "${prop}" prop`;
+    }
+    if (values.length > 0 && !values.includes(value)) {
+      return `<${name}> "${prop}" must be one of: ${values.join(', ')}`;
+    }
+  }
+
+  return null;
+}
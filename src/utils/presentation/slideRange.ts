@@ -0,0 +1,53 @@
+/**
+ * Slide ranges of embedded mini-decks
+ * A range names sections by their slide number: "4-7", or "5" for a single slide
+ */
+
+/**
+ * An inclusive range of slide numbers (1-based)
+ */
+export interface SlideRange {
+  start: number;
+  end: number;
+}
+
+const RANGE_PATTERN = /^\s*(\d+)\s*(?:[-–]\s*(\d+)\s*)?$/;
+
+/**
+ * Parse a slide range and check it against the number of slides in the deck
+ *
+ * @param range - "start-end" or a single slide number
+ * @param slideCount - Number of slides (sections) in the deck
+ * @throws Error if the range is malformed, reversed or outside the deck
+ *
+ * @example
+ * ```typescript
+ * parseSlideRange('4-7', 21); // { start: 4, end: 7 }
+ * parseSlideRange('5', 21);   // { start: 5, end: 5 }
+ * ```
+ */
+export function parseSlideRange(range: string, slideCount: number): SlideRange {
+  const match = RANGE_PATTERN.exec(range);
+  if (!match) {
+    throw new Error(`Invalid slide range "${range}": use "start-end" (e.g. "4-7") or a single slide number`);
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === undefined ? start : Number(match[2]);
+
+  if (start < 1 || end < start) {
+    throw new Error(`Invalid slide range "${range}": slides are numbered from 1 and the range must not be reversed`);
+  }
+  if (end > slideCount) {
+    throw new Error(`Slide range "${range}" is outside the deck (${slideCount} slides)`);
+  }
+
+  return { start, end };
+}
+
+/**
+ * Get the slides of a range from a deck
+ */
+export function sliceSlideRange<T>(slides: T[], { start, end }: SlideRange): T[] {
+  return slides.slice(start - 1, end);
+}
@@ -0,0 +1,41 @@
+/**
+ * Speaker notes rendering
+ * Notes are written in Markdown and shown by the reveal.js Notes plugin
+ */
+
+import { createMarkdownProcessor, type MarkdownProcessor } from '@astrojs/markdown-remark';
+
+let processorPromise: Promise<MarkdownProcessor> | null = null;
+
+/**
+ * Get the shared Markdown processor (created once)
+ */
+function getProcessor(): Promise<MarkdownProcessor> {
+  if (!processorPromise) {
+    // Notes are read in the speaker view, which has no code highlighting styles
+    processorPromise = createMarkdownProcessor({ syntaxHighlight: false });
+  }
+  return processorPromise;
+}
+
+/**
+ * Get the file name of the notes that accompany a slide
+ * @example getNotesFileName('slide-05.html') // 'slide-05.notes.md'
+ */
+export function getNotesFileName(slideFileName: string): string {
+  return slideFileName.replace(/\.[^./]+$/, '') + '.notes.md';
+}
+
+/**
+ * Render speaker notes from Markdown to HTML
+ * @returns HTML, or undefined when the notes are empty
+ */
+export async function renderSpeakerNotes(markdown: string | undefined): Promise<string | undefined> {
+  if (!markdown || markdown.trim().length === 0) {
+    return undefined;
+  }
+
+  const processor = await getProcessor();
+  const { code } = await processor.render(markdown);
+  return code.trim();
+}
@@ -0,0 +1,342 @@
+/**
+ * LearnerProgressStore - Persists what a learner has read and watched
+ * One versioned payload for presentations (slide reached and slides viewed) and
+ * blog posts (scroll and section reached), validated with the schemas in ./schemas
+ */
+
+import { resolveStorage } from '../storage';
+import { createEmptyProgress, isNewerPayload, migrateLearnerProgress } from './migrations';
+import { mergeLearnerProgress } from './merge';
+import {
+  DEFAULT_COMPLETION_RULE,
+  getSeenShare,
+  getSlideKey,
+  meetsCompletionRule,
+  type CompletionRule,
+} from './completion';
+import type { LearnerProgress, PostProgress, PresentationProgress } from './schemas';
+
+/**
+ * Scroll position (in percent) at which a post counts as read
+ */
+export const POST_COMPLETION_PERCENT = 90;
+
+/**
+ * Time spent on one slide of a presentation
+ */
+export interface SlideView {
+  /** Slide index (0-based) */
+  slideIndex: number;
+  /** Position in the slide's vertical stack (0-based) */
+  verticalIndex?: number;
+  /** Time the slide was open, in milliseconds */
+  dwellMs: number;
+  /** Total number of slides (horizontal sections) */
+  totalSlides: number;
+  /** Number of slides including vertical slides */
+  slideCount: number;
+}
+
+export class LearnerProgressStore {
+  private static readonly STORAGE_KEY = 'learnerProgress';
+  /** Presentation progress from before this store; migrated on the first read */
+  private static readonly LEGACY_STORAGE_KEY = 'presentationProgress';
+  private storage: Storage;
+  private completionRule: CompletionRule;
+  /** Set once progress saved by a newer version of the site is found; it is never written over */
+  private readOnly = false;
+
+  /**
+   * Create a new LearnerProgressStore
+   * @param storage - Storage implementation (defaults to localStorage if available)
+   * @param completionRule - When a presentation counts as completed
+   */
+  constructor(storage?: Storage, completionRule: CompletionRule = DEFAULT_COMPLETION_RULE) {
+    this.storage = resolveStorage(storage);
+    this.completionRule = completionRule;
+  }
+
+  /**
+   * Save the slide a learner is on; reaching a slide doesn't complete the deck,
+   * only the slides viewed (see recordSlideView) do
+   * @param slug - Presentation slug
+   * @param slideIndex - Current slide index (0-based)
+   * @param totalSlides - Total number of slides (horizontal sections)
+   * @param verticalIndex - Current position in the slide's vertical stack (0-based)
+   * @returns The saved progress, or null if it couldn't be saved
+   */
+  savePresentation(
+    slug: string,
+    slideIndex: number,
+    totalSlides: number,
+    verticalIndex: number = 0
+  ): PresentationProgress | null {
+    if (!slug) return null;
+
+    return this.update((progress) => {
+      const previous = progress.presentations[slug];
+      const entry: PresentationProgress = {
+        ...previous,
+        currentSlide: slideIndex,
+        totalSlides,
+        lastVisited: new Date().toISOString(),
+        completed: previous?.completed ?? false,
+      };
+      delete entry.currentVerticalSlide;
+      if (verticalIndex > 0) {
+        entry.currentVerticalSlide = verticalIndex;
+      }
+      progress.presentations[slug] = entry;
+      return entry;
+    });
+  }
+
+  /**
+   * Add the time spent on a slide to the visit history; marks the deck completed
+   * the first time the completion rule is met, and it stays completed
+   * @returns The saved progress, or null if it couldn't be saved
+   */
+  recordSlideView(slug: string, view: SlideView): PresentationProgress | null {
+    if (!slug) return null;
+
+    return this.update((progress) => {
+      const previous = progress.presentations[slug];
+      const key = getSlideKey(view.slideIndex, view.verticalIndex);
+      const visitedSlides = { ...previous?.visitedSlides };
+      visitedSlides[key] = (visitedSlides[key] ?? 0) + Math.max(0, Math.round(view.dwellMs));
+
+      const now = new Date().toISOString();
+      // The position is saved by savePresentation; a first view starts it on the slide
+      const position = previous ?? {
+        currentSlide: view.slideIndex,
+        ...(view.verticalIndex ? { currentVerticalSlide: view.verticalIndex } : {}),
+      };
+      const entry: PresentationProgress = {
+        ...position,
+        totalSlides: view.totalSlides,
+        slideCount: view.slideCount,
+        visitedSlides,
+        lastVisited: now,
+        completed: previous?.completed ?? false,
+      };
+      if (!entry.completedAt && meetsCompletionRule(entry, this.completionRule)) {
+        entry.completedAt = now;
+      }
+      entry.completed = entry.completedAt !== undefined;
+
+      progress.presentations[slug] = entry;
+      return entry;
+    });
+  }
+
+  /**
+   * Load the progress of a presentation
+   * @returns Progress data or null if not found
+   */
+  loadPresentation(slug: string): PresentationProgress | null {
+    if (!slug) return null;
+    return this.getAll().presentations[slug] ?? null;
+  }
+
+  /**
+   * Get how far a learner got through a presentation
+   * @returns Progress percentage (0-100)
+   */
+  getPresentationPercent(slug: string): number {
+    const progress = this.loadPresentation(slug);
+    if (!progress) return 0;
+
+    return Math.floor((progress.currentSlide / progress.totalSlides) * 100);
+  }
+
+  /**
+   * Get the share of a presentation's slides a learner has seen, by the completion rule
+   * @returns Percentage of slides seen (0-100)
+   */
+  getSeenPercent(slug: string): number {
+    const progress = this.loadPresentation(slug);
+    if (!progress) return 0;
+
+    return Math.floor(getSeenShare(progress, this.completionRule) * 100);
+  }
+
+  /**
+   * Get the share of presentations a learner has completed
+   * @param slugs - Slugs of all available presentations
+   * @returns Percentage of completed presentations (0-100)
+   */
+  getOverallCompletionPercentage(slugs: string[]): number {
+    if (slugs.length === 0) return 0;
+
+    const { presentations } = this.getAll();
+    const completedCount = slugs.filter((slug) => presentations[slug]?.completed).length;
+
+    return Math.round((completedCount / slugs.length) * 100);
+  }
+
+  /**
+   * Save how far a learner has read a post; only moving further updates the position
+   * @param slug - Post slug
+   * @param scrollPercent - Position in the article (0-100)
+   * @param section - Id of the heading at that position
+   * @returns The saved progress, or null if it couldn't be saved
+   */
+  savePost(slug: string, scrollPercent: number, section?: string): PostProgress | null {
+    if (!slug) return null;
+
+    return this.update((progress) => {
+      const previous = progress.posts[slug];
+      const percent = Math.round(Math.min(100, Math.max(0, scrollPercent)));
+      const further = !previous || percent > previous.scrollPercent;
+      const reached = further ? section : previous.section;
+      const now = new Date().toISOString();
+      // Set once, so reading the post again doesn't move its completion date
+      const completedAt = previous?.completedAt ?? (percent >= POST_COMPLETION_PERCENT ? now : undefined);
+
+      const entry: PostProgress = {
+        scrollPercent: further ? percent : previous.scrollPercent,
+        ...(reached ? { section: reached } : {}),
+        lastVisited: now,
+        ...(completedAt ? { completedAt } : {}),
+        completed: (previous?.completed ?? false) || completedAt !== undefined,
+      };
+      progress.posts[slug] = entry;
+      return entry;
+    });
+  }
+
+  /**
+   * Load the reading progress of a post
+   * @returns Progress data or null if not found
+   */
+  loadPost(slug: string): PostProgress | null {
+    if (!slug) return null;
+    return this.getAll().posts[slug] ?? null;
+  }
+
+  /**
+   * Clear the progress of a presentation
+   */
+  clearPresentation(slug: string): void {
+    this.update((progress) => {
+      delete progress.presentations[slug];
+    });
+  }
+
+  /**
+   * Clear the reading progress of a post
+   */
+  clearPost(slug: string): void {
+    this.update((progress) => {
+      delete progress.posts[slug];
+    });
+  }
+
+  /**
+   * Whether saving is disabled because the saved progress comes from a newer
+   * version of the site (e.g. a tab still running older code after a deploy)
+   */
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  /**
+   * Get all saved progress, migrated to the current version;
+   * empty if it comes from a newer version (see isReadOnly)
+   */
+  getAll(): LearnerProgress {
+    try {
+      const stored = this.read(LearnerProgressStore.STORAGE_KEY);
+      const legacy = this.storage.getItem(LearnerProgressStore.LEGACY_STORAGE_KEY);
+      if (legacy === null || this.readOnly) return stored;
+
+      // Progress saved before this store (or by a tab still running older code)
+      const progress = mergeLearnerProgress(stored, this.read(LearnerProgressStore.LEGACY_STORAGE_KEY));
+      try {
+        this.write(progress);
+        this.storage.removeItem(LearnerProgressStore.LEGACY_STORAGE_KEY);
+      } catch (error) {
+        // Keep the legacy key to migrate on a later read
+        console.error('Error migrating learner progress:', error);
+      }
+      return progress;
+    } catch (error) {
+      console.error('Error loading learner progress:', error);
+      return createEmptyProgress();
+    }
+  }
+
+  /**
+   * Merge progress from another device into the saved progress
+   * @param imported - Progress read from an export (see progressTransfer.ts)
+   * @returns The merged progress, or null if it couldn't be saved
+   */
+  importProgress(imported: LearnerProgress): LearnerProgress | null {
+    return this.update((progress) => {
+      const merged = mergeLearnerProgress(progress, imported);
+      progress.presentations = merged.presentations;
+      progress.posts = merged.posts;
+      return merged;
+    });
+  }
+
+  /**
+   * Clear all saved progress
+   */
+  clearAll(): void {
+    try {
+      this.storage.removeItem(LearnerProgressStore.STORAGE_KEY);
+      this.storage.removeItem(LearnerProgressStore.LEGACY_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing learner progress:', error);
+    }
+  }
+
+  /**
+   * Apply a change to the saved progress and write it back
+   * @private
+   */
+  private update<T>(change: (progress: LearnerProgress) => T): T | null {
+    try {
+      const progress = this.getAll();
+      if (this.readOnly) return null;
+
+      const result = change(progress);
+      this.write(progress);
+      return result ?? null;
+    } catch (error) {
+      // Silently fail for storage errors (quota exceeded, etc.)
+      console.error('Error saving learner progress:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Read and migrate the payload under a key; a payload from a newer version
+   * makes the store read-only
+   * @private
+   */
+  private read(key: string): LearnerProgress {
+    try {
+      const data = this.storage.getItem(key);
+      if (!data) return createEmptyProgress();
+
+      const payload: unknown = JSON.parse(data);
+      if (isNewerPayload(payload)) {
+        this.readOnly = true;
+      }
+      return migrateLearnerProgress(payload);
+    } catch {
+      // Corrupted JSON counts as no progress
+      return createEmptyProgress();
+    }
+  }
+
+  /**
+   * Write the payload under the current key
+   * @private
+   */
+  private write(progress: LearnerProgress): void {
+    this.storage.setItem(LearnerProgressStore.STORAGE_KEY, JSON.stringify(progress));
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * When a presentation counts as completed
+ * A deck is completed once enough of its slides have been viewed long enough;
+ * decks can change the rule with the `completion` block of their metadata.json
+ */
+
+import type { CompletionRule } from '../presentation/schemas';
+import type { PresentationProgress } from './schemas';
+
+export type { CompletionRule };
+
+/**
+ * Rule every deck starts from: 90% of the slides, each seen for at least 5 seconds
+ */
+export const DEFAULT_COMPLETION_RULE: CompletionRule = {
+  minShare: 0.9,
+  minDwellSeconds: 5,
+};
+
+/**
+ * Merge a deck's completion settings over the site default
+ */
+export function resolveCompletionRule(settings: Partial<CompletionRule> = {}): CompletionRule {
+  return { ...DEFAULT_COMPLETION_RULE, ...settings };
+}
+
+/**
+ * Key of a slide in the visit history: "3", or "3/1" for a vertical slide (0-based, like reveal.js)
+ */
+export function getSlideKey(indexh: number, indexv: number = 0): string {
+  return indexv > 0 ? `${indexh}/${indexv}` : `${indexh}`;
+}
+
+/**
+ * Count the slides viewed for at least the rule's dwell time
+ */
+export function countSeenSlides(progress: PresentationProgress, rule: CompletionRule): number {
+  const minDwellMs = rule.minDwellSeconds * 1000;
+  return Object.values(progress.visitedSlides ?? {}).filter((dwellMs) => dwellMs >= minDwellMs).length;
+}
+
+/**
+ * Get the share of a deck's slides that have been seen (0-1)
+ */
+export function getSeenShare(progress: PresentationProgress, rule: CompletionRule): number {
+  // Progress saved before visit history only knows the number of sections
+  const slideCount = progress.slideCount ?? progress.totalSlides;
+  return Math.min(1, countSeenSlides(progress, rule) / slideCount);
+}
+
+/**
+ * Check whether the visit history meets the completion rule
+ */
+export function meetsCompletionRule(progress: PresentationProgress, rule: CompletionRule): boolean {
+  return getSeenShare(progress, rule) >= rule.minShare;
+}
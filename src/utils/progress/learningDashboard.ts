@@ -0,0 +1,175 @@
+/**
+ * "My learning" dashboard
+ * Joins the post and presentation catalogue built at compile time with the
+ * progress saved in the browser: what is in progress, what is done, totals,
+ * and what to pick up next
+ */
+
+import type { LearningCatalogueItem } from '../../services/learning/LearningCatalogueService';
+import { DEFAULT_COMPLETION_RULE, getSeenShare, type CompletionRule } from './completion';
+import type { LearnerProgress } from './schemas';
+
+/**
+ * A catalogue item the learner has started
+ */
+export interface DashboardEntry {
+  item: LearningCatalogueItem;
+  /** How far the learner got (0-100) */
+  percent: number;
+  lastVisited: string;
+  /** Where to continue: the post's section reached, or the deck (which resumes by itself) */
+  resumeUrl: string;
+  /** When the item was completed, if it was */
+  completedAt?: string;
+}
+
+/**
+ * Items started and completed within a category or difficulty
+ */
+export interface DashboardTotal {
+  /** Category or difficulty; null groups posts without a category */
+  key: string | null;
+  total: number;
+  inProgress: number;
+  completed: number;
+}
+
+export interface LearningDashboard {
+  /** Most recently visited first */
+  inProgress: DashboardEntry[];
+  /** Most recently completed first */
+  completed: DashboardEntry[];
+  byCategory: DashboardTotal[];
+  byDifficulty: DashboardTotal[];
+  /** Unstarted item sharing the most tags with the completed ones */
+  suggestion: LearningCatalogueItem | null;
+}
+
+const DIFFICULTY_ORDER = ['beginner', 'intermediate', 'advanced'];
+
+const byDate = (date: (entry: DashboardEntry) => string) =>
+  (a: DashboardEntry, b: DashboardEntry) => Date.parse(date(b)) - Date.parse(date(a));
+
+/**
+ * Get the saved progress of a catalogue item as a dashboard entry
+ */
+function toEntry(item: LearningCatalogueItem, progress: LearnerProgress, rule: CompletionRule): DashboardEntry | null {
+  if (item.type === 'post') {
+    const post = progress.posts[item.slug];
+    if (!post) return null;
+
+    return {
+      item,
+      percent: post.completed ? 100 : post.scrollPercent,
+      lastVisited: post.lastVisited,
+      resumeUrl: post.section ? `${item.url}#${post.section}` : item.url,
+      ...(post.completed ? { completedAt: post.completedAt ?? post.lastVisited } : {}),
+    };
+  }
+
+  const deck = progress.presentations[item.slug];
+  if (!deck) return null;
+
+  // Progress saved before visit history only knows the slide reached
+  const share = deck.visitedSlides ? getSeenShare(deck, rule) : deck.currentSlide / deck.totalSlides;
+
+  return {
+    item,
+    percent: deck.completed ? 100 : Math.floor(share * 100),
+    lastVisited: deck.lastVisited,
+    resumeUrl: item.url,
+    ...(deck.completed ? { completedAt: deck.completedAt ?? deck.lastVisited } : {}),
+  };
+}
+
+/**
+ * Count items, started and completed, per key
+ */
+function countBy(
+  catalogue: LearningCatalogueItem[],
+  entries: Map<LearningCatalogueItem, DashboardEntry>,
+  keyOf: (item: LearningCatalogueItem) => string | null
+): DashboardTotal[] {
+  const totals = new Map<string | null, DashboardTotal>();
+
+  for (const item of catalogue) {
+    const key = keyOf(item);
+    const total = totals.get(key) ?? { key, total: 0, inProgress: 0, completed: 0 };
+    const entry = entries.get(item);
+
+    total.total++;
+    if (entry?.completedAt) {
+      total.completed++;
+    } else if (entry) {
+      total.inProgress++;
+    }
+    totals.set(key, total);
+  }
+
+  return Array.from(totals.values());
+}
+
+/**
+ * Pick the unstarted item sharing the most tags with the completed items;
+ * ties go to the easier item, then to catalogue order
+ */
+function suggestNext(
+  catalogue: LearningCatalogueItem[],
+  entries: Map<LearningCatalogueItem, DashboardEntry>
+): LearningCatalogueItem | null {
+  const completedTags = new Set(
+    Array.from(entries.values())
+      .filter((entry) => entry.completedAt)
+      .flatMap((entry) => entry.item.tags.map((tag) => tag.toLowerCase()))
+  );
+
+  let best: { item: LearningCatalogueItem; score: number } | null = null;
+  for (const item of catalogue) {
+    if (entries.has(item)) continue;
+
+    const score = item.tags.filter((tag) => completedTags.has(tag.toLowerCase())).length;
+    const easier = best !== null && score === best.score &&
+      DIFFICULTY_ORDER.indexOf(item.difficulty) < DIFFICULTY_ORDER.indexOf(best.item.difficulty);
+
+    if (score > 0 && (!best || score > best.score || easier)) {
+      best = { item, score };
+    }
+  }
+
+  return best?.item ?? null;
+}
+
+/**
+ * Build the dashboard from the catalogue and the saved progress
+ * @param catalogue - Posts and presentations of the page's language
+ * @param progress - Progress saved by LearnerProgressStore
+ * @param rule - Rule for counting presentation slides as seen
+ */
+export function buildLearningDashboard(
+  catalogue: LearningCatalogueItem[],
+  progress: LearnerProgress,
+  rule: CompletionRule = DEFAULT_COMPLETION_RULE
+): LearningDashboard {
+  const entries = new Map<LearningCatalogueItem, DashboardEntry>();
+  for (const item of catalogue) {
+    const entry = toEntry(item, progress, rule);
+    if (entry) entries.set(item, entry);
+  }
+
+  const started = Array.from(entries.values());
+  const byDifficulty = countBy(catalogue, entries, (item) => item.difficulty).sort(
+    (a, b) => DIFFICULTY_ORDER.indexOf(a.key!) - DIFFICULTY_ORDER.indexOf(b.key!)
+  );
+  // Named categories alphabetically, posts without one last
+  const byCategory = countBy(catalogue, entries, (item) => item.category ?? null).sort((a, b) =>
+    a.key === null ? 1 : b.key === null ? -1 : a.key.localeCompare(b.key)
+  );
+
+  return {
+    inProgress: started.filter((entry) => !entry.completedAt).sort(byDate((entry) => entry.lastVisited)),
+    completed: started.filter((entry) => entry.completedAt).sort(byDate((entry) => entry.completedAt!)),
+    byCategory,
+    byDifficulty,
+    suggestion: suggestNext(catalogue, entries),
+  };
+}
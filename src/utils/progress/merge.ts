@@ -0,0 +1,98 @@
+/**
+ * Merging learner progress from two sources
+ * Used when migrating the legacy key and when importing progress from another
+ * device. Merging is field by field, so importing the same file twice or in
+ * either direction gives the same result
+ */
+
+import {
+  LEARNER_PROGRESS_VERSION,
+  type LearnerProgress,
+  type PostProgress,
+  type PresentationProgress,
+} from './schemas';
+
+const newest = <T extends { lastVisited: string }>(a: T, b: T): T =>
+  Date.parse(b.lastVisited) > Date.parse(a.lastVisited) ? b : a;
+
+/**
+ * Get the earlier of two completion dates, ignoring missing ones
+ */
+const earliest = (a?: string, b?: string): string | undefined =>
+  [a, b]
+    .filter((date): date is string => date !== undefined)
+    .sort((x, y) => Date.parse(x) - Date.parse(y))[0];
+
+/**
+ * Merge two records of entries, combining entries present in both
+ */
+function mergeRecords<T>(a: Record<string, T>, b: Record<string, T>, merge: (a: T, b: T) => T): Record<string, T> {
+  const merged = { ...a };
+  for (const [slug, entry] of Object.entries(b)) {
+    merged[slug] = merged[slug] ? merge(merged[slug], entry) : entry;
+  }
+  return merged;
+}
+
+/**
+ * Merge the progress of one presentation: the furthest slide, every slide viewed
+ * (with the longer time when both viewed it), the newest visit and the first completion
+ */
+export function mergePresentationProgress(a: PresentationProgress, b: PresentationProgress): PresentationProgress {
+  const latest = newest(a, b);
+  const position = (entry: PresentationProgress) => [entry.currentSlide, entry.currentVerticalSlide ?? 0];
+  const [ah, av] = position(a);
+  const [bh, bv] = position(b);
+  const furthest = bh > ah || (bh === ah && bv > av) ? b : a;
+
+  let visitedSlides: Record<string, number> | undefined;
+  if (a.visitedSlides || b.visitedSlides) {
+    visitedSlides = { ...a.visitedSlides };
+    for (const [key, dwellMs] of Object.entries(b.visitedSlides ?? {})) {
+      visitedSlides[key] = Math.max(visitedSlides[key] ?? 0, dwellMs);
+    }
+  }
+
+  const completedAt = earliest(a.completedAt, b.completedAt);
+  const slideCount = latest.slideCount ?? a.slideCount ?? b.slideCount;
+
+  return {
+    currentSlide: furthest.currentSlide,
+    ...(furthest.currentVerticalSlide ? { currentVerticalSlide: furthest.currentVerticalSlide } : {}),
+    // The deck may have changed since the older visit
+    totalSlides: latest.totalSlides,
+    ...(slideCount ? { slideCount } : {}),
+    ...(visitedSlides ? { visitedSlides } : {}),
+    lastVisited: latest.lastVisited,
+    ...(completedAt ? { completedAt } : {}),
+    completed: a.completed || b.completed,
+  };
+}
+
+/**
+ * Merge the reading progress of one post: the furthest position, the newest visit,
+ * read if it was read on either side, and the first read
+ */
+export function mergePostProgress(a: PostProgress, b: PostProgress): PostProgress {
+  const furthest = b.scrollPercent > a.scrollPercent ? b : a;
+  const completedAt = earliest(a.completedAt, b.completedAt);
+
+  return {
+    scrollPercent: furthest.scrollPercent,
+    ...(furthest.section ? { section: furthest.section } : {}),
+    lastVisited: newest(a, b).lastVisited,
+    ...(completedAt ? { completedAt } : {}),
+    completed: a.completed || b.completed,
+  };
+}
+
+/**
+ * Merge two progress payloads entry by entry
+ */
+export function mergeLearnerProgress(base: LearnerProgress, other: LearnerProgress): LearnerProgress {
+  return {
+    version: LEARNER_PROGRESS_VERSION,
+    presentations: mergeRecords(base.presentations, other.presentations, mergePresentationProgress),
+    posts: mergeRecords(base.posts, other.posts, mergePostProgress),
+  };
+}
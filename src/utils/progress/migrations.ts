@@ -0,0 +1,119 @@
+/**
+ * Migrations of the stored learner progress
+ * Version 0 is the format from before LearnerProgressStore: presentation progress
+ * keyed by slug under `presentationProgress`, with no version and no posts.
+ * Version 1 marked a deck completed whenever its last slide was open; version 2
+ * records the slides viewed and when the deck was first completed; version 3
+ * records when a post was first read
+ */
+
+import type { z } from 'astro/zod';
+import { ProgressDataSchema } from '../presentation/schemas';
+import {
+  LEARNER_PROGRESS_VERSION,
+  PostProgressSchema,
+  type LearnerProgress,
+} from './schemas';
+
+type Payload = Record<string, unknown>;
+
+/**
+ * Migration from each version to the next
+ */
+const MIGRATIONS: Record<number, (payload: Payload) => Payload> = {
+  0: (legacy) => ({ version: 1, presentations: legacy, posts: {} }),
+  // Decks already marked completed keep that state, dated from their last visit
+  1: (payload) => ({
+    ...payload,
+    version: 2,
+    presentations: mapEntries(payload.presentations, (entry) =>
+      entry.completed === true ? { ...entry, completedAt: entry.lastVisited } : entry
+    ),
+  }),
+  // Likewise for posts already read
+  2: (payload) => ({
+    ...payload,
+    version: 3,
+    posts: mapEntries(payload.posts, (entry) =>
+      entry.completed === true ? { ...entry, completedAt: entry.lastVisited } : entry
+    ),
+  }),
+};
+
+function isRecord(value: unknown): value is Payload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply a change to each object entry of a record; anything else is left for validation to drop
+ */
+function mapEntries(entries: unknown, change: (entry: Payload) => Payload): unknown {
+  if (!isRecord(entries)) return entries;
+
+  return Object.fromEntries(
+    Object.entries(entries).map(([slug, entry]) => [slug, isRecord(entry) ? change(entry) : entry])
+  );
+}
+
+/**
+ * Create progress with nothing read yet
+ */
+export function createEmptyProgress(): LearnerProgress {
+  return { version: LEARNER_PROGRESS_VERSION, presentations: {}, posts: {} };
+}
+
+/**
+ * Get the version of a stored payload; payloads without one are version 0
+ */
+export function getPayloadVersion(payload: Payload): number {
+  return typeof payload.version === 'number' ? payload.version : 0;
+}
+
+/**
+ * Whether a stored payload was written by a newer version of the site
+ */
+export function isNewerPayload(payload: unknown): boolean {
+  return isRecord(payload) && getPayloadVersion(payload) > LEARNER_PROGRESS_VERSION;
+}
+
+/**
+ * Keep the entries of a record that pass a schema
+ */
+function keepValid<T>(entries: unknown, schema: z.ZodType<T>): Record<string, T> {
+  if (!isRecord(entries)) return {};
+
+  const valid: Record<string, T> = {};
+  for (const [slug, entry] of Object.entries(entries)) {
+    const result = schema.safeParse(entry);
+    if (result.success) {
+      valid[slug] = result.data;
+    }
+  }
+  return valid;
+}
+
+/**
+ * Bring a stored payload up to the current version
+ * Entries that don't validate are dropped one by one, so a bad entry doesn't cost the rest
+ *
+ * @param payload - Parsed JSON from storage
+ * @returns The progress; empty if the payload isn't an object or comes from a newer version,
+ *   which callers must then not write over (see isNewerPayload)
+ */
+export function migrateLearnerProgress(payload: unknown): LearnerProgress {
+  if (!isRecord(payload) || isNewerPayload(payload)) return createEmptyProgress();
+
+  let current = payload;
+  let version = getPayloadVersion(current);
+
+  while (version < LEARNER_PROGRESS_VERSION) {
+    current = MIGRATIONS[version](current);
+    version = getPayloadVersion(current);
+  }
+
+  return {
+    version: LEARNER_PROGRESS_VERSION,
+    presentations: keepValid(current.presentations, ProgressDataSchema),
+    posts: keepValid(current.posts, PostProgressSchema),
+  };
+}
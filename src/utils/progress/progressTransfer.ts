@@ -0,0 +1,180 @@
+/**
+ * Moving learner progress between devices, with no server involved
+ * Progress is exported as a JSON file carrying a SHA-256 checksum of the progress,
+ * or, when small enough, as a link (and its QR code) whose fragment holds the compressed export.
+ * The checksum catches truncated or hand-edited files; it isn't a signature,
+ * since the browser has no secret to sign with
+ */
+
+// Used by client scripts: astro:content is server-only
+import { z } from 'astro/zod';
+import qrcode from 'qrcode-generator';
+import { isNewerPayload, migrateLearnerProgress } from './migrations';
+import type { LearnerProgress } from './schemas';
+
+export const PROGRESS_EXPORT_FORMAT = 'quiverlearn-progress';
+
+/**
+ * Fragment parameter of a transfer link: `#progress=…`
+ */
+export const PROGRESS_FRAGMENT_KEY = 'progress';
+
+/**
+ * Longest fragment offered as a link; longer ones don't fit in a QR code
+ */
+export const MAX_FRAGMENT_LENGTH = 2000;
+
+/**
+ * Schema for an export file; the progress itself is checked against the checksum
+ * first, then migrated and validated like stored progress
+ */
+export const ProgressExportSchema = z.object({
+  format: z.literal(PROGRESS_EXPORT_FORMAT),
+  exportedAt: z.string().datetime(),
+  checksum: z.string().regex(/^[0-9a-f]{64}$/),
+  progress: z.record(z.string(), z.unknown()),
+});
+
+export interface ProgressExport {
+  format: typeof PROGRESS_EXPORT_FORMAT;
+  exportedAt: string;
+  checksum: string;
+  progress: LearnerProgress;
+}
+
+/**
+ * Why an export couldn't be read
+ */
+export type ProgressImportError = 'invalid-file' | 'checksum-mismatch' | 'newer-version';
+
+export type ProgressImportResult =
+  | { success: true; progress: LearnerProgress; exportedAt: string }
+  | { success: false; error: ProgressImportError };
+
+/**
+ * SHA-256 of the progress as serialized in the export, in hex
+ */
+export async function computeChecksum(progress: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(progress)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Create an export of the progress
+ */
+export async function createProgressExport(progress: LearnerProgress, exportedAt: Date = new Date()): Promise<ProgressExport> {
+  return {
+    format: PROGRESS_EXPORT_FORMAT,
+    exportedAt: exportedAt.toISOString(),
+    checksum: await computeChecksum(progress),
+    progress,
+  };
+}
+
+/**
+ * Check an export and bring its progress up to the current version
+ * @param payload - Parsed export file
+ */
+export async function readProgressExport(payload: unknown): Promise<ProgressImportResult> {
+  const parsed = ProgressExportSchema.safeParse(payload);
+  if (!parsed.success) {
+    return { success: false, error: 'invalid-file' };
+  }
+
+  const { progress, checksum, exportedAt } = parsed.data;
+  if ((await computeChecksum(progress)) !== checksum) {
+    return { success: false, error: 'checksum-mismatch' };
+  }
+  // Exported by a newer version of the site; importing would lose data
+  if (isNewerPayload(progress)) {
+    return { success: false, error: 'newer-version' };
+  }
+
+  return { success: true, progress: migrateLearnerProgress(progress), exportedAt };
+}
+
+/**
+ * Read an export file
+ * @param text - Contents of the file
+ */
+export async function parseProgressFile(text: string): Promise<ProgressImportResult> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'invalid-file' };
+  }
+  return readProgressExport(payload);
+}
+
+/**
+ * Compress or decompress bytes with a stream from the Compression Streams API
+ */
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Base64 that is safe in a URL fragment
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encode an export as a link fragment (without the `#`)
+ * @returns The fragment, or null if the progress is too large for a link
+ */
+export async function encodeProgressFragment(exported: ProgressExport): Promise<string | null> {
+  const compressed = await transform(new TextEncoder().encode(JSON.stringify(exported)), new CompressionStream('deflate-raw'));
+  const fragment = `${PROGRESS_FRAGMENT_KEY}=${toBase64Url(compressed)}`;
+
+  return fragment.length <= MAX_FRAGMENT_LENGTH ? fragment : null;
+}
+
+/**
+ * Read the export carried by a link fragment
+ * @param hash - `location.hash`, with or without the `#`
+ * @returns The result, or null if the fragment carries no progress
+ */
+export async function decodeProgressFragment(hash: string): Promise<ProgressImportResult | null> {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(PROGRESS_FRAGMENT_KEY);
+  if (!encoded) return null;
+
+  try {
+    const json = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    return await parseProgressFile(new TextDecoder().decode(json));
+  } catch {
+    // Cut off or mistyped links don't decode, and checksums need a secure context
+    return { success: false, error: 'invalid-file' };
+  }
+}
+
+/**
+ * Draw a transfer link as a QR code, to scan it with the other device
+ * Low error correction leaves room for the longest links
+ * @returns An `<svg>` that scales to its container, or null if the link doesn't fit in a QR code
+ */
+export function createTransferQrCode(url: string): string | null {
+  const code = qrcode(0, 'L');
+  try {
+    code.addData(url);
+    code.make();
+  } catch {
+    return null;
+  }
+  return code.createSvgTag({ margin: 2, scalable: true });
+}
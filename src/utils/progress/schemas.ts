@@ -0,0 +1,40 @@
+/**
+ * Zod Validation Schemas for Learner Progress
+ * The payload LearnerProgressStore keeps in localStorage, validated on every read
+ */
+
+// Used by client scripts: astro:content is server-only
+import { z } from 'astro/zod';
+import { ProgressDataSchema } from '../presentation/schemas';
+
+/**
+ * Version of the stored payload; bump it and add a migration when the shape changes
+ */
+export const LEARNER_PROGRESS_VERSION = 3;
+
+/**
+ * Schema for the reading progress of a blog post
+ */
+export const PostProgressSchema = z.object({
+  /** Furthest point reached, in percent of the article */
+  scrollPercent: z.number().min(0).max(100),
+  /** Id of the furthest heading reached */
+  section: z.string().min(1).optional(),
+  lastVisited: z.string().datetime(),
+  /** When the post was first read to the end; never cleared */
+  completedAt: z.string().datetime().optional(),
+  completed: z.boolean(),
+});
+
+/**
+ * Schema for everything a learner has read and watched, keyed by slug
+ */
+export const LearnerProgressSchema = z.object({
+  version: z.literal(LEARNER_PROGRESS_VERSION),
+  presentations: z.record(z.string(), ProgressDataSchema),
+  posts: z.record(z.string(), PostProgressSchema),
+});
+
+export type PresentationProgress = z.infer<typeof ProgressDataSchema>;
+export type PostProgress = z.infer<typeof PostProgressSchema>;
+export type LearnerProgress = z.infer<typeof LearnerProgressSchema>;
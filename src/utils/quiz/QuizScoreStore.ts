@@ -0,0 +1,172 @@
+/**
+ * QuizScoreStore - Persists quiz answers and scores per page
+ * Uses the same storage abstraction as LearnerProgressStore
+ */
+
+import { resolveStorage } from '../storage';
+
+export interface QuestionAttempt {
+  correct: boolean;
+  attempts: number;
+  answeredAt: string; // ISO date string
+}
+
+export interface QuizScore {
+  totalQuestions: number;
+  answers: Record<string, QuestionAttempt>;
+  lastAttempt: string; // ISO date string
+}
+
+export interface ScoreSummary {
+  correct: number;
+  answered: number;
+  total: number;
+}
+
+/** Scores keyed by page scope (e.g. `/en/blog/linear-regression`), then by quiz id */
+export type AllQuizScores = Record<string, Record<string, QuizScore>>;
+
+export class QuizScoreStore {
+  private static readonly STORAGE_KEY = 'quizScores';
+  private storage: Storage;
+
+  /**
+   * Create a new QuizScoreStore
+   * @param storage - Storage implementation (defaults to localStorage if available)
+   */
+  constructor(storage?: Storage) {
+    this.storage = resolveStorage(storage);
+  }
+
+  /**
+   * Record the result of answering a question
+   * @param scope - Page the quiz belongs to
+   * @param quizId - Quiz identifier, unique within the page
+   * @param questionId - Question identifier, unique within the quiz
+   * @param correct - Whether the answer was correct
+   * @param totalQuestions - Number of questions in the quiz
+   * @returns The updated quiz score, or null if it couldn't be saved
+   */
+  recordAnswer(
+    scope: string,
+    quizId: string,
+    questionId: string,
+    correct: boolean,
+    totalQuestions: number
+  ): QuizScore | null {
+    if (!scope || !quizId || !questionId) return null;
+
+    try {
+      const allScores = this.loadAllScores();
+      const scopeScores = allScores[scope] ?? {};
+      const now = new Date().toISOString();
+      const quiz = scopeScores[quizId] ?? { totalQuestions, answers: {}, lastAttempt: now };
+      const previous = quiz.answers[questionId];
+
+      quiz.totalQuestions = totalQuestions;
+      quiz.lastAttempt = now;
+      quiz.answers[questionId] = {
+        correct,
+        attempts: (previous?.attempts ?? 0) + 1,
+        answeredAt: now,
+      };
+
+      scopeScores[quizId] = quiz;
+      allScores[scope] = scopeScores;
+
+      this.storage.setItem(QuizScoreStore.STORAGE_KEY, JSON.stringify(allScores));
+      return quiz;
+    } catch (error) {
+      // Silently fail for storage errors (quota exceeded, etc.)
+      console.error('Error saving quiz score:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Load the saved answers of a quiz
+   * @returns Quiz score or null if the quiz hasn't been answered
+   */
+  load(scope: string, quizId: string): QuizScore | null {
+    return this.loadAllScores()[scope]?.[quizId] ?? null;
+  }
+
+  /**
+   * Get the score of a single quiz
+   */
+  getQuizScore(scope: string, quizId: string): ScoreSummary {
+    const quiz = this.load(scope, quizId);
+    return quiz ? this.summarize([quiz]) : { correct: 0, answered: 0, total: 0 };
+  }
+
+  /**
+   * Get the combined score of every quiz on a page
+   */
+  getScopeScore(scope: string): ScoreSummary {
+    return this.summarize(Object.values(this.loadAllScores()[scope] ?? {}));
+  }
+
+  /**
+   * Get all saved scores
+   */
+  getAllScores(): AllQuizScores {
+    return this.loadAllScores();
+  }
+
+  /**
+   * Clear the answers of one quiz, or of every quiz on a page
+   */
+  clear(scope: string, quizId?: string): void {
+    try {
+      const allScores = this.loadAllScores();
+
+      if (quizId) {
+        delete allScores[scope]?.[quizId];
+        if (allScores[scope] && Object.keys(allScores[scope]).length === 0) {
+          delete allScores[scope];
+        }
+      } else {
+        delete allScores[scope];
+      }
+
+      this.storage.setItem(QuizScoreStore.STORAGE_KEY, JSON.stringify(allScores));
+    } catch (error) {
+      console.error('Error clearing quiz score:', error);
+    }
+  }
+
+  /**
+   * Add up correct and answered questions across quizzes
+   * @private
+   */
+  private summarize(quizzes: QuizScore[]): ScoreSummary {
+    return quizzes.reduce(
+      (summary, quiz) => {
+        const answers = Object.values(quiz.answers);
+        return {
+          correct: summary.correct + answers.filter((answer) => answer.correct).length,
+          answered: summary.answered + answers.length,
+          total: summary.total + quiz.totalQuestions,
+        };
+      },
+      { correct: 0, answered: 0, total: 0 }
+    );
+  }
+
+  /**
+   * Load all scores from storage
+   * @private
+   */
+  private loadAllScores(): AllQuizScores {
+    try {
+      const data = this.storage.getItem(QuizScoreStore.STORAGE_KEY);
+      if (!data) return {};
+
+      const parsed = JSON.parse(data);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      // Return empty object if JSON is corrupted or storage errors
+      return {};
+    }
+  }
+}
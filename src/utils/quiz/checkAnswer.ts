@@ -0,0 +1,79 @@
+/**
+ * Client-side answer checking for quiz questions
+ * Kept free of build-time imports so it can be bundled into the quiz script
+ */
+
+import type { MultipleChoiceQuestion, NumericQuestion } from './schemas';
+
+export type AnswerStatus = 'correct' | 'incorrect' | 'invalid';
+
+// Absorbs floating point noise such as 0.1 + 0.2
+const EPSILON = 1e-9;
+
+/**
+ * Parse a number typed by a learner.
+ * Accepts a decimal comma (Indonesian style), thousands separators,
+ * simple fractions like "1/3" and percentages like "25%". A single comma
+ * is read as a decimal comma, so "1,5" and "1,250" are 1.5 and 1.25.
+ * @returns The number, or null if the input isn't one
+ */
+export function parseNumericAnswer(input: string): number | null {
+  let text = input.trim().replace(/\s+/g, '').replace(/−/g, '-');
+  if (!text) return null;
+
+  let scale = 1;
+  if (text.endsWith('%')) {
+    text = text.slice(0, -1);
+    scale = 0.01;
+  }
+
+  const fraction = text.match(/^(-?\d+(?:[.,]\d+)?)\/(-?\d+(?:[.,]\d+)?)$/);
+  if (fraction) {
+    const numerator = parseNumericAnswer(fraction[1]);
+    const denominator = parseNumericAnswer(fraction[2]);
+    if (numerator === null || denominator === null || denominator === 0) return null;
+    return (numerator / denominator) * scale;
+  }
+
+  if (text.includes(',') && text.includes('.')) {
+    // The separator that comes last is the decimal one: 1,234.5 or 1.234,5
+    text = text.lastIndexOf(',') > text.lastIndexOf('.')
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (/^-?\d{1,3}(,\d{3}){2,}$/.test(text)) {
+    text = text.replace(/,/g, '');
+  } else {
+    text = text.replace(',', '.');
+  }
+
+  if (!/^-?(\d+\.?\d*|\.\d+)(e-?\d+)?$/i.test(text)) return null;
+
+  const value = Number(text) * scale;
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Check a numeric answer against the expected value and tolerance
+ */
+export function checkNumericAnswer(
+  question: Pick<NumericQuestion, 'answer' | 'tolerance'>,
+  input: string
+): AnswerStatus {
+  const value = parseNumericAnswer(input);
+  if (value === null) return 'invalid';
+
+  return Math.abs(value - question.answer) <= question.tolerance + EPSILON ? 'correct' : 'incorrect';
+}
+
+/**
+ * Check a multiple choice answer
+ * @param choice - Index of the selected choice, or null when nothing is selected
+ */
+export function checkMultipleChoiceAnswer(
+  question: Pick<MultipleChoiceQuestion, 'answer'>,
+  choice: number | null
+): AnswerStatus {
+  if (choice === null || Number.isNaN(choice)) return 'invalid';
+
+  return choice === question.answer ? 'correct' : 'incorrect';
+}
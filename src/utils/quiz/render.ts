@@ -0,0 +1,161 @@
+/**
+ * Quiz HTML rendering
+ * Produces the markup hydrated by src/scripts/quiz.ts, shared by the MDX
+ * components and quizzes embedded in slide HTML
+ */
+
+import type { Language } from '../../i18n';
+import { useTranslations } from '../i18n';
+import { escapeHtml } from '../html';
+import { validateQuiz, type Question } from './schemas';
+
+export type QuizLabels = ReturnType<typeof useTranslations>['quiz'];
+
+export interface QuizRenderOptions {
+  id: string;
+  title?: string;
+  /** Page the scores are stored under, e.g. `/en/blog/linear-regression` */
+  scope: string;
+  labels: QuizLabels;
+}
+
+export interface QuestionRenderOptions {
+  labels: QuizLabels;
+  /** Rendered prompt; defaults to the escaped `prompt` text */
+  promptHtml?: string;
+  /** Rendered explanation; defaults to the escaped `explanation` text */
+  explanationHtml?: string;
+}
+
+/**
+ * Small stable hash (djb2) used for ids of questions that don't set one
+ */
+function hashText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Get the id a question's score is stored under
+ */
+export function getQuestionKey(question: Question): string {
+  return question.id ?? `q-${hashText(`${question.type}:${question.prompt}`)}`;
+}
+
+/**
+ * Join parts into a value safe for `name` and `id` attributes
+ */
+function toDomId(...parts: string[]): string {
+  return parts.join('-').replace(/[^a-zA-Z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Render the wrapper of a quiz around already rendered questions
+ */
+export function renderQuizHtml(options: QuizRenderOptions, questionsHtml: string): string {
+  const { id, title, scope, labels } = options;
+
+  return `<section class="quiz" data-quiz="${escapeHtml(id)}" data-quiz-scope="${escapeHtml(scope)}" data-score-label="${escapeHtml(labels.score)}">
+  <div class="quiz-header">
+    <p class="quiz-title">${escapeHtml(title || labels.title)}</p>
+    <p class="quiz-score" data-quiz-score aria-live="polite"></p>
+    <button type="button" class="quiz-reset" data-quiz-reset hidden>${escapeHtml(labels.reset)}</button>
+  </div>
+  <div class="quiz-questions">${questionsHtml}</div>
+</section>`;
+}
+
+/**
+ * Render a single question
+ */
+export function renderQuestionHtml(question: Question, options: QuestionRenderOptions): string {
+  const { labels } = options;
+  const key = getQuestionKey(question);
+  const inputName = toDomId('quiz', key, hashText(JSON.stringify(question)));
+  const promptHtml = options.promptHtml ?? `<p>${escapeHtml(question.prompt)}</p>`;
+  const explanationHtml = options.explanationHtml
+    ?? (question.explanation ? `<p>${escapeHtml(question.explanation)}</p>` : '');
+
+  let attributes = `data-question-id="${escapeHtml(key)}" data-question-type="${question.type}"`;
+  let body: string;
+
+  switch (question.type) {
+    case 'multiple-choice':
+      attributes += ` data-answer="${question.answer}"`;
+      body = `<fieldset class="quiz-choices">
+      <legend class="quiz-sr-only">${escapeHtml(labels.yourAnswer)}</legend>
+      ${question.choices.map((choice, index) => `<label class="quiz-choice"><input type="radio" name="${inputName}" value="${index}" /> <span>${escapeHtml(choice)}</span></label>`).join('\n      ')}
+    </fieldset>
+    ${renderCheck(labels)}`;
+      break;
+
+    case 'numeric':
+      attributes += ` data-answer="${question.answer}" data-tolerance="${question.tolerance}"`;
+      body = `<div class="quiz-numeric">
+      <input type="text" inputmode="decimal" autocomplete="off" class="quiz-input" name="${inputName}" aria-label="${escapeHtml(labels.yourAnswer)}" />
+      ${question.unit ? `<span class="quiz-unit">${escapeHtml(question.unit)}</span>` : ''}
+    </div>
+    ${question.tolerance > 0 ? `<p class="quiz-hint">${escapeHtml(labels.tolerance.replace('{tolerance}', String(question.tolerance)))}</p>` : ''}
+    ${renderCheck(labels)}`;
+      break;
+
+    case 'free-text':
+      body = `<textarea class="quiz-input" name="${inputName}" rows="3" aria-label="${escapeHtml(labels.yourAnswer)}" placeholder="${escapeHtml(labels.answerPlaceholder)}"></textarea>
+    <button type="button" class="quiz-button" data-quiz-reveal>${escapeHtml(labels.showAnswer)}</button>
+    <div class="quiz-model-answer" data-quiz-model-answer hidden>
+      <p class="quiz-model-label">${escapeHtml(labels.modelAnswer)}</p>
+      <p>${escapeHtml(question.answer)}</p>
+      <p class="quiz-self-check">${escapeHtml(labels.selfCheck)}
+        <button type="button" class="quiz-button" data-quiz-self="correct">${escapeHtml(labels.gotIt)}</button>
+        <button type="button" class="quiz-button secondary" data-quiz-self="incorrect">${escapeHtml(labels.notYet)}</button>
+      </p>
+    </div>`;
+      break;
+  }
+
+  return `<div class="quiz-question" ${attributes}>
+    <div class="quiz-prompt">${promptHtml}</div>
+    ${body}
+    <p class="quiz-feedback" data-feedback="correct" hidden>${escapeHtml(labels.correct)}</p>
+    <p class="quiz-feedback" data-feedback="incorrect" hidden>${escapeHtml(labels.incorrect)}</p>
+    <p class="quiz-feedback" data-feedback="invalid" hidden>${escapeHtml(question.type === 'numeric' ? labels.invalidNumber : labels.chooseOne)}</p>
+    ${explanationHtml ? `<div class="quiz-explanation" data-quiz-explanation hidden>${explanationHtml}</div>` : ''}
+  </div>`;
+}
+
+/**
+ * Render the check button of auto-checked questions
+ */
+function renderCheck(labels: QuizLabels): string {
+  return `<button type="button" class="quiz-button" data-quiz-check>${escapeHtml(labels.check)}</button>`;
+}
+
+// Quizzes in slide HTML are written as JSON:
+// <script type="application/json" data-quiz>{ "id": "...", "questions": [...] }</script>
+const SLIDE_QUIZ_PATTERN = /<script\s+type="application\/json"\s+data-quiz\s*>([\s\S]*?)<\/script>/g;
+
+/**
+ * Replace the quiz JSON blocks of a slide with quiz markup
+ * @throws Error if a quiz block isn't valid JSON or doesn't match the quiz schema
+ */
+export function renderSlideQuizzes(html: string, scope: string, language: Language): string {
+  const labels = useTranslations(language).quiz;
+
+  return html.replace(SLIDE_QUIZ_PATTERN, (_, json: string) => {
+    let quiz;
+    try {
+      quiz = validateQuiz(JSON.parse(json));
+    } catch (error) {
+      throw new Error(`Invalid quiz in ${scope}: ${(error as Error).message}`);
+    }
+
+    const questionsHtml = quiz.questions
+      .map((question) => renderQuestionHtml(question, { labels }))
+      .join('\n');
+
+    return renderQuizHtml({ id: quiz.id, title: quiz.title, scope, labels }, questionsHtml);
+  });
+}
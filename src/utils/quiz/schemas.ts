@@ -0,0 +1,95 @@
+/**
+ * Zod Validation Schemas for Quizzes
+ * Questions are validated at build time, both for MDX components and slide HTML
+ */
+
+import { z } from 'astro:content';
+
+/**
+ * Pattern for quiz and question ids
+ */
+export const QUIZ_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const questionBase = {
+  id: z.string().regex(QUIZ_ID_PATTERN, 'Question id must be lowercase letters, digits and dashes').optional(),
+  prompt: z.string().min(1, 'Question prompt cannot be empty'),
+  explanation: z.string().optional(),
+};
+
+/**
+ * Schema for a multiple choice question; `answer` is the index of the correct choice
+ */
+export const MultipleChoiceQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('multiple-choice'),
+  choices: z.array(z.string().min(1, 'Choices cannot be empty')).min(2, 'At least two choices are required'),
+  answer: z.number().int().min(0),
+}).refine((question) => question.answer < question.choices.length, {
+  message: 'Answer must be the index of one of the choices',
+  path: ['answer'],
+});
+
+/**
+ * Schema for a question answered with a number, accepted within `tolerance`
+ */
+export const NumericQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('numeric'),
+  answer: z.number().finite(),
+  tolerance: z.number().min(0, 'Tolerance cannot be negative').default(0),
+  unit: z.string().optional(),
+});
+
+/**
+ * Schema for an open question; the model answer is revealed and learners mark themselves
+ */
+export const FreeTextQuestionSchema = z.object({
+  ...questionBase,
+  type: z.literal('free-text'),
+  answer: z.string().min(1, 'Model answer cannot be empty'),
+});
+
+export const QuestionSchema = z.union([
+  MultipleChoiceQuestionSchema,
+  NumericQuestionSchema,
+  FreeTextQuestionSchema,
+]);
+
+export type MultipleChoiceQuestion = z.infer<typeof MultipleChoiceQuestionSchema>;
+export type NumericQuestion = z.infer<typeof NumericQuestionSchema>;
+export type FreeTextQuestion = z.infer<typeof FreeTextQuestionSchema>;
+export type Question = z.infer<typeof QuestionSchema>;
+export type QuestionType = Question['type'];
+
+/**
+ * Schema for a quiz embedded in slide HTML
+ */
+export const QuizSchema = z.object({
+  id: z.string().regex(QUIZ_ID_PATTERN, 'Quiz id must be lowercase letters, digits and dashes'),
+  title: z.string().optional(),
+  questions: z.array(QuestionSchema).min(1, 'A quiz needs at least one question'),
+}).refine(
+  (quiz) => {
+    const ids = quiz.questions.map((question) => question.id).filter(Boolean);
+    return new Set(ids).size === ids.length;
+  },
+  { message: 'Question ids must be unique within a quiz', path: ['questions'] }
+);
+
+export type Quiz = z.infer<typeof QuizSchema>;
+
+/**
+ * Validate and parse a question
+ * @throws {z.ZodError} If validation fails
+ */
+export function validateQuestion(data: unknown): Question {
+  return QuestionSchema.parse(data);
+}
+
+/**
+ * Validate and parse a quiz
+ * @throws {z.ZodError} If validation fails
+ */
+export function validateQuiz(data: unknown): Quiz {
+  return QuizSchema.parse(data);
+}
@@ -1,9 +1,25 @@
-import Fuse from 'fuse.js';
+import Fuse, { type FuseIndexRecords, type FuseResult, type IFuseOptions } from 'fuse.js';
 import type { CollectionEntry } from 'astro:content';
 import type { Language } from '../i18n';
+import type { Presentation } from '../domain/presentation/Presentation';
+import type { Slide } from '../domain/presentation/Slide';
+import { extractPlainText, extractTextSections } from './mdxTextExtractor';
+import { escapeHtml } from './html';
+import { getSlideHash } from '../components/presentation-header/scripts/share-handlers';
 
-export interface SearchablePost {
+/**
+ * Kinds of documents that can appear in the search index
+ */
+export type SearchDocumentType = 'post' | 'section' | 'presentation' | 'slide';
+
+/**
+ * A single entry in the search index.
+ * Blog posts, whole presentations and individual slides share this shape
+ * so they can be ranked together and rendered as mixed results.
+ */
+export interface SearchableDocument {
 	id: string;
+	type: SearchDocumentType;
 	title: string;
 	description: string;
 	content: string;
@@ -13,6 +29,120 @@ export interface SearchablePost {
 	pubDate: Date;
 	slug: string;
 	language: Language;
+	url: string;
+	// Links the same post or deck across languages
+	translationId?: string;
+	translatedVersions?: Partial<Record<Language, string>>;
+	// Section and slide fields: the post or deck document this entry belongs to
+	parentId?: string;
+	// Section-only fields
+	sectionId?: string;
+	// Slide-only fields
+	presentationTitle?: string;
+	slideNumber?: number;
+	// Set instead of `content` in prebuilt indexes: readable passages keyed
+	// by where their terms start in the normalised content
+	passages?: SearchPassage[];
+	// Set in prebuilt indexes: the normalised text of every indexed field,
+	// including the whole body, read back from the index records
+	indexedText?: string;
+}
+
+/**
+ * A short run of source text and the offset of its first term in the
+ * normalised content that Fuse matched against
+ */
+export type SearchPassage = [offset: number, text: string];
+
+/**
+ * Prebuilt search index for one language, emitted at build time by
+ * `/search-index-{lang}.json` and loaded with `createSearchIndexFromPayload`
+ */
+export interface SearchIndexPayload {
+	version: number;
+	language: Language;
+	index: { keys: ReadonlyArray<string>; records: FuseIndexRecords };
+	documents: SearchPayloadDocument[];
+}
+
+/**
+ * Fields sections and slides share with their post or deck; the payload
+ * stores them once on the parent
+ */
+const INHERITED_FIELDS = [
+	'category',
+	'tags',
+	'difficulty',
+	'pubDate',
+	'slug',
+	'language',
+	'translationId',
+	'translatedVersions',
+] as const;
+
+type InheritedField = (typeof INHERITED_FIELDS)[number];
+
+/**
+ * A document as stored in the payload: no body, and inherited fields only
+ * where they differ from the parent
+ */
+export type SearchPayloadDocument = Omit<SearchableDocument, 'content' | 'indexedText' | InheritedField> &
+	Partial<Pick<SearchableDocument, InheritedField>>;
+
+export const SEARCH_INDEX_VERSION = 1;
+
+/**
+ * A matching section or slide inside a grouped result
+ */
+export interface SearchResultSection {
+	document: SearchableDocument;
+	snippet: string;
+	score: number;
+}
+
+/**
+ * Search results grouped by the post or presentation they belong to.
+ * `document` is the post/deck itself, `sections` the matching
+ * heading-scoped chunks or slides within it (best match first).
+ */
+export interface SearchResultGroup {
+	document: SearchableDocument;
+	snippet: string;
+	score: number;
+	sections: SearchResultSection[];
+}
+
+/**
+ * Results for the reader's language plus hits from the other language's
+ * index whose content isn't already covered by a translation in `results`
+ */
+export interface CrossLanguageSearchResults {
+	results: SearchResultGroup[];
+	otherLanguageResults: SearchResultGroup[];
+}
+
+/**
+ * @deprecated Use SearchableDocument instead
+ */
+export type SearchablePost = SearchableDocument;
+
+/**
+ * Strip HTML tags and decode common entities so slide markup
+ * doesn't pollute fuzzy matching
+ */
+export function stripHtml(html: string): string {
+	return html
+		.replace(/<!--[\s\S]*?-->/g, ' ')
+		.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+		.replace(/<[^>]+>/g, ' ')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, '&')
+		.replace(/\s+/g, ' ')
+		.trim();
 }
 
 /**
@@ -21,12 +151,13 @@ export interface SearchablePost {
 export function postToSearchable(
 	post: CollectionEntry<'blog-en'> | CollectionEntry<'blog-id'>,
 	lang: Language
-): SearchablePost {
-	// Extract plain text from the body (remove markdown formatting)
-	const content = post.body || '';
+): SearchableDocument {
+	// Extract plain text from the body (drop imports, component tags and LaTeX source)
+	const content = extractPlainText(post.body || '');
 
 	return {
 		id: post.id,
+		type: 'post',
 		title: post.data.title,
 		description: post.data.description || '',
 		content: content,
@@ -36,13 +167,316 @@ export function postToSearchable(
 		pubDate: post.data.pubDate,
 		slug: post.id,
 		language: lang,
+		url: `/${lang}/blog/${post.id}/`,
+		translationId: post.data.translationId,
+		translatedVersions: post.data.translatedVersions,
+	};
+}
+
+/**
+ * Converts a blog post into its post entry followed by one entry per
+ * heading-scoped section. The post entry only keeps the text before the
+ * first heading so the body isn't indexed twice.
+ */
+export function postToSearchableDocuments(
+	post: CollectionEntry<'blog-en'> | CollectionEntry<'blog-id'>,
+	lang: Language
+): SearchableDocument[] {
+	const postDocument = postToSearchable(post, lang);
+	const sections = extractTextSections(post.body || '');
+	const lead = sections.find((section) => section.id === '');
+
+	return [
+		{ ...postDocument, content: lead?.text || '' },
+		...sections
+			.filter((section) => section.id !== '')
+			.map((section) => ({
+				...postDocument,
+				id: `${post.id}#${section.id}`,
+				type: 'section' as const,
+				title: section.heading,
+				description: postDocument.title,
+				content: section.text,
+				url: `${postDocument.url}#${section.id}`,
+				parentId: postDocument.id,
+				sectionId: section.id,
+			})),
+	];
+}
+
+/**
+ * Every slide of a presentation in deck order, with the slides stacked below each one
+ */
+function getAllSlides(presentation: Presentation): Slide[] {
+	return presentation.slides.flatMap((slide) => [slide, ...slide.getVerticalSlides()]);
+}
+
+/**
+ * Converts a whole presentation to a searchable format.
+ * Slide titles (vertical slides included) form the content so the deck matches on its outline.
+ */
+export function presentationToSearchable(
+	presentation: Presentation,
+	lang: Language
+): SearchableDocument {
+	return {
+		id: `presentation:${presentation.id}`,
+		type: 'presentation',
+		title: presentation.getTitle(),
+		description: presentation.getDescription(),
+		content: getAllSlides(presentation).map((slide) => slide.getTitle()).join(' '),
+		category: presentation.getCategory(),
+		tags: presentation.getTags(),
+		difficulty: presentation.getDifficulty(),
+		pubDate: presentation.getPubDate(),
+		slug: presentation.id,
+		language: lang,
+		url: `/${lang}/presentations/${presentation.id}/`,
+		// Decks share their folder name across languages
+		translationId: `presentation:${presentation.id}`,
+	};
+}
+
+/**
+ * Converts a single slide to a searchable format.
+ * The URL deep-links to the slide using reveal.js hash navigation (0-based);
+ * vertical slides are `#/h/v` and get ids like `presentation:slug#h/v`.
+ */
+export function slideToSearchable(
+	presentation: Presentation,
+	slide: Slide,
+	lang: Language
+): SearchableDocument {
+	const slideIndex = slide.getSlideNumber() - 1;
+	const position = slide.verticalIndex > 0 ? `${slideIndex}/${slide.verticalIndex}` : `${slideIndex}`;
+
+	return {
+		id: `presentation:${presentation.id}#${position}`,
+		type: 'slide',
+		title: slide.getTitle(),
+		description: presentation.getTitle(),
+		content: stripHtml(slide.getContent()),
+		category: presentation.getCategory(),
+		tags: presentation.getTags(),
+		difficulty: presentation.getDifficulty(),
+		pubDate: presentation.getPubDate(),
+		slug: presentation.id,
+		language: lang,
+		url: `/${lang}/presentations/${presentation.id}/${getSlideHash(slideIndex, slide.verticalIndex)}`,
+		translationId: `presentation:${presentation.id}`,
+		parentId: `presentation:${presentation.id}`,
+		presentationTitle: presentation.getTitle(),
+		slideNumber: slide.getSlideNumber(),
 	};
 }
 
+/**
+ * Converts a presentation into its deck entry followed by one entry per slide,
+ * vertical slides included
+ */
+export function presentationToSearchableDocuments(
+	presentation: Presentation,
+	lang: Language
+): SearchableDocument[] {
+	return [
+		presentationToSearchable(presentation, lang),
+		...getAllSlides(presentation).map((slide) => slideToSearchable(presentation, slide, lang)),
+	];
+}
+
+/**
+ * A normalised search term and the span of source text it came from
+ */
+export interface SearchToken {
+	term: string;
+	start: number;
+	end: number;
+}
+
+const STOP_WORDS: Record<Language, Set<string>> = {
+	en: new Set([
+		'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+		'has', 'have', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'than',
+		'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what',
+		'when', 'which', 'while', 'who', 'why', 'will', 'with', 'you', 'your',
+	]),
+	id: new Set([
+		'ada', 'adalah', 'agar', 'akan', 'anda', 'atau', 'bagi', 'bahwa', 'bisa', 'dalam', 'dan',
+		'dari', 'dengan', 'di', 'dia', 'harus', 'ini', 'itu', 'jika', 'juga', 'kami', 'karena', 'ke',
+		'kita', 'lebih', 'maka', 'masih', 'mereka', 'oleh', 'pada', 'saat', 'sangat', 'satu',
+		'sebagai', 'sudah', 'tidak', 'untuk', 'yaitu', 'yang',
+	]),
+};
+
+const VOWEL = /[aeiou]/;
+
+/**
+ * Light English stemmer: folds plurals, -ing/-ed/-ly and a trailing -e
+ * so "computing", "computed" and "compute" share a stem
+ */
+export function stemEnglish(word: string): string {
+	if (word.length <= 3) return word;
+
+	let stem = word;
+
+	if (stem.endsWith('ies') && stem.length > 4) {
+		stem = `${stem.slice(0, -3)}y`;
+	} else if (stem.endsWith('sses')) {
+		stem = stem.slice(0, -2);
+	} else if (/(sh|ch|x|z)es$/.test(stem)) {
+		stem = stem.slice(0, -2);
+	} else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+		stem = stem.slice(0, -1);
+	}
+
+	const suffix = stem.match(/(ing|ed|ly)$/)?.[0];
+	if (suffix && VOWEL.test(stem.slice(0, -suffix.length)) && stem.length - suffix.length >= 3) {
+		stem = stem.slice(0, -suffix.length);
+		// Undouble a final consonant: "fitting" -> "fitt" -> "fit"
+		if (/([^aeioulsz])\1$/.test(stem)) {
+			stem = stem.slice(0, -1);
+		}
+	}
+
+	if (stem.endsWith('e') && stem.length > 4) {
+		stem = stem.slice(0, -1);
+	}
+
+	return stem;
+}
+
+/**
+ * Strip one Indonesian prefix, recoding the nasal meN-/peN- forms.
+ * Without a root dictionary ambiguous recodings pick the most common
+ * root shape (e.g. "menentukan" -> "tentukan").
+ */
+function stripIndonesianPrefix(word: string): string {
+	const rules: [RegExp, string][] = [
+		[/^(?:meny|peny)([aeiou])/, 's$1'],
+		[/^(?:meng|peng)([aeiou])/, '$1'],
+		[/^(?:meng|peng)([ghkq])/, '$1'],
+		[/^(?:mem|pem)([bfv])/, '$1'],
+		[/^(?:mem|pem)([aeiou])/, 'p$1'],
+		[/^(?:mem|pem)(p)/, '$1'],
+		[/^(?:men|pen)([cdjzst])/, '$1'],
+		[/^(?:men|pen)([aeiou])/, 't$1'],
+		[/^(?:ber|per|ter)/, ''],
+		[/^(?:bel|pel)(ajar)/, '$1'],
+		[/^(?:me|pe)([lrwy])/, '$1'],
+		[/^(?:di|ke|se)/, ''],
+	];
+
+	for (const [pattern, replacement] of rules) {
+		if (pattern.test(word)) {
+			const stripped = word.replace(pattern, replacement);
+			return stripped.length >= 3 ? stripped : word;
+		}
+	}
+
+	return word;
+}
+
+/**
+ * Indonesian affix stripping (simplified Nazief-Adriani): removes
+ * particles (-lah, -kah, -pun), possessives (-ku, -mu, -nya), one
+ * derivational suffix (-kan, -an, -i) and up to two prefixes, so
+ * "meregresikan" and "regresi" share a stem
+ */
+export function stemIndonesian(word: string): string {
+	if (word.length <= 4) return word;
+
+	let stem = word
+		.replace(/(?<=.{3})(lah|kah|tah|pun)$/, '')
+		.replace(/(?<=.{3})(ku|mu|nya)$/, '');
+
+	// -i after "s" is usually part of a loanword root (regresi, fungsi)
+	const suffix = stem.match(/(kan|an|i)$/)?.[0];
+	if (suffix && stem.length - suffix.length >= 4 && !(suffix === 'i' && stem.endsWith('si'))) {
+		stem = stem.slice(0, -suffix.length);
+	}
+
+	for (let i = 0; i < 2; i++) {
+		const stripped = stripIndonesianPrefix(stem);
+		if (stripped === stem) break;
+		stem = stripped;
+	}
+
+	return stem;
+}
+
+/**
+ * Split text into normalised terms for the given language: lower-cased,
+ * stop words removed and stemmed. Each token remembers its source span
+ * so matches on normalised text can be highlighted in the original.
+ */
+export function analyzeText(text: string, lang: Language): SearchToken[] {
+	const stem = lang === 'id' ? stemIndonesian : stemEnglish;
+	const tokens: SearchToken[] = [];
+
+	for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+		const word = match[0].toLowerCase();
+		if (STOP_WORDS[lang].has(word)) continue;
+
+		const start = match.index ?? 0;
+		tokens.push({ term: stem(word), start, end: start + match[0].length });
+	}
+
+	return tokens;
+}
+
+/**
+ * Normalise text for indexing or querying in the given language
+ */
+export function normalizeText(text: string, lang: Language): string {
+	return analyzeText(text, lang).map((token) => token.term).join(' ');
+}
+
+/**
+ * Normalise a user query, keeping the raw query when it only contained stop words
+ */
+function normalizeQuery(query: string, lang: Language): string {
+	return normalizeText(query, lang) || query.trim().toLowerCase();
+}
+
+/**
+ * Map match ranges on normalised text back to ranges on the source text
+ */
+function toSourceIndices(
+	text: string,
+	lang: Language,
+	indices: ReadonlyArray<readonly [number, number]>
+): [number, number][] {
+	const tokens = analyzeText(text, lang);
+	const offsets: number[] = [];
+	let position = 0;
+	for (const token of tokens) {
+		offsets.push(position);
+		position += token.term.length + 1;
+	}
+
+	return indices.flatMap(([from, to]) => {
+		const covered = tokens.filter((token, i) =>
+			offsets[i] <= to && offsets[i] + token.term.length > from
+		);
+		return covered.length > 0
+			? [[covered[0].start, covered[covered.length - 1].end - 1] as [number, number]]
+			: [];
+	});
+}
+
+/**
+ * Language and documents of each index, so queries are normalised the same
+ * way as its documents and filter-only queries can list them
+ */
+const indexContexts = new WeakMap<
+	Fuse<SearchableDocument>,
+	{ language: Language; documents: SearchableDocument[] }
+>();
+
 /**
  * Fuse.js search options for optimal results
  */
-export const fuseOptions: Fuse.IFuseOptions<SearchablePost> = {
+export const fuseOptions: IFuseOptions<SearchableDocument> = {
 	keys: [
 		{ name: 'title', weight: 0.4 },
 		{ name: 'description', weight: 0.3 },
@@ -55,36 +489,474 @@ export const fuseOptions: Fuse.IFuseOptions<SearchablePost> = {
 	includeScore: true,
 	includeMatches: true,
 	ignoreLocation: true, // Search entire string, not just beginning
-	useExtendedSearch: false,
+	useExtendedSearch: true, // Needed for exact phrases in parsed queries
 };
 
 /**
- * Create a search index from posts
+ * Fuse options for a language: field values are normalised with each
+ * document's language analyser
  */
-export function createSearchIndex(posts: SearchablePost[]): Fuse<SearchablePost> {
-	return new Fuse(posts, fuseOptions);
+function createFuseOptions(lang: Language): IFuseOptions<SearchableDocument> {
+	return {
+		...fuseOptions,
+		getFn: (doc, path) => {
+			const value = Fuse.config.getFn(doc, path);
+			const language = doc.language ?? lang;
+			return Array.isArray(value)
+				? value.map((item) => normalizeText(String(item), language))
+				: normalizeText(String(value ?? ''), language);
+		},
+	};
+}
+
+/**
+ * Create a search index from documents.
+ * Field values are normalised with each document's language analyser.
+ */
+export function createSearchIndex(
+	documents: SearchableDocument[],
+	lang: Language = documents[0]?.language ?? 'en'
+): Fuse<SearchableDocument> {
+	const index = new Fuse(documents, createFuseOptions(lang));
+	indexContexts.set(index, { language: lang, documents });
+	return index;
 }
 
 /**
- * Search through posts with Fuse.js
+ * Split content into passages of roughly `maxLength` characters along
+ * sentence boundaries, recording where each starts in the normalised content.
+ * Only the first `excerptLength` characters of each passage are kept, which
+ * is enough for a snippet without shipping the whole body.
+ */
+export function createPassages(
+	content: string,
+	lang: Language,
+	maxLength: number = 200,
+	excerptLength: number = 100
+): SearchPassage[] {
+	const sentences = content.split(/(?<=[.!?:])\s+/).filter(Boolean);
+	const passages: SearchPassage[] = [];
+	let offset = 0;
+	let current = '';
+	let currentOffset = 0;
+
+	const flush = () => {
+		if (!current) return;
+		const text = current.length > excerptLength
+			? `${current.slice(0, excerptLength).replace(/\s+\S*$/, '')}…`
+			: current;
+		passages.push([currentOffset, text]);
+		current = '';
+	};
+
+	for (const sentence of sentences) {
+		const terms = analyzeText(sentence, lang);
+		if (terms.length === 0) continue;
+
+		if (current && current.length + sentence.length > maxLength) {
+			flush();
+		}
+		if (!current) currentOffset = offset;
+		current = current ? `${current} ${sentence}` : sentence;
+
+		offset += terms.reduce((length, token) => length + token.term.length + 1, 0);
+	}
+	flush();
+
+	return passages;
+}
+
+/**
+ * Build the prebuilt index payload for one language.
+ * The Fuse index is computed from the full documents, then bodies are
+ * replaced by passages so the payload doesn't ship them twice.
+ */
+export function createSearchIndexPayload(documents: SearchableDocument[], lang: Language): SearchIndexPayload {
+	const index = Fuse.createIndex(fuseOptions.keys ?? [], documents, { getFn: createFuseOptions(lang).getFn! });
+	const byId = new Map(documents.map((doc) => [doc.id, doc]));
+
+	return {
+		version: SEARCH_INDEX_VERSION,
+		language: lang,
+		index: index.toJSON(),
+		documents: documents.map(({ content, ...doc }) => {
+			const stored: SearchPayloadDocument = { ...doc, passages: createPassages(content, doc.language ?? lang) };
+			const parent = doc.parentId ? byId.get(doc.parentId) : undefined;
+
+			if (parent) {
+				for (const field of INHERITED_FIELDS) {
+					if (JSON.stringify(doc[field]) === JSON.stringify(parent[field])) {
+						delete stored[field];
+					}
+				}
+			}
+			return stored;
+		}),
+	};
+}
+
+/**
+ * Normalised text of each document in the index records, by document position.
+ * The records hold every indexed field already normalised, so they stand in
+ * for the bodies the payload doesn't ship.
+ */
+function getIndexedTexts(records: FuseIndexRecords): Map<number, string> {
+	const texts = new Map<number, string>();
+
+	for (const record of records) {
+		const values = '$' in record
+			? Object.values(record.$).flatMap((entry) => (Array.isArray(entry) ? entry : [entry]))
+			: [record];
+		texts.set(record.i, values.map((entry: { v: string }) => entry.v).join(' '));
+	}
+
+	return texts;
+}
+
+/**
+ * Rebuild full documents from a payload, copying inherited fields back
+ * from each parent. Bodies are not restored; passages stand in for them
+ * in snippets, and the indexed text in exclusions.
+ */
+export function restoreSearchDocuments(payload: SearchIndexPayload): SearchableDocument[] {
+	const byId = new Map(payload.documents.map((doc) => [doc.id, doc]));
+	const indexedTexts = getIndexedTexts(payload.index.records);
+
+	return payload.documents.map((doc, position) => {
+		const parent = doc.parentId ? byId.get(doc.parentId) : undefined;
+		const inherited: Partial<SearchableDocument> = {};
+
+		for (const field of INHERITED_FIELDS) {
+			if (!(field in doc) && parent && field in parent) {
+				Object.assign(inherited, { [field]: parent[field] });
+			}
+		}
+
+		return {
+			...inherited,
+			...doc,
+			content: '',
+			indexedText: indexedTexts.get(position) ?? '',
+		} as SearchableDocument;
+	});
+}
+
+/**
+ * Recreate a search index from a prebuilt payload without re-indexing
+ */
+export function createSearchIndexFromPayload(payload: SearchIndexPayload): Fuse<SearchableDocument> {
+	if (payload.version !== SEARCH_INDEX_VERSION) {
+		throw new Error(`Unsupported search index version ${payload.version}`);
+	}
+
+	const options = createFuseOptions(payload.language);
+	const documents = restoreSearchDocuments(payload);
+	const index = new Fuse(
+		documents,
+		options,
+		Fuse.parseIndex<SearchableDocument>(payload.index, { getFn: options.getFn! })
+	);
+	indexContexts.set(index, { language: payload.language, documents });
+	return index;
+}
+
+const indexRequests = new Map<Language, Promise<Fuse<SearchableDocument>>>();
+
+/**
+ * Fetch and load the prebuilt index for a language once; later calls share
+ * the same request. Failed requests are forgotten so they can be retried.
+ */
+export function fetchSearchIndex(lang: Language): Promise<Fuse<SearchableDocument>> {
+	let request = indexRequests.get(lang);
+
+	if (!request) {
+		request = fetch(`/search-index-${lang}.json`).then(async (response) => {
+			if (!response.ok) throw new Error(`Failed to load ${lang} search index`);
+			return createSearchIndexFromPayload(await response.json());
+		});
+		request.catch(() => indexRequests.delete(lang));
+		indexRequests.set(lang, request);
+	}
+
+	return request;
+}
+
+/**
+ * Filters a query can place on documents, mirroring BlogPostFilters
+ */
+export interface SearchQueryFilters {
+	category?: string;
+	difficulty?: 'beginner' | 'intermediate' | 'advanced';
+	/** AND logic - document must have all tags */
+	tags?: string[];
+	types?: SearchDocumentType[];
+}
+
+export type SearchQueryErrorCode =
+	| 'unclosedQuote'
+	| 'emptyFilter'
+	| 'unknownFilter'
+	| 'invalidFilterValue'
+	| 'duplicateFilter'
+	| 'negatedFilter'
+	| 'emptyExclusion';
+
+/**
+ * A problem found while parsing a query, reported to the search UI
+ */
+export interface SearchQueryError {
+	code: SearchQueryErrorCode;
+	token: string;
+	message: string;
+}
+
+/**
+ * A search query split into free text, exact phrases, exclusions and filters
+ */
+export interface ParsedSearchQuery {
+	terms: string[];
+	phrases: string[];
+	exclusions: string[];
+	filters: SearchQueryFilters;
+	errors: SearchQueryError[];
+}
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
+
+// Filtering by post or presentation also keeps their sections and slides
+const TYPE_FILTERS: Record<string, SearchDocumentType[]> = {
+	post: ['post', 'section'],
+	section: ['section'],
+	presentation: ['presentation', 'slide'],
+	slide: ['slide'],
+};
+
+const FILTER_FIELDS = ['tag', 'tags', 'difficulty', 'category', 'type'];
+
+/**
+ * Parse the search query language, e.g.
+ * `tag:regression difficulty:beginner "cost function" -calculus type:presentation`.
+ * Malformed parts are collected in `errors` instead of being dropped.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+	const parsed: ParsedSearchQuery = { terms: [], phrases: [], exclusions: [], filters: {}, errors: [] };
+	const addError = (code: SearchQueryErrorCode, token: string, message: string) => {
+		parsed.errors.push({ code, token, message });
+	};
+
+	let i = 0;
+	while (i < query.length) {
+		if (/\s/.test(query[i])) {
+			i++;
+			continue;
+		}
+
+		const start = i;
+		const negated = query[i] === '-';
+		if (negated) i++;
+
+		const field = /^([a-zA-Z]+):/.exec(query.slice(i))?.[1];
+		if (field) i += field.length + 1;
+
+		// Read a quoted value or a bare word
+		let value: string;
+		let quoted = false;
+		if (query[i] === '"') {
+			const end = query.indexOf('"', i + 1);
+			quoted = true;
+			if (end === -1) {
+				value = query.slice(i + 1);
+				i = query.length;
+				addError('unclosedQuote', query.slice(start), 'Missing closing quote');
+			} else {
+				value = query.slice(i + 1, end);
+				i = end + 1;
+			}
+		} else {
+			const end = query.slice(i).search(/\s/);
+			value = end === -1 ? query.slice(i) : query.slice(i, i + end);
+			i = end === -1 ? query.length : i + end;
+		}
+		value = value.trim();
+		const token = query.slice(start, i);
+
+		if (field) {
+			const name = field.toLowerCase();
+			if (!FILTER_FIELDS.includes(name)) {
+				addError('unknownFilter', token, `Unknown filter "${field}"`);
+			} else if (negated) {
+				addError('negatedFilter', token, `Filters cannot be excluded: "${token}"`);
+			} else if (!value) {
+				addError('emptyFilter', token, `Filter "${field}" needs a value`);
+			} else {
+				applyFilter(parsed, name, value, token, addError);
+			}
+			continue;
+		}
+
+		if (negated) {
+			if (value) {
+				parsed.exclusions.push(value);
+			} else {
+				addError('emptyExclusion', token, 'Nothing to exclude after "-"');
+			}
+		} else if (value) {
+			(quoted ? parsed.phrases : parsed.terms).push(value);
+		}
+	}
+
+	return parsed;
+}
+
+/**
+ * Apply a single `field:value` filter to a parsed query
+ */
+function applyFilter(
+	parsed: ParsedSearchQuery,
+	field: string,
+	value: string,
+	token: string,
+	addError: (code: SearchQueryErrorCode, token: string, message: string) => void
+): void {
+	const normalized = value.toLowerCase();
+	const { filters } = parsed;
+
+	switch (field) {
+		case 'tag':
+		case 'tags':
+			filters.tags = [...(filters.tags || []), ...normalized.split(',').filter(Boolean)];
+			break;
+		case 'difficulty':
+			if (!DIFFICULTIES.includes(normalized as typeof DIFFICULTIES[number])) {
+				addError('invalidFilterValue', token, `Difficulty must be one of: ${DIFFICULTIES.join(', ')}`);
+			} else if (filters.difficulty && filters.difficulty !== normalized) {
+				addError('duplicateFilter', token, 'Only one difficulty can be searched at a time');
+			} else {
+				filters.difficulty = normalized as typeof DIFFICULTIES[number];
+			}
+			break;
+		case 'category':
+			if (filters.category && filters.category !== normalized) {
+				addError('duplicateFilter', token, 'Only one category can be searched at a time');
+			} else {
+				filters.category = normalized;
+			}
+			break;
+		case 'type':
+			if (!TYPE_FILTERS[normalized]) {
+				addError('invalidFilterValue', token, `Type must be one of: ${Object.keys(TYPE_FILTERS).join(', ')}`);
+			} else {
+				filters.types = [...new Set([...(filters.types || []), ...TYPE_FILTERS[normalized]])];
+			}
+			break;
+	}
+}
+
+/**
+ * Check a document against query filters
+ */
+function matchesFilters(doc: SearchableDocument, filters: SearchQueryFilters): boolean {
+	if (filters.types && !filters.types.includes(doc.type)) {
+		return false;
+	}
+
+	if (filters.category && doc.category?.toLowerCase() !== filters.category) {
+		return false;
+	}
+
+	if (filters.difficulty && doc.difficulty !== filters.difficulty) {
+		return false;
+	}
+
+	if (filters.tags && filters.tags.length > 0) {
+		const docTags = (doc.tags || []).map((tag) => tag.toLowerCase());
+		return filters.tags.every((tag) => docTags.includes(tag));
+	}
+
+	return true;
+}
+
+/**
+ * Whether a document mentions any excluded word or phrase
+ */
+function matchesExclusions(doc: SearchableDocument, exclusions: string[], lang: Language): boolean {
+	// Prebuilt indexes have no bodies, only their indexed text
+	const text = ` ${doc.indexedText ?? normalizeText(
+		[
+			doc.title,
+			doc.description,
+			doc.content,
+			doc.category || '',
+			...(doc.tags || []),
+		].join(' '),
+		doc.language ?? lang
+	)} `;
+
+	return exclusions.some((exclusion) => {
+		const normalized = normalizeText(exclusion, lang) || exclusion.toLowerCase();
+		return text.includes(` ${normalized} `);
+	});
+}
+
+/**
+ * Search through documents with Fuse.js.
+ * Accepts the query language understood by `parseSearchQuery`; queries with
+ * errors return no results, so callers should parse first to report them.
  */
 export function searchPosts(
-	searchIndex: Fuse<SearchablePost>,
-	query: string,
+	searchIndex: Fuse<SearchableDocument>,
+	query: string | ParsedSearchQuery,
 	limit: number = 20
-): Fuse.FuseResult<SearchablePost>[] {
-	if (!query || query.trim().length < 2) {
+): FuseResult<SearchableDocument>[] {
+	if (typeof query === 'string' && (!query || query.trim().length < 2)) {
+		return [];
+	}
+
+	const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+	if (parsed.errors.length > 0) {
 		return [];
 	}
 
-	return searchIndex.search(query, { limit });
+	const { language: lang, documents } = indexContexts.get(searchIndex) ?? { language: 'en' as Language, documents: [] };
+	const keys = (fuseOptions.keys as { name: string }[]).map((key) => key.name);
+	const anyKey = (pattern: string) => ({ $or: keys.map((key) => ({ [key]: pattern })) });
+
+	// Every word must match some field (fuzzy); phrases must appear verbatim
+	const text = parsed.terms.join(' ');
+	const words = (normalizeText(text, lang) || text.toLowerCase()).split(/\s+/).filter(Boolean);
+	const clauses = [
+		...words.map((word) => anyKey(word)),
+		...parsed.phrases
+			.map((phrase) => normalizeText(phrase, lang))
+			.filter(Boolean)
+			.map((phrase) => anyKey(`'"${phrase}"`)),
+	];
+
+	const hasFilters = Object.keys(parsed.filters).length > 0 || parsed.exclusions.length > 0;
+
+	let results: FuseResult<SearchableDocument>[];
+	if (clauses.length > 0) {
+		results = searchIndex.search({ $and: clauses }, hasFilters ? undefined : { limit });
+	} else if (hasFilters) {
+		// Filter-only queries list whole posts and decks unless a type asks otherwise
+		results = documents
+			.map((item, refIndex) => ({ item, refIndex, score: 0, matches: [] }))
+			.filter(({ item }) => parsed.filters.types ? true : !item.parentId);
+	} else {
+		return [];
+	}
+
+	return results
+		.filter(({ item }) => matchesFilters(item, parsed.filters))
+		.filter(({ item }) => !matchesExclusions(item, parsed.exclusions, lang))
+		.slice(0, limit);
 }
 
 /**
  * Get search suggestions/autocomplete results
  */
 export function getSearchSuggestions(
-	searchIndex: Fuse<SearchablePost>,
+	searchIndex: Fuse<SearchableDocument>,
 	query: string,
 	limit: number = 5
 ): string[] {
@@ -92,8 +964,178 @@ export function getSearchSuggestions(
 		return [];
 	}
 
-	const results = searchIndex.search(query, { limit });
+	const lang = indexContexts.get(searchIndex)?.language ?? 'en';
+	const results = searchIndex.search(normalizeQuery(query, lang), { limit });
 
 	// Extract unique titles as suggestions
 	return [...new Set(results.map(result => result.item.title))].slice(0, limit);
 }
+
+/**
+ * Build an HTML snippet around the longest match in a Fuse result.
+ * Matched characters are wrapped in <mark>; the rest is escaped.
+ */
+export function createSnippet(
+	result: FuseResult<SearchableDocument>,
+	radius: number = 80
+): string {
+	const { item } = result;
+	const passages: SearchPassage[] = item.passages ?? (item.content ? [[0, item.content]] : []);
+	const match = result.matches?.find((m) => m.key === 'content' && m.indices.length > 0);
+	const fallback = passages[0]?.[1] || item.description;
+
+	if (!match || passages.length === 0) {
+		return escapeHtml(fallback.length > radius * 2 ? `${fallback.slice(0, radius * 2).trimEnd()}…` : fallback);
+	}
+
+	// Show the passage holding the longest match
+	const [longestFrom] = [...match.indices].sort((a, b) => (b[1] - b[0]) - (a[1] - a[0]))[0];
+	const [offset, text] = passages.filter(([start]) => start <= longestFrom).pop() ?? passages[0];
+
+	// Matches refer to the normalised content; map them back to the passage text
+	const indices = toSourceIndices(
+		text,
+		item.language,
+		match.indices.map(([from, to]) => [from - offset, to - offset] as [number, number])
+	);
+
+	if (indices.length === 0) {
+		return escapeHtml(text.length > radius * 2 ? `${text.slice(0, radius * 2).trimEnd()}…` : text);
+	}
+
+	// Centre the window on the longest matched run
+	const [longestStart, longestEnd] = [...indices].sort((a, b) => (b[1] - b[0]) - (a[1] - a[0]))[0];
+	const start = Math.max(0, longestStart - radius);
+	const end = Math.min(text.length, longestEnd + 1 + radius);
+
+	let snippet = '';
+	let cursor = start;
+	for (const [from, to] of [...indices].sort((a, b) => a[0] - b[0])) {
+		if (to < start || from >= end || from < cursor) continue;
+		snippet += escapeHtml(text.slice(cursor, from));
+		snippet += `<mark>${escapeHtml(text.slice(from, Math.min(to + 1, end)))}</mark>`;
+		cursor = Math.min(to + 1, end);
+	}
+	snippet += escapeHtml(text.slice(cursor, end));
+
+	return `${start > 0 ? '…' : ''}${snippet.trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Build a stand-in parent document from a section or slide when the
+ * post/deck itself didn't match the query
+ */
+function parentFromChild(child: SearchableDocument): SearchableDocument {
+	return {
+		id: child.parentId || child.id,
+		type: child.type === 'slide' ? 'presentation' : 'post',
+		title: child.presentationTitle || child.description,
+		description: '',
+		content: '',
+		category: child.category,
+		tags: child.tags,
+		difficulty: child.difficulty,
+		pubDate: child.pubDate,
+		slug: child.slug,
+		language: child.language,
+		url: child.url.split('#')[0],
+		translationId: child.translationId,
+		translatedVersions: child.translatedVersions,
+	};
+}
+
+/**
+ * Group flat Fuse results by the post or presentation they belong to.
+ * Groups keep the order of their best-scoring match.
+ */
+export function groupSearchResults(results: FuseResult<SearchableDocument>[]): SearchResultGroup[] {
+	const groups = new Map<string, SearchResultGroup>();
+
+	for (const result of results) {
+		const doc = result.item;
+		const score = result.score ?? 0;
+		const key = doc.parentId || doc.id;
+		let group = groups.get(key);
+
+		if (!doc.parentId) {
+			if (group) {
+				group.document = doc;
+				group.snippet = createSnippet(result);
+			} else {
+				groups.set(key, { document: doc, snippet: createSnippet(result), score, sections: [] });
+			}
+			continue;
+		}
+
+		if (!group) {
+			group = { document: parentFromChild(doc), snippet: '', score, sections: [] };
+			groups.set(key, group);
+		}
+		group.sections.push({ document: doc, snippet: createSnippet(result), score });
+	}
+
+	return [...groups.values()];
+}
+
+/**
+ * Search and group the results by post or presentation
+ */
+export function searchGrouped(
+	searchIndex: Fuse<SearchableDocument>,
+	query: string | ParsedSearchQuery,
+	limit: number = 20
+): SearchResultGroup[] {
+	// Sections and slides each take a result slot, so over-fetch before grouping
+	return groupSearchResults(searchPosts(searchIndex, query, limit * 5)).slice(0, limit);
+}
+
+/**
+ * Whether two documents are the same post or deck in different languages,
+ * linked by `translationId` or by `translatedVersions` slugs
+ */
+export function isTranslationOf(a: SearchableDocument, b: SearchableDocument): boolean {
+	if (a.language === b.language) return false;
+
+	return Boolean(
+		(a.translationId && a.translationId === b.translationId) ||
+		a.translatedVersions?.[b.language] === b.slug ||
+		b.translatedVersions?.[a.language] === a.slug
+	);
+}
+
+/**
+ * Render parse errors as list items using the translated message templates
+ */
+export function formatQueryErrors(
+	errors: SearchQueryError[],
+	messages: Record<SearchQueryErrorCode, string>
+): string {
+	return errors
+		.map((error) => `<li>${escapeHtml(messages[error.code].replace('{token}', error.token))}</li>`)
+		.join('');
+}
+
+/**
+ * Search the reader's language and fall back to the other language's index.
+ * Other-language hits that are translations of a primary result are dropped
+ * so a document available in both languages appears only once.
+ */
+export function searchAcrossLanguages(
+	searchIndex: Fuse<SearchableDocument>,
+	otherIndex: Fuse<SearchableDocument> | null,
+	query: string | ParsedSearchQuery,
+	limit: number = 20,
+	otherLimit: number = 5
+): CrossLanguageSearchResults {
+	const results = searchGrouped(searchIndex, query, limit);
+
+	if (!otherIndex) {
+		return { results, otherLanguageResults: [] };
+	}
+
+	const otherLanguageResults = searchGrouped(otherIndex, query, limit)
+		.filter((group) => !results.some((primary) => isTranslationOf(group.document, primary.document)))
+		.slice(0, otherLimit);
+
+	return { results, otherLanguageResults };
+}
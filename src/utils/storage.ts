@@ -0,0 +1,56 @@
+/**
+ * Browser storage helpers shared by the client-side trackers
+ * (learner progress, quiz scores)
+ */
+
+/**
+ * Resolve the storage a tracker should use
+ * @param storage - Storage implementation (defaults to localStorage if available)
+ * @returns The given storage, localStorage, or a no-op storage when neither exists
+ */
+export function resolveStorage(storage?: Storage): Storage {
+  if (storage) {
+    return storage;
+  }
+  if (typeof localStorage !== 'undefined') {
+    return localStorage;
+  }
+  return createNoOpStorage();
+}
+
+/**
+ * Create a no-op storage implementation for environments without storage
+ */
+export function createNoOpStorage(): Storage {
+  return {
+    getItem: () => null,
+    setItem: () => {},
+    removeItem: () => {},
+    clear: () => {},
+    key: () => null,
+    length: 0,
+  };
+}
+
+/**
+ * Create a storage kept in memory, e.g. for tests
+ * @param initial - Items to start with
+ */
+export function createMemoryStorage(initial: Record<string, string> = {}): Storage {
+  const items = new Map(Object.entries(initial));
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+    key: (index) => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+}
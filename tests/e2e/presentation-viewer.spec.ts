@@ -148,10 +148,10 @@ test.describe('Presentation Viewer', () => {
       await page.waitForTimeout(500);
 
       // Check localStorage
-      const progress = await page.evaluate((slug) => {
-        const data = localStorage.getItem('presentationProgress');
-        return data ? JSON.parse(data) : null;
-      }, presentationSlug);
+      const progress = await page.evaluate(() => {
+        const data = localStorage.getItem('learnerProgress');
+        return data ? JSON.parse(data).presentations : null;
+      });
 
       expect(progress).toBeTruthy();
       expect(progress[presentationSlug]).toBeDefined();
@@ -159,7 +159,7 @@ test.describe('Presentation Viewer', () => {
     });
 
     test('should resume from saved progress', async ({ page }) => {
-      // First, save progress at slide 3
+      // First, save progress at slide 3 in the format from before LearnerProgressStore (migrated on load)
       await page.goto(presentationUrl);
       await page.evaluate((slug) => {
         const progressData = {
@@ -217,8 +217,8 @@ test.describe('Presentation Viewer', () => {
 
       // Check that progress was updated
       const progress = await page.evaluate((slug) => {
-        const data = localStorage.getItem('presentationProgress');
-        return data ? JSON.parse(data)[slug] : null;
+        const data = localStorage.getItem('learnerProgress');
+        return data ? JSON.parse(data).presentations[slug] : null;
       }, presentationSlug);
 
       expect(progress.currentSlide).toBeGreaterThan(0);
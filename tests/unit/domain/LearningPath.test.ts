@@ -0,0 +1,150 @@
+/**
+ * Unit tests for LearningPath domain model
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LearningPath, LearningPathStep } from '../../../src/domain/learning/LearningPath';
+import type { LearningPathData } from '../../../src/domain/learning/LearningPath';
+
+describe('LearningPath', () => {
+  const createValidData = (overrides?: Partial<LearningPathData>): LearningPathData => ({
+    title: { en: 'Machine Learning Foundations', id: 'Dasar-Dasar Machine Learning' },
+    description: { en: 'Start here', id: 'Mulai di sini' },
+    difficulty: 'intermediate',
+    prerequisites: ['calculus-foundations'],
+    steps: [
+      { type: 'post', slug: 'linear-regression' },
+      { type: 'presentation', slug: 'linear-regression' },
+      { type: 'post', slug: { en: 'gradient-descent', id: 'penurunan-gradien' } },
+    ],
+    ...overrides,
+  });
+
+  describe('constructor', () => {
+    it('should create a valid learning path', () => {
+      const path = new LearningPath('ml-foundations', createValidData());
+
+      expect(path.id).toBe('ml-foundations');
+      expect(path.getStepCount()).toBe(3);
+      expect(path.steps[0].position).toBe(1);
+    });
+
+    it('should require a title in every language', () => {
+      const data = createValidData({ title: { en: 'Title', id: '' } });
+
+      expect(() => new LearningPath('ml-foundations', data)).toThrow('title is required in "id"');
+    });
+
+    it('should require at least one step', () => {
+      expect(() => new LearningPath('ml-foundations', createValidData({ steps: [] }))).toThrow(
+        'at least one step is required'
+      );
+    });
+
+    it('should reject invalid difficulty', () => {
+      const data = createValidData({ difficulty: 'expert' as any });
+
+      expect(() => new LearningPath('ml-foundations', data)).toThrow('invalid difficulty level');
+    });
+
+    it('should reject a path that is its own prerequisite', () => {
+      const data = createValidData({ prerequisites: ['ml-foundations'] });
+
+      expect(() => new LearningPath('ml-foundations', data)).toThrow('cannot be its own prerequisite');
+    });
+
+    it('should reject the same post appearing twice', () => {
+      const data = createValidData({
+        steps: [
+          { type: 'post', slug: 'linear-regression' },
+          { type: 'post', slug: { id: 'linear-regression' } },
+        ],
+      });
+
+      expect(() => new LearningPath('ml-foundations', data)).toThrow('appears more than once');
+    });
+
+    it('should allow a post and presentation with the same slug', () => {
+      expect(() => new LearningPath('ml-foundations', createValidData())).not.toThrow();
+    });
+  });
+
+  describe('localized text', () => {
+    it('should return title and description per language', () => {
+      const path = new LearningPath('ml-foundations', createValidData());
+
+      expect(path.getTitle('en')).toBe('Machine Learning Foundations');
+      expect(path.getTitle('id')).toBe('Dasar-Dasar Machine Learning');
+      expect(path.getDescription('id')).toBe('Mulai di sini');
+    });
+  });
+
+  describe('prerequisites', () => {
+    it('should return a copy of prerequisites', () => {
+      const path = new LearningPath('ml-foundations', createValidData());
+      const prerequisites = path.getPrerequisites();
+      prerequisites.push('other');
+
+      expect(path.getPrerequisites()).toEqual(['calculus-foundations']);
+      expect(path.hasPrerequisite('calculus-foundations')).toBe(true);
+      expect(path.hasPrerequisite('other')).toBe(false);
+    });
+  });
+
+  describe('getNeighbours', () => {
+    it('should return previous and next steps', () => {
+      const path = new LearningPath('ml-foundations', createValidData());
+      const neighbours = path.getNeighbours('presentation', 'linear-regression', 'en');
+
+      expect(neighbours?.current.position).toBe(2);
+      expect(neighbours?.previous?.type).toBe('post');
+      expect(neighbours?.next?.getSlug('en')).toBe('gradient-descent');
+    });
+
+    it('should have no previous step at the start and no next step at the end', () => {
+      const path = new LearningPath('ml-foundations', createValidData());
+
+      expect(path.getNeighbours('post', 'linear-regression', 'en')?.previous).toBeUndefined();
+      expect(path.getNeighbours('post', 'penurunan-gradien', 'id')?.next).toBeUndefined();
+    });
+
+    it('should match slugs per language and type', () => {
+      const path = new LearningPath('ml-foundations', createValidData());
+
+      expect(path.getNeighbours('post', 'penurunan-gradien', 'en')).toBeNull();
+      expect(path.contains('post', 'gradient-descent', 'en')).toBe(true);
+      expect(path.contains('presentation', 'gradient-descent', 'en')).toBe(false);
+    });
+  });
+});
+
+describe('LearningPathStep', () => {
+  it('should use a single slug for both languages', () => {
+    const step = new LearningPathStep({ type: 'post', slug: 'linear-regression' }, 1);
+
+    expect(step.getSlug('en')).toBe('linear-regression');
+    expect(step.getSlug('id')).toBe('linear-regression');
+    expect(step.getLanguages()).toEqual(['en', 'id']);
+  });
+
+  it('should support steps available in one language only', () => {
+    const step = new LearningPathStep({ type: 'post', slug: { en: 'fundamental-theorem-calculus' } }, 1);
+
+    expect(step.getSlug('id')).toBeUndefined();
+    expect(step.getLanguages()).toEqual(['en']);
+    expect(step.getUrl('id')).toBeUndefined();
+  });
+
+  it('should build post and presentation URLs', () => {
+    expect(new LearningPathStep({ type: 'post', slug: 'a' }, 1).getUrl('id')).toBe('/id/blog/a/');
+    expect(new LearningPathStep({ type: 'presentation', slug: 'a' }, 1).getUrl('en')).toBe('/en/presentations/a/');
+  });
+
+  it('should require a slug in at least one language', () => {
+    expect(() => new LearningPathStep({ type: 'post', slug: {} }, 3)).toThrow('step 3 needs a slug');
+  });
+
+  it('should reject unknown step types', () => {
+    expect(() => new LearningPathStep({ type: 'video' as any, slug: 'a' }, 1)).toThrow('Invalid learning path step type');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for PrerequisiteGraph domain service
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PrerequisiteGraph, type PrerequisiteNode } from '../../../src/domain/learning/PrerequisiteGraph';
+
+const post = (slug: string, prerequisites: string[] = []): PrerequisiteNode => ({
+  type: 'post',
+  slug,
+  prerequisites,
+});
+
+const presentation = (slug: string, prerequisites: string[] = []): PrerequisiteNode => ({
+  type: 'presentation',
+  slug,
+  prerequisites,
+});
+
+const keys = (graph: PrerequisiteGraph, slug: string, type: 'post' | 'presentation' = 'post') =>
+  graph.getReadingOrder({ type, slug }).map(PrerequisiteGraph.keyOf);
+
+describe('PrerequisiteGraph', () => {
+  describe('parseReference', () => {
+    it('should default to the type of the content listing the reference', () => {
+      expect(PrerequisiteGraph.parseReference('limits', 'post')).toEqual({ type: 'post', slug: 'limits' });
+      expect(PrerequisiteGraph.parseReference('limits', 'presentation')).toEqual({
+        type: 'presentation',
+        slug: 'limits',
+      });
+    });
+
+    it('should read an explicit type prefix', () => {
+      expect(PrerequisiteGraph.parseReference('presentation:limits', 'post')).toEqual({
+        type: 'presentation',
+        slug: 'limits',
+      });
+      expect(PrerequisiteGraph.parseReference(' post:limits ', 'presentation')).toEqual({
+        type: 'post',
+        slug: 'limits',
+      });
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept a graph without problems', () => {
+      const graph = new PrerequisiteGraph([
+        post('limits'),
+        post('derivatives', ['limits']),
+        presentation('derivatives', ['post:limits']),
+      ]);
+
+      expect(graph.validate()).toEqual([]);
+      expect(() => graph.assertValid()).not.toThrow();
+    });
+
+    it('should report missing prerequisites', () => {
+      const graph = new PrerequisiteGraph([post('derivatives', ['limits', 'presentation:derivatives'])]);
+
+      const problems = graph.validate();
+
+      expect(problems).toHaveLength(2);
+      expect(problems.every((problem) => problem.kind === 'missing')).toBe(true);
+      expect(problems[0].message).toContain('post:limits');
+      expect(problems[1].message).toContain('presentation:derivatives');
+    });
+
+    it('should report each cycle once', () => {
+      const graph = new PrerequisiteGraph([
+        post('a', ['b']),
+        post('b', ['c']),
+        post('c', ['a']),
+      ]);
+
+      const problems = graph.validate();
+
+      expect(problems).toHaveLength(1);
+      expect(problems[0].kind).toBe('cycle');
+      expect(problems[0].message).toBe('Prerequisite cycle: post:a → post:b → post:c → post:a');
+    });
+
+    it('should report content that lists itself as a cycle', () => {
+      const graph = new PrerequisiteGraph([post('a', ['a'])]);
+
+      expect(graph.findCycles()).toEqual([['post:a']]);
+    });
+
+    it('should detect cycles across posts and presentations', () => {
+      const graph = new PrerequisiteGraph([
+        post('a', ['presentation:a']),
+        presentation('a', ['post:a']),
+      ]);
+
+      expect(graph.findCycles()).toEqual([['post:a', 'presentation:a']]);
+    });
+
+    it('should throw with every problem and the context', () => {
+      const graph = new PrerequisiteGraph([post('a', ['b', 'missing']), post('b', ['a'])]);
+
+      expect(() => graph.assertValid('en')).toThrow(/Invalid prerequisites \(en\)/);
+      expect(() => graph.assertValid('en')).toThrow(/post:missing[\s\S]*cycle/);
+    });
+  });
+
+  describe('getReadingOrder', () => {
+    it('should list transitive prerequisites after their own prerequisites', () => {
+      const graph = new PrerequisiteGraph([
+        post('functions'),
+        post('limits', ['functions']),
+        post('derivatives', ['limits']),
+        post('gradient-descent', ['derivatives', 'linear-regression']),
+        post('linear-regression', ['functions']),
+      ]);
+
+      expect(keys(graph, 'gradient-descent')).toEqual([
+        'post:functions',
+        'post:limits',
+        'post:derivatives',
+        'post:linear-regression',
+      ]);
+    });
+
+    it('should list shared prerequisites once', () => {
+      const graph = new PrerequisiteGraph([
+        post('a'),
+        post('b', ['a']),
+        post('c', ['a']),
+        post('d', ['b', 'c']),
+      ]);
+
+      expect(keys(graph, 'd')).toEqual(['post:a', 'post:b', 'post:c']);
+    });
+
+    it('should follow references across types', () => {
+      const graph = new PrerequisiteGraph([
+        post('linear-regression'),
+        presentation('gradient-descent', ['post:linear-regression']),
+      ]);
+
+      expect(keys(graph, 'gradient-descent', 'presentation')).toEqual(['post:linear-regression']);
+    });
+
+    it('should return an empty list for content without prerequisites', () => {
+      const graph = new PrerequisiteGraph([post('a')]);
+
+      expect(keys(graph, 'a')).toEqual([]);
+      expect(keys(graph, 'unknown')).toEqual([]);
+    });
+
+    it('should skip missing references and stop at cycles', () => {
+      const graph = new PrerequisiteGraph([
+        post('a', ['b', 'missing']),
+        post('b', ['a']),
+      ]);
+
+      expect(keys(graph, 'a')).toEqual(['post:b']);
+    });
+  });
+
+  describe('getDirectPrerequisites', () => {
+    it('should return a copy of the parsed references', () => {
+      const graph = new PrerequisiteGraph([post('a'), post('b', ['a', 'presentation:x'])]);
+
+      const direct = graph.getDirectPrerequisites({ type: 'post', slug: 'b' });
+      direct.pop();
+
+      expect(graph.getDirectPrerequisites({ type: 'post', slug: 'b' })).toEqual([
+        { type: 'post', slug: 'a' },
+        { type: 'presentation', slug: 'x' },
+      ]);
+    });
+  });
+});
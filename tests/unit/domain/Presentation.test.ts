@@ -131,6 +131,77 @@ describe('Presentation', () => {
     });
   });
 
+  describe('display settings', () => {
+    it('should default to the instagram mode and the site theme', () => {
+      const presentation = new Presentation('test', createValidMetadata(), createValidSlides());
+
+      expect(presentation.getDisplayMode()).toBe('instagram');
+      expect(presentation.getTheme()).toBe('custom');
+      expect(presentation.getRevealSettings()).toEqual({});
+      expect(presentation.getCompletionSettings()).toEqual({});
+    });
+
+    it('should return the settings of the metadata', () => {
+      const metadata = {
+        ...createValidMetadata(),
+        displayMode: 'fullscreen' as const,
+        theme: 'night',
+        reveal: { loop: true },
+        completion: { minShare: 0.5 },
+      };
+      const presentation = new Presentation('test', metadata, createValidSlides());
+
+      expect(presentation.getDisplayMode()).toBe('fullscreen');
+      expect(presentation.getTheme()).toBe('night');
+      expect(presentation.getRevealSettings()).toEqual({ loop: true });
+      expect(presentation.getCompletionSettings()).toEqual({ minShare: 0.5 });
+    });
+  });
+
+  describe('vertical slides', () => {
+    const createSlidesWithSection = (): SlideData[] => [
+      createValidSlides()[0],
+      {
+        ...createValidSlides()[1],
+        verticalSlides: [
+          { title: 'Detail 1', content: '<p>One</p>' },
+          { title: 'Detail 2', content: '<p>Two</p>' },
+        ],
+      },
+    ];
+
+    it('should count sections and all slides separately', () => {
+      const presentation = new Presentation('test', createValidMetadata(), createSlidesWithSection());
+
+      expect(presentation.getSlideCount()).toBe(2);
+      expect(presentation.getTotalSlideCount()).toBe(4);
+      expect(presentation.hasVerticalSlides()).toBe(true);
+    });
+
+    it('should find slides by their reveal.js indices', () => {
+      const presentation = new Presentation('test', createValidMetadata(), createSlidesWithSection());
+
+      expect(presentation.getSlideAt(1)?.getTitle()).toBe('Main Content');
+      expect(presentation.getSlideAt(1, 2)?.getTitle()).toBe('Detail 2');
+      expect(presentation.getSlideAt(0, 1)).toBeUndefined();
+      expect(presentation.getSlideAt(5)).toBeUndefined();
+    });
+
+    it('should plan vertical slides within the time of their section', () => {
+      const presentation = new Presentation('test', createValidMetadata(), createSlidesWithSection());
+
+      expect(presentation.getSchedule()).toHaveLength(2);
+      expect(presentation.calculateTotalTime()).toBe(90);
+    });
+
+    it('should report no vertical slides for a flat deck', () => {
+      const presentation = new Presentation('test', createValidMetadata(), createValidSlides());
+
+      expect(presentation.hasVerticalSlides()).toBe(false);
+      expect(presentation.getTotalSlideCount()).toBe(2);
+    });
+  });
+
   describe('hasTag', () => {
     it('should return true for existing tag (case insensitive)', () => {
       const presentation = new Presentation('test', createValidMetadata(), createValidSlides());
@@ -207,4 +278,66 @@ describe('Presentation', () => {
       expect(json.slides.length).toBe(2);
     });
   });
+
+  describe('timing', () => {
+    const createRangedSlides = (times: string[]): SlideData[] =>
+      times.map((time, index) => ({ title: `Slide ${index + 1}`, time, content: '<p>Content</p>' }));
+
+    it('should place ranges in the deck and chain durations', () => {
+      const presentation = new Presentation(
+        'test-slug',
+        { ...createValidMetadata(), totalSlides: 3 },
+        createRangedSlides(['0:00-2:00', '2:00-5:00', '01:00'])
+      );
+
+      expect(presentation.getSchedule().map(({ start, end, duration }) => ({ start, end, duration }))).toEqual([
+        { start: 0, end: 120, duration: 120 },
+        { start: 120, end: 300, duration: 180 },
+        { start: 300, end: 360, duration: 60 },
+      ]);
+    });
+
+    it('should reconcile the planned time with the estimated time', () => {
+      const presentation = new Presentation(
+        'test-slug',
+        { ...createValidMetadata(), estimatedTime: 10, totalSlides: 3 },
+        createRangedSlides(['0:00-2:00', '5:00-8:00', '7:30-10:00'])
+      );
+
+      const summary = presentation.getTimingSummary();
+
+      expect(summary).toEqual({
+        plannedSeconds: 600,
+        slideSeconds: 450,
+        estimatedSeconds: 600,
+        differenceSeconds: 0,
+        gaps: [{ slideNumber: 2, seconds: 180 }],
+        overlaps: [{ slideNumber: 3, seconds: 30 }],
+        untimedSlides: [],
+      });
+      expect(presentation.hasConsistentTiming()).toBe(false);
+    });
+
+    it('should accept plans within a minute of the estimate', () => {
+      const presentation = new Presentation(
+        'test-slug',
+        { ...createValidMetadata(), estimatedTime: 5, totalSlides: 2 },
+        createRangedSlides(['0:00-2:00', '2:00-5:45'])
+      );
+
+      expect(presentation.getTimingSummary().differenceSeconds).toBe(45);
+      expect(presentation.hasConsistentTiming()).toBe(true);
+    });
+
+    it('should report slides without a readable time', () => {
+      const presentation = new Presentation(
+        'test-slug',
+        { ...createValidMetadata(), estimatedTime: 1, totalSlides: 2 },
+        createRangedSlides(['01:00', 'later'])
+      );
+
+      expect(presentation.getTimingSummary().untimedSlides).toEqual([2]);
+      expect(presentation.hasConsistentTiming()).toBe(false);
+    });
+  });
 });
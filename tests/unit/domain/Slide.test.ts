@@ -78,6 +78,22 @@ describe('Slide', () => {
       const slide = new Slide(data, 1);
 
       expect(slide.getEstimatedTime()).toBe(0);
+      expect(slide.getTiming()).toBeNull();
+    });
+
+    it('should use the length of a time range', () => {
+      const data = { ...createValidSlideData(), time: '7:00-10:00' };
+      const slide = new Slide(data, 1);
+
+      expect(slide.getEstimatedTime()).toBe(180);
+      expect(slide.getTiming()!.getStart()).toBe(420);
+    });
+
+    it('should parse durations in minutes', () => {
+      const data = { ...createValidSlideData(), time: '5 min' };
+      const slide = new Slide(data, 1);
+
+      expect(slide.getEstimatedTime()).toBe(300);
     });
   });
 
@@ -178,5 +194,59 @@ describe('Slide', () => {
       expect(json.time).toBe(data.time);
       expect(json.content).toBe(data.content);
     });
+  
+    it('should serialize vertical slides without their section time', () => {
+      const slide = new Slide({ ...createValidSlideData(), verticalSlides: [{ title: 'Detail', content: '<p>Detail</p>' }] }, 1);
+
+      expect(slide.toJSON().verticalSlides).toEqual([
+        expect.objectContaining({ title: 'Detail', content: '<p>Detail</p>' }),
+      ]);
+      expect(slide.toJSON().verticalSlides![0]).not.toHaveProperty('time');
+    });
+  });
+
+  describe('vertical slides', () => {
+    const createSection = (): SlideData => ({
+      ...createValidSlideData(),
+      verticalSlides: [
+        { title: 'Detail 1', content: '<p>One</p>', fragments: true },
+        { title: 'Detail 2', content: '<p>Two</p>' },
+      ],
+    });
+
+    it('should stack vertical slides below the slide', () => {
+      const slide = new Slide(createSection(), 3);
+
+      expect(slide.hasVerticalSlides()).toBe(true);
+      expect(slide.getSectionSize()).toBe(3);
+      expect(slide.getVerticalSlides().map((child) => child.getTitle())).toEqual(['Detail 1', 'Detail 2']);
+      expect(slide.getVerticalSlides()[0].hasFragments()).toBe(true);
+    });
+
+    it('should number vertical slides within their section', () => {
+      const [first, second] = new Slide(createSection(), 3).getVerticalSlides();
+
+      expect(first.getSlideNumber()).toBe(3);
+      expect(first.getVerticalIndex()).toBe(1);
+      expect(first.isVerticalSlide()).toBe(true);
+      expect(first.getLabel()).toBe('3.2');
+      expect(second.getLabel()).toBe('3.3');
+      expect(new Slide(createSection(), 3).getLabel()).toBe('3');
+    });
+
+    it('should share the time of the section', () => {
+      const [first] = new Slide(createSection(), 1).getVerticalSlides();
+
+      expect(first.getFormattedTime()).toBe('01:30');
+      expect(first.isTitleSlide()).toBe(false);
+    });
+
+    it('should have no vertical slides by default', () => {
+      const slide = new Slide(createValidSlideData(), 1);
+
+      expect(slide.hasVerticalSlides()).toBe(false);
+      expect(slide.getSectionSize()).toBe(1);
+      expect(slide.isVerticalSlide()).toBe(false);
+    });
   });
 });
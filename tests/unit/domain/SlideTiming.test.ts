@@ -0,0 +1,82 @@
+/**
+ * Unit tests for SlideTiming value object
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SlideTiming } from '../../../src/domain/presentation/SlideTiming';
+
+describe('SlideTiming', () => {
+  describe('parse', () => {
+    it('should parse time ranges', () => {
+      const timing = SlideTiming.parse('7:00-10:00');
+
+      expect(timing.isRange()).toBe(true);
+      expect(timing.getStart()).toBe(420);
+      expect(timing.getEnd()).toBe(600);
+      expect(timing.getDuration()).toBe(180);
+    });
+
+    it('should parse ranges with hours and spaces', () => {
+      const timing = SlideTiming.parse('59:00 - 1:02:30');
+
+      expect(timing.getStart()).toBe(3540);
+      expect(timing.getDuration()).toBe(210);
+    });
+
+    it.each([
+      ['02:30', 150],
+      ['01:02:30', 3750],
+      ['3 min', 180],
+      ['2.5 minutes', 150],
+      ['1 minute', 60],
+      ['45s', 45],
+      ['90 seconds', 90],
+    ])('should parse the duration %s', (value, seconds) => {
+      const timing = SlideTiming.parse(value);
+
+      expect(timing.isRange()).toBe(false);
+      expect(timing.getStart()).toBeUndefined();
+      expect(timing.getDuration()).toBe(seconds);
+    });
+
+    it('should reject ranges that end before they start', () => {
+      expect(() => SlideTiming.parse('10:00-7:00')).toThrow('ends before it starts');
+    });
+
+    it.each(['', 'soon', '2:75', '5 hours', '1:00-'])('should reject %j', (value) => {
+      expect(() => SlideTiming.parse(value)).toThrow('Invalid slide time');
+      expect(SlideTiming.tryParse(value)).toBeNull();
+    });
+  });
+
+  describe('fromDuration', () => {
+    it('should create a duration', () => {
+      expect(SlideTiming.fromDuration(90).getDuration()).toBe(90);
+    });
+
+    it('should reject negative durations', () => {
+      expect(() => SlideTiming.fromDuration(-1)).toThrow();
+    });
+  });
+
+  describe('formatting', () => {
+    it.each([
+      [0, '0:00'],
+      [65, '1:05'],
+      [3725, '1:02:05'],
+      [-30, '-0:30'],
+    ])('should format %i seconds as %s', (seconds, text) => {
+      expect(SlideTiming.formatClock(seconds)).toBe(text);
+    });
+
+    it('should format in canonical form', () => {
+      expect(SlideTiming.parse('07:00 - 10:00').toString()).toBe('7:00-10:00');
+      expect(SlideTiming.parse('3 min').toString()).toBe('3:00');
+    });
+
+    it('should compare timings by value', () => {
+      expect(SlideTiming.parse('3 min').equals(SlideTiming.parse('03:00'))).toBe(true);
+      expect(SlideTiming.parse('0:00-3:00').equals(SlideTiming.parse('03:00'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for ContentCollectionLearningPathRepository
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { ContentCollectionLearningPathRepository } from '../../../src/infrastructure/learning/ContentCollectionLearningPathRepository';
+
+describe('ContentCollectionLearningPathRepository', () => {
+  let repository: ContentCollectionLearningPathRepository;
+
+  beforeEach(() => {
+    repository = new ContentCollectionLearningPathRepository();
+    repository.clearCache();
+  });
+
+  describe('findAll', () => {
+    it('should load every learning path in the collection', async () => {
+      const paths = await repository.findAll();
+
+      expect(paths.map((p) => p.id)).toContain('machine-learning-foundations');
+      expect(paths.every((p) => p.getStepCount() > 0)).toBe(true);
+    });
+
+    it('should only reference posts and presentations that exist', async () => {
+      const paths = await repository.findAll();
+      const contentDir = path.join(process.cwd(), 'src/content');
+
+      for (const learningPath of paths) {
+        for (const step of learningPath.steps) {
+          const exists = step.getLanguages().some((lang) => {
+            const slug = step.getSlug(lang)!;
+            return step.type === 'post'
+              ? ['md', 'mdx'].some((ext) => fs.existsSync(path.join(contentDir, `blog-${lang}`, `${slug}.${ext}`)))
+              : fs.existsSync(path.join(contentDir, `presentations-${lang}`, slug, 'metadata.json'));
+          });
+
+          expect(exists, `${learningPath.id} step ${step.position}`).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('findById', () => {
+    it('should find a path with its prerequisites', async () => {
+      const learningPath = await repository.findById('machine-learning-foundations');
+
+      expect(learningPath?.getPrerequisites()).toEqual(['calculus-foundations']);
+    });
+
+    it('should return null for unknown paths', async () => {
+      expect(await repository.findById('unknown')).toBeNull();
+    });
+  });
+
+  describe('findContaining', () => {
+    it('should find paths that include a post', async () => {
+      const paths = await repository.findContaining('post', 'linear-regression', 'id');
+
+      expect(paths.map((p) => p.id)).toEqual(['machine-learning-foundations']);
+    });
+  });
+});
@@ -2,10 +2,12 @@
  * Unit tests for FileSystemPresentationRepository
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { FileSystemPresentationRepository } from '../../../src/infrastructure/presentation/FileSystemPresentationRepository';
 import type { Language } from '../../../src/domain/blog/types';
 import path from 'path';
+import fs from 'fs';
+import os from 'os';
 
 describe('FileSystemPresentationRepository', () => {
   let repository: FileSystemPresentationRepository;
@@ -225,6 +227,293 @@ describe('FileSystemPresentationRepository', () => {
     });
   });
 
+  describe('slide attributes and speaker notes', () => {
+    it('should load attributes from slide-metadata.json', async () => {
+      const presentation = await repository.findBySlug('gradient-descent-linear-regression', 'en');
+
+      expect(presentation!.getSlideByNumber(18)!.hasFragments()).toBe(true);
+      expect(presentation!.getSlideByNumber(22)!.getTransition()).toBe('fade');
+      expect(presentation!.getSlideByNumber(22)!.getBackground()).toContain('linear-gradient');
+      expect(presentation!.getSlideByNumber(2)!.hasFragments()).toBe(false);
+    });
+
+    it('should render companion notes files as HTML', async () => {
+      const presentation = await repository.findBySlug('gradient-descent-linear-regression', 'id');
+      const notes = presentation!.getSlideByNumber(1)!.getNotes();
+
+      expect(notes).toContain('<li>');
+      expect(notes).toContain('<strong>delapan kali</strong>');
+      expect(presentation!.getSlideByNumber(2)!.hasNotes()).toBe(false);
+    });
+
+    it('should fall back to inline notes when there is no notes file', async () => {
+      const contentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'presentations-'));
+      const deckDir = path.join(contentDir, 'presentations-en', 'deck');
+      fs.mkdirSync(deckDir, { recursive: true });
+      fs.writeFileSync(path.join(deckDir, 'metadata.json'), JSON.stringify({
+        title: 'Deck',
+        description: 'A deck',
+        pubDate: '2025-01-01',
+        category: 'Test',
+        tags: [],
+        difficulty: 'beginner',
+        language: 'en',
+        estimatedTime: 5,
+        totalSlides: 2,
+        author: 'Test',
+      }));
+      fs.writeFileSync(path.join(deckDir, 'slide-metadata.json'), JSON.stringify([
+        { slideNumber: 1, title: 'One', time: '0:00-1:00', fileName: 'slide-01.html', notes: 'Inline *notes*' },
+        { slideNumber: 2, title: 'Two', time: '1:00-2:00', fileName: 'slide-02.html', notes: 'Ignored' },
+      ]));
+      fs.writeFileSync(path.join(deckDir, 'slide-01.html'), '<p>One</p>');
+      fs.writeFileSync(path.join(deckDir, 'slide-02.html'), '<p>Two</p>');
+      fs.writeFileSync(path.join(deckDir, 'slide-02.notes.md'), 'From the **file**');
+
+      try {
+        const presentation = await new FileSystemPresentationRepository(contentDir).findBySlug('deck', 'en');
+
+        expect(presentation!.getSlideByNumber(1)!.getNotes()).toBe('<p>Inline <em>notes</em></p>');
+        expect(presentation!.getSlideByNumber(2)!.getNotes()).toBe('<p>From the <strong>file</strong></p>');
+      } finally {
+        fs.rmSync(contentDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('validation report', () => {
+    let contentDir: string;
+
+    const metadata = {
+      title: 'Deck',
+      description: 'A deck',
+      pubDate: '2025-01-01',
+      category: 'Test',
+      tags: [],
+      difficulty: 'beginner',
+      language: 'en',
+      estimatedTime: 2,
+      totalSlides: 2,
+      author: 'Test',
+    };
+
+    const slideMetadata = [
+      { slideNumber: 1, title: 'One', time: '0:00-1:00', fileName: 'slide-01.html' },
+      { slideNumber: 2, title: 'Two', time: '1:00-2:00', fileName: 'slide-02.html' },
+    ];
+
+    const writeDeck = (slug: string, files: Record<string, unknown>, language: Language = 'en') => {
+      const deckDir = path.join(contentDir, `presentations-${language}`, slug);
+      fs.mkdirSync(deckDir, { recursive: true });
+      for (const [file, content] of Object.entries(files)) {
+        fs.writeFileSync(
+          path.join(deckDir, file),
+          typeof content === 'string' ? content : JSON.stringify(content)
+        );
+      }
+    };
+
+    beforeEach(() => {
+      contentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'presentations-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(contentDir, { recursive: true, force: true });
+    });
+
+    it('should report no problems for the real presentations', async () => {
+      const report = await repository.validateAll();
+
+      expect(report.getIssues()).toEqual([]);
+      expect(() => report.assertValid()).not.toThrow();
+    });
+
+    it('should load a valid deck', async () => {
+      writeDeck('deck', {
+        'metadata.json': metadata,
+        'slide-metadata.json': slideMetadata,
+        'slide-01.html': '<p>One</p>',
+        'slide-02.html': '<p>Two</p>',
+      });
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      expect(await fixtureRepository.findBySlug('deck', 'en')).not.toBeNull();
+      expect(fixtureRepository.getReport().hasIssues()).toBe(false);
+    });
+
+    it('should collect every problem across decks', async () => {
+      writeDeck('bad-date', {
+        'metadata.json': { ...metadata, pubDate: '2025-02-30', difficulty: 'expert' },
+        'slide-metadata.json': slideMetadata,
+        'slide-01.html': '<p>One</p>',
+        'slide-02.html': '<p>Two</p>',
+      });
+      writeDeck('missing-slide', {
+        'metadata.json': { ...metadata, totalSlides: 3 },
+        'slide-metadata.json': slideMetadata,
+        'slide-01.html': '<p>One</p>',
+      });
+      writeDeck('broken-json', {
+        'metadata.json': metadata,
+        'slide-metadata.json': '[{',
+      });
+      writeDeck('wrong-language', {
+        'metadata.json': { ...metadata, language: 'en' },
+        'slide-metadata.json': slideMetadata,
+      }, 'id');
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      const report = await fixtureRepository.validateAll();
+      const summary = report.getIssues().map(({ slug, kind, file, path }) => ({ slug, kind, file, path }));
+
+      expect(summary).toEqual(expect.arrayContaining([
+        { slug: 'bad-date', kind: 'invalid-metadata', file: 'metadata.json', path: 'pubDate' },
+        { slug: 'bad-date', kind: 'invalid-metadata', file: 'metadata.json', path: 'difficulty' },
+        { slug: 'missing-slide', kind: 'slide-count-mismatch', file: 'metadata.json', path: 'totalSlides' },
+        { slug: 'missing-slide', kind: 'missing-file', file: 'slide-02.html', path: undefined },
+        { slug: 'broken-json', kind: 'invalid-json', file: 'slide-metadata.json', path: undefined },
+        { slug: 'wrong-language', kind: 'language-mismatch', file: 'metadata.json', path: 'language' },
+      ]));
+      expect(summary).toHaveLength(6);
+      expect(await fixtureRepository.findAll('en')).toEqual([]);
+    });
+
+    it('should report slide timings that do not add up', async () => {
+      writeDeck('deck', {
+        'metadata.json': { ...metadata, estimatedTime: 10 },
+        'slide-metadata.json': [slideMetadata[0], { ...slideMetadata[1], time: '0:30-2:00' }],
+        'slide-01.html': '<p>One</p>',
+        'slide-02.html': '<p>Two</p>',
+      });
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      expect(await fixtureRepository.findBySlug('deck', 'en')).not.toBeNull();
+      expect(fixtureRepository.getReport().getIssues().map(({ kind, path, message }) => ({ kind, path, message }))).toEqual([
+        { kind: 'timing-mismatch', path: '1.time', message: 'Slide 2 starts 0:30 before the previous slide ends' },
+        { kind: 'timing-mismatch', path: undefined, message: 'Slides are planned for 2:00 but estimatedTime in metadata.json is 10 min' },
+      ]);
+    });
+
+    it('should report a problem once when a deck is loaded again', async () => {
+      writeDeck('deck', { 'metadata.json': { ...metadata, title: '' } });
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      await fixtureRepository.findBySlug('deck', 'en');
+      await fixtureRepository.findAllWithLanguages();
+
+      expect(fixtureRepository.getReport().getIssuesFor('deck', 'en')).toHaveLength(1);
+    });
+
+    it('should throw a readable error listing all problems', async () => {
+      writeDeck('deck', {
+        'metadata.json': metadata,
+        'slide-metadata.json': [slideMetadata[0], { ...slideMetadata[1], time: 'soon' }],
+        'slide-01.html': '<p>One</p>',
+      });
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      const report = await fixtureRepository.validateAll();
+
+      expect(() => report.assertValid()).toThrow(
+        /Invalid presentations \(1 problems\):\npresentations-en\/deck:\n  - slide-metadata.json \(1\.time\): Time must be/
+      );
+    });
+
+    it('should compile Markdown slides and their vertical slides', async () => {
+      writeDeck('deck', {
+        'metadata.json': metadata,
+        'slide-metadata.json': [slideMetadata[0], { ...slideMetadata[1], fileName: 'slide-02.md' }],
+        'slide-01.html': '<p>One</p>',
+        'slide-02.md': '# Two\n\n$x^2$\n\n--\n\nBelow',
+      });
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      const slide = (await fixtureRepository.findBySlug('deck', 'en'))!.getSlideByNumber(2)!;
+
+      expect(slide.getContent()).toContain('<h1>Two</h1>');
+      expect(slide.getContent()).toContain('class="katex"');
+      expect(slide.getVerticalSlides().map((child) => child.getContent())).toEqual(['<p>Below</p>']);
+      expect(slide.getVerticalSlides()[0].getTitle()).toBe(slide.getTitle());
+      expect(fixtureRepository.getReport().hasIssues()).toBe(false);
+    });
+
+    it('should load the vertical slides of a section after its Markdown parts', async () => {
+      writeDeck('deck', {
+        'metadata.json': metadata,
+        'slide-metadata.json': [
+          slideMetadata[0],
+          {
+            ...slideMetadata[1],
+            fileName: 'slide-02.md',
+            verticalSlides: [
+              { title: 'Detail', fileName: 'slide-03.html', notes: 'Skip if short on time', fragments: true },
+            ],
+          },
+        ],
+        'slide-01.html': '<p>One</p>',
+        'slide-02.md': 'Two\n\n--\n\nBelow',
+        'slide-03.html': '<p>Detail</p>',
+      });
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      const presentation = (await fixtureRepository.findBySlug('deck', 'en'))!;
+      const [below, detail] = presentation.getSlideByNumber(2)!.getVerticalSlides();
+
+      expect(presentation.getSlideCount()).toBe(2);
+      expect(presentation.getTotalSlideCount()).toBe(4);
+      expect(below.getContent()).toBe('<p>Below</p>');
+      expect(detail.getTitle()).toBe('Detail');
+      expect(detail.getContent()).toBe('<p>Detail</p>');
+      expect(detail.getNotes()).toContain('Skip if short on time');
+      expect(detail.hasFragments()).toBe(true);
+      expect(detail.getLabel()).toBe('2.3');
+    });
+
+    it('should report missing vertical slide files', async () => {
+      writeDeck('deck', {
+        'metadata.json': metadata,
+        'slide-metadata.json': [
+          slideMetadata[0],
+          { ...slideMetadata[1], verticalSlides: [{ title: 'Detail', fileName: 'slide-03.html' }] },
+        ],
+        'slide-01.html': '<p>One</p>',
+        'slide-02.html': '<p>Two</p>',
+      });
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      expect(await fixtureRepository.findBySlug('deck', 'en')).toBeNull();
+      expect(fixtureRepository.getReport().getIssues()).toEqual([
+        expect.objectContaining({
+          kind: 'missing-file',
+          file: 'slide-03.html',
+          message: 'File not found for a vertical slide of slide 2 ("Detail")',
+        }),
+      ]);
+    });
+
+    it('should report MDX slides that do not compile', async () => {
+      writeDeck('deck', {
+        'metadata.json': metadata,
+        'slide-metadata.json': [slideMetadata[0], { ...slideMetadata[1], fileName: 'slide-02.mdx' }],
+        'slide-01.html': '<p>One</p>',
+        'slide-02.mdx': '<FancyBox>Two</FancyBox>',
+      });
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      expect(await fixtureRepository.findBySlug('deck', 'en')).toBeNull();
+      expect(fixtureRepository.getReport().getIssues()).toEqual([
+        expect.objectContaining({ kind: 'invalid-slide', file: 'slide-02.mdx', message: expect.stringContaining('Unknown component <FancyBox>') }),
+      ]);
+    });
+
+    it('should not report presentations that do not exist', async () => {
+      const fixtureRepository = new FileSystemPresentationRepository(contentDir);
+
+      expect(await fixtureRepository.findBySlug('missing', 'en')).toBeNull();
+      expect(fixtureRepository.getReport().hasIssues()).toBe(false);
+    });
+  });
+
   describe('clearCache', () => {
     it('should clear all cached data', async () => {
       // Load some data to populate cache
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for PresentationExportStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PresentationExportStore } from '../../../src/infrastructure/presentation/PresentationExportStore';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+
+describe('PresentationExportStore', () => {
+  let publicDir: string;
+  let store: PresentationExportStore;
+
+  const writeExport = (files: string[]) => {
+    const directory = store.getDirectory('deck', 'en');
+    fs.mkdirSync(directory, { recursive: true });
+    files.forEach((file) => fs.writeFileSync(path.join(directory, file), ''));
+  };
+
+  beforeEach(() => {
+    publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exports-'));
+    store = new PresentationExportStore(publicDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(publicDir, { recursive: true, force: true });
+  });
+
+  it('should write exports per language and slug', () => {
+    expect(store.getDirectory('deck', 'id')).toBe(path.join(publicDir, 'exports', 'id', 'deck'));
+    expect(store.getUrl('deck', 'id', 'deck.pdf')).toBe('/exports/id/deck/deck.pdf');
+  });
+
+  it('should return null for presentations that have not been exported', () => {
+    expect(store.find('deck', 'en')).toBeNull();
+  });
+
+  it('should find the links of a saved export', () => {
+    writeExport(['deck.pdf', 'slide-01.png', 'slide-02.png']);
+    store.save('deck', 'en', {
+      pdf: 'deck.pdf',
+      images: ['slide-01.png', 'slide-02.png'],
+      exportedAt: '2025-11-01T10:00:00.000Z',
+    });
+
+    expect(store.find('deck', 'en')).toEqual({
+      pdfUrl: '/exports/en/deck/deck.pdf',
+      imageUrls: ['/exports/en/deck/slide-01.png', '/exports/en/deck/slide-02.png'],
+      exportedAt: '2025-11-01T10:00:00.000Z',
+    });
+    expect(store.find('deck', 'id')).toBeNull();
+  });
+
+  it('should not link an export with missing files', () => {
+    writeExport(['deck.pdf']);
+    store.save('deck', 'en', { pdf: 'deck.pdf', images: ['slide-01.png'], exportedAt: '2025-11-01T10:00:00.000Z' });
+
+    expect(store.find('deck', 'en')).toBeNull();
+  });
+
+  it('should ignore an unreadable manifest', () => {
+    writeExport(['manifest.json']);
+
+    expect(store.find('deck', 'en')).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * RehearsalTimer Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RehearsalTimer,
+  formatPacingReportCsv,
+  type PlannedSlideTime,
+} from '@/utils/presentation/RehearsalTimer';
+
+describe('RehearsalTimer', () => {
+  const slides: PlannedSlideTime[] = [
+    { title: 'Intro', plannedStart: 0, plannedDuration: 60 },
+    { title: 'Idea, "core"', plannedStart: 60, plannedDuration: 120 },
+    { title: 'Outro', plannedStart: 180, plannedDuration: 60 },
+  ];
+
+  let clock: number;
+  let timer: RehearsalTimer;
+
+  const advance = (seconds: number) => {
+    clock += seconds * 1000;
+  };
+
+  beforeEach(() => {
+    clock = Date.UTC(2025, 0, 1);
+    timer = new RehearsalTimer(slides, () => clock);
+  });
+
+  it('should not run before it is started', () => {
+    timer.goTo(1);
+
+    expect(timer.isRunning()).toBe(false);
+    expect(timer.getStatus()).toMatchObject({ slideIndex: 0, elapsed: 0, drift: 0 });
+  });
+
+  it('should compare actual with planned time on the current slide', () => {
+    timer.start();
+    advance(40);
+
+    expect(timer.getStatus()).toEqual({
+      slideIndex: 0,
+      elapsed: 40,
+      plannedElapsed: 40,
+      slideActual: 40,
+      slidePlanned: 60,
+      drift: 0,
+    });
+
+    advance(50);
+    expect(timer.getStatus()).toMatchObject({ slideActual: 90, plannedElapsed: 60, drift: 30 });
+  });
+
+  it('should report being ahead when moving on early', () => {
+    timer.start();
+    advance(30);
+    timer.goTo(1);
+    advance(10);
+
+    // The plan expects 60s + 10s, the rehearsal is at 40s
+    expect(timer.getStatus()).toMatchObject({ slideIndex: 1, elapsed: 40, plannedElapsed: 70, drift: -30 });
+  });
+
+  it('should add up time over repeated visits', () => {
+    timer.start();
+    advance(20);
+    timer.goTo(1);
+    advance(100);
+    timer.goTo(0);
+    advance(15);
+    timer.goTo(1);
+    advance(5);
+
+    const report = timer.getReport('deck');
+
+    expect(report.slides.map(({ actualStart, actualDuration, visits }) => ({ actualStart, actualDuration, visits }))).toEqual([
+      { actualStart: 0, actualDuration: 35, visits: 2 },
+      { actualStart: 20, actualDuration: 105, visits: 2 },
+      { actualStart: null, actualDuration: 0, visits: 0 },
+    ]);
+    expect(report.actualTotal).toBe(140);
+    expect(report.plannedTotal).toBe(240);
+    expect(report.slides[1].difference).toBe(-15);
+  });
+
+  it('should freeze the times when stopped', () => {
+    timer.start(1);
+    advance(30);
+    timer.stop();
+    advance(60);
+
+    expect(timer.isRunning()).toBe(false);
+    expect(timer.getStatus()).toMatchObject({ elapsed: 30, slideActual: 30 });
+    expect(timer.getReport('deck').startedAt).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('should start over on restart', () => {
+    timer.start();
+    advance(30);
+    timer.start(2);
+
+    expect(timer.getReport('deck').slides.map((row) => row.visits)).toEqual([0, 0, 1]);
+  });
+
+  it('should format the report as CSV', () => {
+    timer.start();
+    advance(61);
+    timer.goTo(1);
+
+    const csv = formatPacingReportCsv(timer.getReport('deck'));
+
+    expect(csv.split('\n')).toEqual([
+      'slide,title,planned_start,planned_duration,actual_start,actual_duration,difference,visits',
+      '1,Intro,0,60,0,61,1,1',
+      '2,"Idea, ""core""",60,120,61,0,-120,1',
+      '3,Outro,180,60,,0,-60,0',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Auto Fragments Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyAutoFragments } from '@/utils/presentation/autoFragments';
+
+describe('applyAutoFragments', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const mount = (content: string, autoFragments = true) => {
+    document.body.innerHTML = `<div class="slides">
+      <section ${autoFragments ? 'data-auto-fragments' : ''}>
+        <h4>Title</h4>
+        <div class="slide-content">${content}</div>
+      </section>
+    </div>`;
+    return document.querySelector('.slides')!;
+  };
+
+  const fragmentTexts = () =>
+    Array.from(document.querySelectorAll('.fragment')).map((element) => element.textContent!.trim());
+
+  it('should handle missing roots', () => {
+    expect(applyAutoFragments(null)).toBe(0);
+    expect(applyAutoFragments(undefined)).toBe(0);
+  });
+
+  it('should leave slides without the attribute alone', () => {
+    const root = mount('<div><p>One</p><p>Two</p></div>', false);
+
+    expect(applyAutoFragments(root)).toBe(0);
+    expect(fragmentTexts()).toEqual([]);
+  });
+
+  it('should step into single wrappers and skip headings', () => {
+    const root = mount(`<div class="space-y">
+      <h4>Heading</h4>
+      <div class="box"><div class="grid"><div>A</div><div>B</div><div>C</div></div></div>
+    </div>`);
+
+    expect(applyAutoFragments(root)).toBe(3);
+    expect(fragmentTexts()).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should turn list items into fragments', () => {
+    const root = mount('<div><p>Intro</p><ul><li>One</li><li>Two</li></ul></div>');
+
+    applyAutoFragments(root);
+
+    expect(fragmentTexts()).toEqual(['Intro', 'OneTwo', 'One', 'Two']);
+  });
+
+  it('should not add existing fragments or scripts again', () => {
+    const root = mount('<div><p class="fragment">Kept</p><p>New</p><script type="application/json">{}</script></div>');
+
+    expect(applyAutoFragments(root)).toBe(1);
+    expect(document.querySelectorAll('script.fragment')).toHaveLength(0);
+  });
+});
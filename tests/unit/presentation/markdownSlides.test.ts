@@ -0,0 +1,96 @@
+/**
+ * Markdown and MDX Slides Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileMarkdownSlide, getSlideFormat, splitVerticalSlides } from '@/utils/presentation/markdownSlides';
+import { checkSlideComponentProps } from '@/utils/presentation/slideComponents';
+
+describe('getSlideFormat', () => {
+  it('should detect the format from the file name', () => {
+    expect(getSlideFormat('slide-01.html')).toBe('html');
+    expect(getSlideFormat('slide-01.md')).toBe('md');
+    expect(getSlideFormat('slide-01.mdx')).toBe('mdx');
+  });
+});
+
+describe('splitVerticalSlides', () => {
+  it('should split at -- lines', () => {
+    expect(splitVerticalSlides('# One\n\n--\n\n# Two\n--\n# Three')).toEqual(['# One', '# Two', '# Three']);
+  });
+
+  it('should ignore -- inside code blocks and drop empty parts', () => {
+    expect(splitVerticalSlides('```\n--\n```\n--\n\n--\n')).toEqual(['```\n--\n```']);
+  });
+});
+
+describe('compileMarkdownSlide', () => {
+  it('should render Markdown with math', async () => {
+    const [html] = await compileMarkdownSlide('# Title\n\nSome $x^2$ and **bold**', 'md');
+
+    expect(html).toContain('<h1>Title</h1>');
+    expect(html).toContain('class="katex"');
+    expect(html).toContain('<strong>bold</strong>');
+  });
+
+  it('should keep raw HTML in Markdown slides', async () => {
+    const [html] = await compileMarkdownSlide('<div class="grid">raw</div>', 'md');
+
+    expect(html).toBe('<div class="grid">raw</div>');
+  });
+
+  it('should wrap the content after a pause in a fragment', async () => {
+    const [html] = await compileMarkdownSlide('First\n\n. . .\n\nSecond\n\n. . .\n\nThird', 'md');
+
+    expect(html).toBe('<p>First</p>\n<div class="fragment"><p>Second</p></div>\n<div class="fragment"><p>Third</p></div>');
+  });
+
+  it('should return one HTML string per vertical slide', async () => {
+    expect(await compileMarkdownSlide('One\n\n--\n\nTwo', 'md')).toEqual(['<p>One</p>', '<p>Two</p>']);
+  });
+
+  it('should render box components in MDX slides', async () => {
+    const [html] = await compileMarkdownSlide(
+      "import { DefinitionBox } from '@/components/boxes';\n\n<DefinitionBox title=\"Gradient\">\nThe **slope**\n</DefinitionBox>",
+      'mdx'
+    );
+
+    expect(html).toBe('<div class="definition-box"><strong class="box-title">Gradient</strong><p>The <strong>slope</strong></p></div>');
+  });
+
+  it('should render components written on one line as blocks', async () => {
+    const [html] = await compileMarkdownSlide(
+      '<SplitView>\n  <SplitPanel side="left" title="A">left</SplitPanel>\n  <SplitPanel side="right">right</SplitPanel>\n</SplitView>',
+      'mdx'
+    );
+
+    expect(html).toBe(
+      '<div class="split-view"><div class="split-panel split-panel-left"><h3 class="panel-title">A</h3>left</div>' +
+        '<div class="split-panel split-panel-right">right</div></div>'
+    );
+  });
+
+  it('should render HTML elements and drop comments in MDX slides', async () => {
+    const [html] = await compileMarkdownSlide('{/* speaker only */}\n\n<div className="mt-4 grid">hi</div>', 'mdx');
+
+    expect(html).toBe('<div class="mt-4 grid">hi</div>');
+  });
+
+  it('should reject unknown components, invalid props and expressions', async () => {
+    await expect(compileMarkdownSlide('<Chart />', 'mdx')).rejects.toThrow('Unknown component <Chart>');
+    await expect(compileMarkdownSlide('<SplitPanel side="up">x</SplitPanel>', 'mdx')).rejects.toThrow(
+      '<SplitPanel> "side" must be one of: left, right (line 1)'
+    );
+    await expect(compileMarkdownSlide('Total: {1 + 1}', 'mdx')).rejects.toThrow(
+      'JavaScript expressions are not supported in slides'
+    );
+  });
+});
+
+describe('checkSlideComponentProps', () => {
+  it('should require the props a component needs', () => {
+    expect(checkSlideComponentProps('HeroSection', {})).toBe('<HeroSection> needs a "title" prop');
+    expect(checkSlideComponentProps('HeroSection', { title: 'Hi' })).toBeNull();
+    expect(checkSlideComponentProps('InsightBox', {})).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Presentation Skeleton Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generatePresentationSkeleton,
+  splitSlideTimes,
+  type BlogPostSource,
+} from '@/utils/presentation/presentationSkeleton';
+import { SlideMetadataSchema } from '@/utils/presentation/schemas';
+
+const body = `import DefinitionBox from '../../components/boxes/DefinitionBox.astro';
+import { Quiz, Question } from '../../components/quiz';
+
+An introduction to the topic.
+
+## What is a Gradient?
+
+<DefinitionBox title="Gradient">
+The **slope** of $f$ at a point.
+</DefinitionBox>
+
+<CalloutBox icon="🎯">
+Remember this.
+</CalloutBox>
+
+## Computing Gradients
+
+### Partial Derivatives
+
+Some text about $\\frac{\\partial f}{\\partial x}$.
+
+### The Chain Rule
+
+More text.
+
+## Check Your Understanding
+
+<Quiz id="check">
+  <Question prompt="Secret answer">x</Question>
+</Quiz>
+
+Try the questions below before moving on.
+`;
+
+const post: BlogPostSource = {
+  slug: 'gradients',
+  language: 'en',
+  format: 'mdx',
+  data: {
+    title: 'Gradients & Slopes',
+    description: 'All about gradients',
+    category: 'Calculus',
+    tags: ['calculus'],
+    difficulty: 'intermediate',
+    estimatedReadingTime: 6,
+  },
+  body,
+};
+
+describe('splitSlideTimes', () => {
+  it('should split the total time in proportion to the weights', () => {
+    expect(splitSlideTimes([1, 2, 1], 240)).toEqual([60, 120, 60]);
+  });
+
+  it('should give every slide at least 30 seconds', () => {
+    expect(splitSlideTimes([1, 100, 1], 120)).toEqual([30, 60, 30]);
+  });
+
+  it('should always add up to the total time', () => {
+    const durations = splitSlideTimes([3, 7, 5, 11], 600);
+
+    expect(durations.reduce((sum, duration) => sum + duration, 0)).toBe(600);
+    durations.forEach((duration) => expect(duration % 30).toBe(0));
+  });
+});
+
+describe('generatePresentationSkeleton', () => {
+  it('should create metadata from the post frontmatter', async () => {
+    const { metadata } = await generatePresentationSkeleton(post, new Date('2025-11-01T10:00:00Z'));
+
+    expect(metadata).toEqual({
+      title: 'Gradients & Slopes',
+      description: 'All about gradients',
+      pubDate: '2025-11-01',
+      relatedBlogPost: 'gradients',
+      category: 'Calculus',
+      tags: ['calculus'],
+      difficulty: 'intermediate',
+      language: 'en',
+      estimatedTime: 6,
+      totalSlides: 4,
+      author: 'QuiverLearn',
+    });
+  });
+
+  it('should create a title slide and one slide per H2 with valid slide metadata', async () => {
+    const { slideMetadata, slides } = await generatePresentationSkeleton(post);
+
+    expect(slideMetadata.map((slide) => slide.title)).toEqual([
+      'Gradients & Slopes',
+      'What is a Gradient?',
+      'Computing Gradients',
+      'Check Your Understanding',
+    ]);
+    expect(Object.keys(slides)).toEqual(['slide-01.html', 'slide-02.html', 'slide-03.html', 'slide-04.html']);
+    expect(slideMetadata[3].time.endsWith('-6:00')).toBe(true);
+    expect(() => SlideMetadataSchema.parse(slideMetadata)).not.toThrow();
+  });
+
+  it('should convert box components into slide callouts and keep math for KaTeX', async () => {
+    const { slides } = await generatePresentationSkeleton(post);
+
+    expect(slides['slide-02.html']).toContain('<p class="text-2xl font-semibold">📖 Gradient:</p>');
+    expect(slides['slide-02.html']).toContain('The <strong>slope</strong> of $f$ at a point.');
+    expect(slides['slide-02.html']).toContain('<p class="text-2xl font-semibold">🎯 Note:</p>');
+  });
+
+  it('should list H3s as bullets and fall back to the first paragraph', async () => {
+    const { slides } = await generatePresentationSkeleton(post);
+
+    expect(slides['slide-03.html']).toContain('<li>Partial Derivatives</li>\n    <li>The Chain Rule</li>');
+    expect(slides['slide-04.html']).toContain('<p class="text-2xl">Try the questions below before moving on.</p>');
+    expect(slides['slide-04.html']).not.toContain('Secret answer');
+  });
+
+  it('should start slides with a comment header and escape titles', async () => {
+    const { slides } = await generatePresentationSkeleton(post);
+
+    expect(slides['slide-01.html']).toMatch(/^<!--\n  Slide 1: Gradients & Slopes\n  Time: 0:00-\d+:\d\d\n-->\n/);
+    expect(slides['slide-01.html']).toContain('<h4 class="text-sm font-bold mb-1">Gradients &amp; Slopes</h4>');
+  });
+
+  it('should estimate the time from the word count without a reading time', async () => {
+    const { metadata } = await generatePresentationSkeleton({
+      ...post,
+      format: 'md',
+      data: { title: 'Short', description: 'Short post' },
+      body: '## One\n\nHello.\n\n## Two\n\nWorld.',
+    });
+
+    expect(metadata).toMatchObject({ estimatedTime: 2, totalSlides: 3, category: 'General', difficulty: 'beginner' });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Tests for resolving the reveal.js settings of a presentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveRevealConfig, SITE_REVEAL_DEFAULTS } from '@/utils/presentation/revealConfig';
+
+describe('resolveRevealConfig', () => {
+  it('should start from the site defaults with the size of the display mode', () => {
+    expect(resolveRevealConfig({ displayMode: 'instagram' })).toEqual({
+      ...SITE_REVEAL_DEFAULTS,
+      width: 1080,
+      height: 1080,
+    });
+    expect(resolveRevealConfig({ displayMode: 'fullscreen' })).toMatchObject({ width: 1920, height: 1080 });
+  });
+
+  it('should number sections with vertical slides as "h.v"', () => {
+    expect(resolveRevealConfig({ displayMode: 'instagram', hasVerticalSlides: true }).slideNumber).toBe('h.v');
+  });
+
+  it('should apply the settings of the deck last', () => {
+    const config = resolveRevealConfig({
+      displayMode: 'instagram',
+      hasVerticalSlides: true,
+      settings: { width: 1280, height: 720, slideNumber: false, autoSlide: 5000, loop: true },
+    });
+
+    expect(config).toMatchObject({
+      controls: true,
+      width: 1280,
+      height: 720,
+      slideNumber: false,
+      autoSlide: 5000,
+      loop: true,
+    });
+  });
+});
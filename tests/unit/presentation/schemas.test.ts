@@ -9,6 +9,7 @@ import {
   PresentationMetadataSchema,
   RevealConfigSchema,
   ProgressDataSchema,
+  SlideMetadataSchema,
   validatePresentationMetadata,
   validateRevealConfig,
   validateSlide,
@@ -47,6 +48,17 @@ describe('SlideSchema', () => {
     expect(() => SlideSchema.parse(invalidSlide)).toThrow();
   });
 
+  it('should accept time ranges used in slide-metadata.json', () => {
+    const slide = {
+      title: 'Title',
+      time: '2:30-5:00',
+      content: '<p>Content</p>',
+    };
+
+    expect(SlideSchema.parse(slide).time).toBe('2:30-5:00');
+    expect(() => SlideSchema.parse({ ...slide, time: '2:75-5:00' })).toThrow();
+  });
+
   it('should accept optional fields', () => {
     const slideWithOptionals = {
       title: 'Title',
@@ -120,10 +132,56 @@ describe('PresentationMetadataSchema', () => {
     expect(result.tags).toEqual(['math', 'calculus']);
   });
 
+  it('should reject dates that do not exist', () => {
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, pubDate: '2025-02-30' })).toThrow();
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, pubDate: '2025-13-01T00:00:00.000Z' })).toThrow();
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, updatedDate: 'yesterday' })).toThrow();
+  });
+
+  it('should accept ISO datetimes', () => {
+    const result = PresentationMetadataSchema.parse({ ...validMetadata, pubDate: '2025-10-26T00:00:00.000Z' });
+    expect(result.pubDate).toBe('2025-10-26T00:00:00.000Z');
+  });
+
+  it('should reject fractional total slides', () => {
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, totalSlides: 2.5 })).toThrow();
+  });
+
   it('should default tags to empty array if not provided', () => {
     const result = PresentationMetadataSchema.parse(validMetadata);
     expect(result.tags).toEqual([]);
   });
+
+  it('should accept a display mode, theme and reveal.js settings', () => {
+    const result = PresentationMetadataSchema.parse({
+      ...validMetadata,
+      displayMode: 'fullscreen',
+      theme: 'night',
+      reveal: { transition: 'fade', autoSlide: 5000, loop: true },
+    });
+
+    expect(result.displayMode).toBe('fullscreen');
+    expect(result.theme).toBe('night');
+    expect(result.reveal).toEqual({ transition: 'fade', autoSlide: 5000, loop: true });
+  });
+
+  it('should reject unknown display modes and themes', () => {
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, displayMode: 'portrait' })).toThrow();
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, theme: 'neon' })).toThrow();
+  });
+
+  it('should reject unknown or invalid reveal.js settings', () => {
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, reveal: { autoslide: 5000 } })).toThrow();
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, reveal: { transition: 'spin' } })).toThrow();
+  });
+
+  it('should accept a partial completion rule and reject invalid ones', () => {
+    const result = PresentationMetadataSchema.parse({ ...validMetadata, completion: { minDwellSeconds: 10 } });
+
+    expect(result.completion).toEqual({ minDwellSeconds: 10 });
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, completion: { minShare: 0 } })).toThrow();
+    expect(() => PresentationMetadataSchema.parse({ ...validMetadata, completion: { share: 0.5 } })).toThrow();
+  });
 });
 
 describe('RevealConfigSchema', () => {
@@ -174,6 +232,61 @@ describe('RevealConfigSchema', () => {
   });
 });
 
+describe('SlideMetadataSchema', () => {
+  const slides = [
+    { slideNumber: 1, title: 'Intro', time: '0:00-2:30', fileName: 'slide-01.html' },
+    { slideNumber: 2, title: 'Outro', time: '2:30-5:00', fileName: 'slide-02.html', fragments: true, transition: 'fade' },
+  ];
+
+  it('should validate the slide-metadata.json format', () => {
+    const result = SlideMetadataSchema.parse(slides);
+
+    expect(result).toHaveLength(2);
+    expect(result[1].transition).toBe('fade');
+  });
+
+  it('should reject an empty slide list', () => {
+    expect(() => SlideMetadataSchema.parse([])).toThrow();
+  });
+
+  it('should reject slide numbers out of order', () => {
+    const result = SlideMetadataSchema.safeParse([slides[1], slides[0]]);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual([0, 'slideNumber']);
+    }
+  });
+
+  it('should reject file names outside the presentation folder', () => {
+    expect(() => SlideMetadataSchema.parse([{ ...slides[0], fileName: '../secret.html' }])).toThrow();
+    expect(() => SlideMetadataSchema.parse([{ ...slides[0], fileName: 'slide-01.txt' }])).toThrow();
+  });
+
+  it('should accept Markdown and MDX slide files', () => {
+    expect(SlideMetadataSchema.parse([{ ...slides[0], fileName: 'slide-01.md' }])[0].fileName).toBe('slide-01.md');
+    expect(SlideMetadataSchema.parse([{ ...slides[0], fileName: 'slide-01.mdx' }])[0].fileName).toBe('slide-01.mdx');
+  });
+
+  it('should reject unknown transitions', () => {
+    expect(() => SlideMetadataSchema.parse([{ ...slides[0], transition: 'spin' }])).toThrow();
+  });
+
+  it('should accept vertical slides below a section', () => {
+    const [section] = SlideMetadataSchema.parse([
+      { ...slides[0], verticalSlides: [{ title: 'Detail', fileName: 'slide-01b.md', fragments: true }] },
+    ]);
+
+    expect(section.verticalSlides).toEqual([{ title: 'Detail', fileName: 'slide-01b.md', fragments: true }]);
+  });
+
+  it('should reject invalid vertical slides', () => {
+    expect(() => SlideMetadataSchema.parse([{ ...slides[0], verticalSlides: [] }])).toThrow();
+    expect(() => SlideMetadataSchema.parse([{ ...slides[0], verticalSlides: [{ title: '', fileName: 'a.html' }] }])).toThrow();
+    expect(() => SlideMetadataSchema.parse([{ ...slides[0], verticalSlides: [{ title: 'Detail', fileName: '../a.html' }] }])).toThrow();
+  });
+});
+
 describe('ProgressDataSchema', () => {
   it('should validate correct progress data', () => {
     const validProgress = {
@@ -219,6 +332,21 @@ describe('ProgressDataSchema', () => {
 
     expect(() => ProgressDataSchema.parse(invalid)).toThrow();
   });
+
+  it('should accept a visit history keyed by slide position', () => {
+    const progress = {
+      currentSlide: 2,
+      totalSlides: 10,
+      slideCount: 12,
+      visitedSlides: { '0': 6000, '1/2': 800 },
+      lastVisited: '2025-01-01T12:00:00.000Z',
+      completedAt: '2025-01-01T12:00:00.000Z',
+      completed: true,
+    };
+
+    expect(ProgressDataSchema.parse(progress)).toEqual(progress);
+    expect(() => ProgressDataSchema.parse({ ...progress, visitedSlides: { 'slide-1': 6000 } })).toThrow();
+  });
 });
 
 describe('Validation Helper Functions', () => {
@@ -0,0 +1,80 @@
+/**
+ * Share Handlers Unit Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  getCurrentShareText,
+  getCurrentShareUrl,
+  getSlideHash,
+  getSlideLabel,
+} from '@/components/presentation-header/scripts/share-handlers';
+
+describe('getSlideHash', () => {
+  it('should link top slides by their horizontal index', () => {
+    expect(getSlideHash(0)).toBe('#/0');
+    expect(getSlideHash(3)).toBe('#/3');
+  });
+
+  it('should add the vertical index below a section', () => {
+    expect(getSlideHash(3, 1)).toBe('#/3/1');
+    expect(getSlideHash(0, 2)).toBe('#/0/2');
+  });
+
+  it('should omit a vertical index of 0', () => {
+    expect(getSlideHash(3, 0)).toBe('#/3');
+    expect(getSlideHash(0, 0)).toBe('#/0');
+  });
+});
+
+describe('getSlideLabel', () => {
+  it('should number top slides from 1', () => {
+    expect(getSlideLabel(0)).toBe('1');
+    expect(getSlideLabel(3)).toBe('4');
+    expect(getSlideLabel(3, 0)).toBe('4');
+  });
+
+  it('should label vertical slides as section.position', () => {
+    expect(getSlideLabel(3, 1)).toBe('4.2');
+    expect(getSlideLabel(0, 1)).toBe('1.2');
+  });
+});
+
+describe('current slide sharing', () => {
+  const setDeck = (h: number, v: number, title = 'Gradients') => {
+    const slide = document.createElement('section');
+    slide.innerHTML = `<h2>${title}</h2>`;
+    (window as any).Reveal = {
+      getIndices: () => ({ h, v }),
+      getCurrentSlide: () => slide,
+    };
+  };
+
+  afterEach(() => {
+    delete (window as any).Reveal;
+  });
+
+  it('should share the URL of the current slide without the page hash', () => {
+    setDeck(2, 1);
+    const page = window.location.origin + window.location.pathname;
+
+    expect(getCurrentShareUrl()).toBe(`${page}#/2/1`);
+
+    setDeck(0, 0);
+    expect(getCurrentShareUrl()).toBe(`${page}#/0`);
+  });
+
+  it('should title the share with the slide label', () => {
+    setDeck(2, 1);
+
+    expect(getCurrentShareText()).toMatchObject({
+      title: 'Gradients - Slide 3.2',
+      text: 'Check out this slide: Gradients',
+    });
+  });
+
+  it('should share the page when no deck is running', () => {
+    expect(getCurrentShareUrl()).toBe(window.location.href);
+    expect(getCurrentShareText().text).toBe('Check out this presentation');
+  });
+});
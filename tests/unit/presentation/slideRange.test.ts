@@ -0,0 +1,36 @@
+/**
+ * Slide Range Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSlideRange, sliceSlideRange } from '@/utils/presentation/slideRange';
+
+describe('parseSlideRange', () => {
+  it('should parse ranges and single slides', () => {
+    expect(parseSlideRange('4-7', 21)).toEqual({ start: 4, end: 7 });
+    expect(parseSlideRange(' 4 – 7 ', 21)).toEqual({ start: 4, end: 7 });
+    expect(parseSlideRange('5', 21)).toEqual({ start: 5, end: 5 });
+  });
+
+  it('should reject malformed ranges', () => {
+    expect(() => parseSlideRange('four', 21)).toThrow('Invalid slide range "four"');
+    expect(() => parseSlideRange('4-', 21)).toThrow('Invalid slide range');
+    expect(() => parseSlideRange('', 21)).toThrow('Invalid slide range');
+  });
+
+  it('should reject reversed ranges and slide 0', () => {
+    expect(() => parseSlideRange('7-4', 21)).toThrow('must not be reversed');
+    expect(() => parseSlideRange('0-3', 21)).toThrow('numbered from 1');
+  });
+
+  it('should reject ranges outside the deck', () => {
+    expect(() => parseSlideRange('20-22', 21)).toThrow('Slide range "20-22" is outside the deck (21 slides)');
+  });
+});
+
+describe('sliceSlideRange', () => {
+  it('should return the slides of the range', () => {
+    expect(sliceSlideRange(['a', 'b', 'c', 'd'], { start: 2, end: 3 })).toEqual(['b', 'c']);
+    expect(sliceSlideRange(['a', 'b', 'c', 'd'], { start: 4, end: 4 })).toEqual(['d']);
+  });
+});
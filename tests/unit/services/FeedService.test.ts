@@ -0,0 +1,100 @@
+/**
+ * Unit tests for FeedService
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FeedService, type FeedPostSource } from '../../../src/services/feed/FeedService';
+import type { PresentationService } from '../../../src/services/presentation/PresentationService';
+
+describe('FeedService', () => {
+  let presentationService: PresentationService;
+  let postSource: FeedPostSource;
+
+  const createPost = (slug: string, pubDate: string, overrides: Record<string, unknown> = {}) => ({
+    slug,
+    title: `Post ${slug}`,
+    description: `About ${slug}`,
+    pubDate: new Date(pubDate),
+    updatedDate: undefined,
+    category: 'mathematics',
+    tags: ['functions', 'mathematics'],
+    author: 'Ada',
+    body: `Read [more](/en/blog/${slug}/).`,
+    format: 'md',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    postSource = {
+      find: vi.fn(async () => [
+        createPost('limits', '2025-03-01'),
+        createPost('functions', '2025-01-01', { category: undefined }),
+      ]) as any,
+    };
+
+    presentationService = {
+      getPublishedPresentations: vi.fn(async () => [{
+        id: 'derivatives',
+        title: 'Derivatives',
+        description: 'Slides',
+        category: 'calculus',
+        tags: ['calculus'],
+        pubDate: '2025-02-01',
+        author: 'QuiverLearn',
+      }]),
+    } as any;
+  });
+
+  it('should list posts without drafts and published presentations, newest first', async () => {
+    const service = new FeedService(presentationService, postSource);
+
+    const feed = await service.getFeed('en', 'https://quivernets.com');
+
+    expect(postSource.find).toHaveBeenCalledWith('en', { excludeDrafts: true }, { sort: 'latest' });
+    expect(presentationService.getPublishedPresentations).toHaveBeenCalledWith('en');
+    expect(feed.items.map((item) => item.url)).toEqual([
+      'https://quivernets.com/en/blog/limits/',
+      'https://quivernets.com/en/presentations/derivatives/',
+      'https://quivernets.com/en/blog/functions/',
+    ]);
+  });
+
+  it('should describe the feed of the language', async () => {
+    const service = new FeedService(presentationService, postSource);
+
+    const feed = await service.getFeed('id', new URL('https://quivernets.com'));
+
+    expect(feed).toMatchObject({
+      language: 'id',
+      homeUrl: 'https://quivernets.com/id/',
+      feedUrls: {
+        rss: 'https://quivernets.com/id/rss.xml',
+        atom: 'https://quivernets.com/id/atom.xml',
+        json: 'https://quivernets.com/id/feed.json',
+      },
+    });
+    expect(feed.title).toContain('Bahasa Indonesia');
+  });
+
+  it('should give each item its categories and author', async () => {
+    const service = new FeedService(presentationService, postSource);
+
+    const [limits, derivatives, functions] = (await service.getFeed('en', 'https://quivernets.com')).items;
+
+    expect(limits).toMatchObject({ type: 'post', author: 'Ada', categories: ['mathematics', 'functions'] });
+    expect(derivatives).toMatchObject({ type: 'presentation', categories: ['calculus'] });
+    expect(functions.categories).toEqual(['functions', 'mathematics']);
+  });
+
+  it('should only carry full content when asked to', async () => {
+    const service = new FeedService(presentationService, postSource);
+
+    const summary = await service.getFeed('en', 'https://quivernets.com');
+    const full = await service.getFeed('en', 'https://quivernets.com', { content: 'full' });
+
+    expect(summary.items.every((item) => item.content === undefined)).toBe(true);
+    expect(full.items[0].content).toBe('<p>Read <a href="https://quivernets.com/en/blog/limits/">more</a>.</p>');
+    // Presentations have no body
+    expect(full.items[1].content).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for LearningCatalogueService
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  LearningCatalogueService,
+  type LearningCataloguePostSource,
+} from '../../../src/services/learning/LearningCatalogueService';
+import type { PresentationRepository } from '../../../src/domain/presentation/PresentationRepository';
+
+describe('LearningCatalogueService', () => {
+  let presentationRepository: PresentationRepository;
+  let postRepository: LearningCataloguePostSource;
+
+  const createPost = (slug: string, title: string, overrides: Record<string, unknown> = {}) => ({
+    slug,
+    title,
+    description: `About ${slug}`,
+    category: 'machine-learning',
+    difficulty: 'intermediate',
+    tags: ['regression'],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    postRepository = {
+      findAll: vi.fn(async (language: string) =>
+        language === 'en'
+          ? [
+              createPost('linear-regression', 'Linear Regression'),
+              createPost('functions', 'Functions', { category: undefined, difficulty: undefined, tags: [] }),
+            ]
+          : []
+      ) as any,
+    };
+
+    presentationRepository = {
+      findAll: vi.fn(async (language: string) =>
+        language === 'en'
+          ? [{
+              id: 'derivatives',
+              getTitle: () => 'Derivatives',
+              getDescription: () => 'Slides',
+              getCategory: () => 'calculus',
+              getDifficulty: () => 'beginner',
+              getTags: () => ['calculus'],
+            }]
+          : []
+      ) as any,
+      findBySlug: vi.fn(),
+      findAllWithLanguages: vi.fn(),
+      findBySlugAnyLanguage: vi.fn(),
+      findByRelatedBlogPost: vi.fn(),
+      getSlugs: vi.fn(),
+    };
+  });
+
+  it('should list posts then presentations, each by title', async () => {
+    const service = new LearningCatalogueService(presentationRepository, postRepository);
+
+    const catalogue = await service.getCatalogue('en');
+
+    expect(catalogue.map((item) => `${item.type}:${item.slug}`)).toEqual([
+      'post:functions',
+      'post:linear-regression',
+      'presentation:derivatives',
+    ]);
+  });
+
+  it('should build the view models with their urls', async () => {
+    const service = new LearningCatalogueService(presentationRepository, postRepository);
+
+    const [functions, regression, derivatives] = await service.getCatalogue('en');
+
+    expect(regression).toEqual({
+      type: 'post',
+      slug: 'linear-regression',
+      title: 'Linear Regression',
+      description: 'About linear-regression',
+      url: '/en/blog/linear-regression/',
+      category: 'machine-learning',
+      difficulty: 'intermediate',
+      tags: ['regression'],
+    });
+    expect(derivatives).toMatchObject({ url: '/en/presentations/derivatives/', category: 'calculus' });
+    // Posts default to beginner and may have no category
+    expect(functions).not.toHaveProperty('category');
+    expect(functions.difficulty).toBe('beginner');
+  });
+
+  it('should only list content of the requested language', async () => {
+    const service = new LearningCatalogueService(presentationRepository, postRepository);
+
+    expect(await service.getCatalogue('id')).toEqual([]);
+    expect(postRepository.findAll).toHaveBeenCalledWith('id');
+    expect(presentationRepository.findAll).toHaveBeenCalledWith('id');
+  });
+});
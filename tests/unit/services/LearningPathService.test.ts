@@ -0,0 +1,162 @@
+/**
+ * Unit tests for LearningPathService
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LearningPathService, type LearningPathPostLookup } from '../../../src/services/learning/LearningPathService';
+import type { LearningPathRepository } from '../../../src/domain/learning/LearningPathRepository';
+import type { PresentationRepository } from '../../../src/domain/presentation/PresentationRepository';
+import { LearningPath } from '../../../src/domain/learning/LearningPath';
+import type { LearningPathData } from '../../../src/domain/learning/LearningPath';
+
+describe('LearningPathService', () => {
+  let service: LearningPathService;
+  let pathRepository: LearningPathRepository;
+  let presentationRepository: PresentationRepository;
+  let postRepository: LearningPathPostLookup;
+
+  // Posts available per language; the Indonesian FTC post doesn't exist
+  const posts: Record<string, string[]> = {
+    en: ['fundamental-theorem-calculus', 'linear-regression', 'gradient-descent'],
+    id: ['linear-regression', 'gradient-descent'],
+  };
+
+  const createPath = (id: string, overrides?: Partial<LearningPathData>): LearningPath =>
+    new LearningPath(id, {
+      title: { en: `${id} (en)`, id: `${id} (id)` },
+      description: { en: 'Description', id: 'Deskripsi' },
+      difficulty: 'intermediate',
+      prerequisites: [],
+      steps: [
+        { type: 'post', slug: 'fundamental-theorem-calculus' },
+        { type: 'presentation', slug: 'linear-regression' },
+        { type: 'post', slug: 'gradient-descent' },
+      ],
+      ...overrides,
+    });
+
+  const calculus = createPath('calculus');
+  const ml = createPath('ml', { prerequisites: ['calculus'] });
+
+  beforeEach(() => {
+    pathRepository = {
+      findAll: vi.fn().mockResolvedValue([calculus, ml]),
+      findById: vi.fn(async (id: string) => [calculus, ml].find((path) => path.id === id) ?? null),
+      findContaining: vi.fn(async (type, slug, language) =>
+        [calculus, ml].filter((path) => path.contains(type, slug, language))
+      ),
+    };
+
+    presentationRepository = {
+      findBySlug: vi.fn(async (slug: string, language: string) => ({
+        getTitle: () => `Presentation ${slug} (${language})`,
+        getDescription: () => 'Slides',
+      })) as any,
+      findAll: vi.fn(),
+      findAllWithLanguages: vi.fn(),
+      findBySlugAnyLanguage: vi.fn(),
+      findByRelatedBlogPost: vi.fn(),
+      getSlugs: vi.fn(),
+    };
+
+    postRepository = {
+      findBySlug: vi.fn(async (slug: string, language: 'en' | 'id') =>
+        posts[language].includes(slug)
+          ? ({ title: `Post ${slug} (${language})`, description: 'Post' } as any)
+          : null
+      ),
+    };
+
+    service = new LearningPathService(pathRepository, presentationRepository, postRepository);
+  });
+
+  describe('getPathsForLanguage', () => {
+    it('should return localized path view models with prerequisites', async () => {
+      const paths = await service.getPathsForLanguage('id');
+
+      expect(paths).toHaveLength(2);
+      expect(paths[1]).toMatchObject({
+        id: 'ml',
+        title: 'ml (id)',
+        url: '/id/paths/ml/',
+        stepCount: 3,
+        prerequisites: [{ id: 'calculus', title: 'calculus (id)', url: '/id/paths/calculus/' }],
+      });
+    });
+  });
+
+  describe('getPathDetail', () => {
+    it('should resolve steps to post and presentation titles', async () => {
+      const path = await service.getPathDetail('ml', 'en');
+
+      expect(path?.steps.map((step) => step.title)).toEqual([
+        'Post fundamental-theorem-calculus (en)',
+        'Presentation linear-regression (en)',
+        'Post gradient-descent (en)',
+      ]);
+      expect(path?.steps[1]).toMatchObject({ position: 2, url: '/en/presentations/linear-regression/', isFallback: false });
+    });
+
+    it('should fall back to the other language for untranslated steps', async () => {
+      const path = await service.getPathDetail('ml', 'id');
+
+      expect(path?.steps[0]).toMatchObject({
+        language: 'en',
+        url: '/en/blog/fundamental-theorem-calculus/',
+        isFallback: true,
+      });
+      expect(path?.steps[2].language).toBe('id');
+    });
+
+    it('should skip steps whose content is missing in every language', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      (pathRepository.findById as any).mockResolvedValue(
+        createPath('broken', { steps: [{ type: 'post', slug: 'missing' }, { type: 'post', slug: 'gradient-descent' }] })
+      );
+
+      const path = await service.getPathDetail('broken', 'en');
+
+      expect(path?.steps).toHaveLength(1);
+      expect(path?.steps[0].position).toBe(1);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should return null for unknown paths', async () => {
+      expect(await service.getPathDetail('unknown', 'en')).toBeNull();
+    });
+  });
+
+  describe('getNavigation', () => {
+    it('should return previous and next steps in every path', async () => {
+      const navigation = await service.getNavigation('presentation', 'linear-regression', 'en');
+
+      expect(navigation).toHaveLength(2);
+      expect(navigation[0]).toMatchObject({
+        path: { id: 'calculus', url: '/en/paths/calculus/' },
+        position: 2,
+        total: 3,
+        previous: { slug: 'fundamental-theorem-calculus' },
+        next: { slug: 'gradient-descent' },
+      });
+    });
+
+    it('should leave out previous on the first step and next on the last', async () => {
+      const [first] = await service.getNavigation('post', 'fundamental-theorem-calculus', 'en');
+      const [last] = await service.getNavigation('post', 'gradient-descent', 'en');
+
+      expect(first.previous).toBeUndefined();
+      expect(last.next).toBeUndefined();
+    });
+
+    it('should link to fallback steps in the other language', async () => {
+      const [item] = await service.getNavigation('presentation', 'linear-regression', 'id');
+
+      expect(item.previous).toMatchObject({ language: 'en', isFallback: true });
+    });
+
+    it('should return nothing for content outside any path', async () => {
+      expect(await service.getNavigation('post', 'unrelated', 'en')).toEqual([]);
+    });
+  });
+});
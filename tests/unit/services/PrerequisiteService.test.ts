@@ -0,0 +1,106 @@
+/**
+ * Unit tests for PrerequisiteService
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PrerequisiteService, type PrerequisitePostSource } from '../../../src/services/learning/PrerequisiteService';
+import type { PresentationRepository } from '../../../src/domain/presentation/PresentationRepository';
+
+describe('PrerequisiteService', () => {
+  let presentationRepository: PresentationRepository;
+  let postRepository: PrerequisitePostSource;
+  let posts: Record<string, { slug: string; title: string; description: string; prerequisites: string[] }[]>;
+
+  const createPost = (slug: string, prerequisites: string[] = []) => ({
+    slug,
+    title: `Post ${slug}`,
+    description: `About ${slug}`,
+    prerequisites,
+  });
+
+  beforeEach(() => {
+    posts = {
+      en: [
+        createPost('functions'),
+        createPost('linear-regression', ['functions']),
+        createPost('gradient-descent', ['linear-regression', 'presentation:derivatives']),
+      ],
+      id: [createPost('linear-regression')],
+    };
+
+    postRepository = {
+      findAll: vi.fn(async (language: string) => posts[language] ?? []) as any,
+    };
+
+    presentationRepository = {
+      findAll: vi.fn(async (language: string) =>
+        language === 'en'
+          ? [{
+              id: 'derivatives',
+              getTitle: () => 'Derivatives slides',
+              getDescription: () => 'Slides',
+              getPrerequisites: () => ['post:functions'],
+            }]
+          : []
+      ) as any,
+      findBySlug: vi.fn(),
+      findAllWithLanguages: vi.fn(),
+      findBySlugAnyLanguage: vi.fn(),
+      findByRelatedBlogPost: vi.fn(),
+      getSlugs: vi.fn(),
+    };
+  });
+
+  it('should resolve the reading order into view models', async () => {
+    const service = new PrerequisiteService(presentationRepository, postRepository);
+
+    const readFirst = await service.getReadFirst('post', 'gradient-descent', 'en');
+
+    expect(readFirst.map((item) => item.url)).toEqual([
+      '/en/blog/functions/',
+      '/en/blog/linear-regression/',
+      '/en/presentations/derivatives/',
+    ]);
+    expect(readFirst[0]).toMatchObject({ type: 'post', title: 'Post functions', isDirect: false });
+    expect(readFirst[1].isDirect).toBe(true);
+    expect(readFirst[2]).toMatchObject({ type: 'presentation', title: 'Derivatives slides', isDirect: true });
+  });
+
+  it('should return an empty list for content without prerequisites', async () => {
+    const service = new PrerequisiteService(presentationRepository, postRepository);
+
+    expect(await service.getReadFirst('post', 'functions', 'en')).toEqual([]);
+    expect(await service.getReadFirst('presentation', 'derivatives', 'id')).toEqual([]);
+  });
+
+  it('should build the graph once per language', async () => {
+    const service = new PrerequisiteService(presentationRepository, postRepository);
+
+    await service.getReadFirst('post', 'gradient-descent', 'en');
+    await service.getReadFirst('post', 'linear-regression', 'en');
+    await service.getReadFirst('post', 'linear-regression', 'id');
+
+    expect(postRepository.findAll).toHaveBeenCalledTimes(2);
+
+    service.clearCache();
+    await service.getGraph('en');
+
+    expect(postRepository.findAll).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject missing prerequisites', async () => {
+    posts.id = [createPost('gradient-descent', ['linear-regression'])];
+    const service = new PrerequisiteService(presentationRepository, postRepository);
+
+    await expect(service.getReadFirst('post', 'gradient-descent', 'id')).rejects.toThrow(
+      /Invalid prerequisites \(id\)[\s\S]*post:linear-regression/
+    );
+  });
+
+  it('should reject prerequisite cycles', async () => {
+    posts.en[0] = createPost('functions', ['gradient-descent']);
+    const service = new PrerequisiteService(presentationRepository, postRepository);
+
+    await expect(service.getGraph('en')).rejects.toThrow(/Prerequisite cycle/);
+  });
+});
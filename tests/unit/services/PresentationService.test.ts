@@ -83,6 +83,39 @@ describe('PresentationService', () => {
       expect(mockRepository.findBySlug).toHaveBeenCalledWith('test-slug', 'en');
     });
 
+    it('should merge the reveal.js settings of the deck over the site defaults', async () => {
+      const mockPresentation = createMockPresentation('test-slug', {
+        displayMode: 'fullscreen',
+        reveal: { transition: 'fade', loop: true },
+      });
+
+      (mockRepository.findBySlug as any).mockResolvedValue(mockPresentation);
+
+      const result = await service.getPresentationBySlug('test-slug', 'en');
+
+      expect(result?.displayMode).toBe('fullscreen');
+      expect(result?.theme).toBe('custom');
+      expect(result?.reveal).toMatchObject({
+        width: 1920,
+        height: 1080,
+        controls: true,
+        transition: 'fade',
+        loop: true,
+      });
+    });
+
+    it('should merge the completion rule of the deck over the site default', async () => {
+      const mockPresentation = createMockPresentation('test-slug', {
+        completion: { minDwellSeconds: 20 },
+      });
+
+      (mockRepository.findBySlug as any).mockResolvedValue(mockPresentation);
+
+      const result = await service.getPresentationBySlug('test-slug', 'en');
+
+      expect(result?.completion).toEqual({ minShare: 0.9, minDwellSeconds: 20 });
+    });
+
     it('should return null for non-existent presentation', async () => {
       (mockRepository.findBySlug as any).mockResolvedValue(null);
 
@@ -158,6 +191,22 @@ describe('PresentationService', () => {
     });
   });
 
+  describe('getPublishedPresentations', () => {
+    it('should return published presentations, newest first', async () => {
+      (mockRepository.findAll as any).mockResolvedValue([
+        createMockPresentation('older', { pubDate: '2020-01-01' }),
+        createMockPresentation('future', { pubDate: '2099-01-01' }),
+        createMockPresentation('newer', { pubDate: '2021-01-01', updatedDate: '2021-02-01' }),
+      ]);
+
+      const result = await service.getPublishedPresentations('en');
+
+      expect(result.map((p) => p.id)).toEqual(['newer', 'older']);
+      expect(result[0]).toMatchObject({ category: 'Test', updatedDate: '2021-02-01' });
+      expect(result[1]).not.toHaveProperty('updatedDate');
+    });
+  });
+
   describe('getPresentationsByTag', () => {
     it('should filter presentations by tag', async () => {
       const withTag = createMockPresentation('with-tag', { tags: ['javascript', 'test'] });
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for TranslationAuditService
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  TranslationAuditService,
+  type TranslationPostSource,
+} from '../../../src/services/translation/TranslationAuditService';
+import { Presentation, type PresentationMetadata } from '../../../src/domain/presentation/Presentation';
+import type { PresentationRepository } from '../../../src/domain/presentation/PresentationRepository';
+
+describe('TranslationAuditService', () => {
+  let presentationRepository: PresentationRepository;
+  let postRepository: TranslationPostSource;
+  let posts: Record<string, { slug: string; title: string; translationId: string; getMostRecentDate: () => Date }[]>;
+  let presentations: Record<string, Presentation[]>;
+
+  const createPost = (slug: string, date = '2025-10-01', translationId = slug) => ({
+    slug,
+    title: `Post ${slug}`,
+    translationId,
+    getMostRecentDate: () => new Date(date),
+  });
+
+  const createPresentation = (
+    id: string,
+    language: string,
+    titles: string[],
+    overrides: Partial<PresentationMetadata> = {}
+  ) =>
+    new Presentation(
+      id,
+      {
+        title: `Slides ${id}`,
+        description: 'Slides',
+        pubDate: '2025-10-01',
+        category: 'Math',
+        tags: [],
+        difficulty: 'beginner',
+        language,
+        estimatedTime: 5,
+        totalSlides: titles.length,
+        author: 'QuiverLearn',
+        ...overrides,
+      },
+      titles.map((title) => ({ title, time: '1 min', content: '<p>Slide</p>' }))
+    );
+
+  beforeEach(() => {
+    posts = {
+      en: [createPost('derivatives'), createPost('integrals'), createPost('limits', '2025-10-20')],
+      id: [createPost('turunan', '2025-10-01', 'derivatives'), createPost('limits', '2025-10-01')],
+    };
+    presentations = {
+      en: [createPresentation('derivatives', 'en', ['Opening', 'Definition'])],
+      id: [createPresentation('derivatives', 'id', ['Pembukaan', 'Definisi'])],
+    };
+
+    postRepository = {
+      findAll: vi.fn(async (language: string) => posts[language] ?? []) as any,
+    };
+
+    presentationRepository = {
+      findAll: vi.fn(async (language: string) => presentations[language] ?? []) as any,
+      findBySlug: vi.fn(),
+      findAllWithLanguages: vi.fn(),
+      findBySlugAnyLanguage: vi.fn(),
+      findByRelatedBlogPost: vi.fn(),
+      getSlugs: vi.fn(),
+    };
+  });
+
+  describe('audit', () => {
+    it('should pair translations by translationId', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      const { groups } = await service.audit();
+      const derivatives = groups.find((group) => group.type === 'post' && group.translationId === 'derivatives');
+
+      expect(derivatives?.versions.en?.url).toBe('/en/blog/derivatives/');
+      expect(derivatives?.versions.id?.url).toBe('/id/blog/turunan/');
+    });
+
+    it('should report content missing in a language', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      const { issues } = await service.audit();
+
+      expect(issues).toContainEqual({
+        kind: 'missing-translation',
+        type: 'post',
+        translationId: 'integrals',
+        language: 'id',
+        message: 'Not translated (available in en)',
+      });
+    });
+
+    it('should report translations updated long before the newest version', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      const { issues } = await service.audit();
+
+      expect(issues.filter((issue) => issue.kind === 'outdated-translation')).toEqual([
+        expect.objectContaining({
+          translationId: 'limits',
+          language: 'id',
+          message: 'Last updated 2025-10-01, 19 days before the en version (2025-10-20)',
+        }),
+      ]);
+    });
+
+    it('should not report drift within the tolerance', async () => {
+      posts.id = [createPost('turunan', '2025-10-05', 'derivatives'), createPost('limits', '2025-10-15')];
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      const { issues } = await service.audit();
+
+      expect(issues.some((issue) => issue.kind === 'outdated-translation')).toBe(false);
+    });
+
+    it('should report presentations with different slide counts', async () => {
+      presentations.id = [createPresentation('derivatives', 'id', ['Pembukaan'])];
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      const { issues } = await service.audit();
+
+      expect(issues).toContainEqual(expect.objectContaining({
+        kind: 'slide-count-mismatch',
+        type: 'presentation',
+        language: 'id',
+        message: '1 sections with 1 slides, en has 2 sections with 2 slides',
+      }));
+    });
+
+    it('should report slide titles that were not translated', async () => {
+      presentations.id = [createPresentation('derivatives', 'id', ['Opening', 'Definisi'])];
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      const { issues } = await service.audit();
+
+      expect(issues).toContainEqual(expect.objectContaining({
+        kind: 'untranslated-slide-titles',
+        language: 'id',
+        message: '1 of 2 slide titles are the same as in en (slides 1)',
+      }));
+    });
+
+    it('should summarize decks whose slide titles are all untranslated', async () => {
+      presentations.id = [createPresentation('derivatives', 'id', ['Opening', 'Definition'])];
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      const { issues } = await service.audit();
+
+      expect(issues).toContainEqual(expect.objectContaining({
+        kind: 'untranslated-slide-titles',
+        message: 'All 2 slide titles are the same as in en',
+      }));
+    });
+
+    it('should load each language once', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      await service.audit();
+      await service.findTranslation('post', 'derivatives', 'en', 'id');
+
+      expect(postRepository.findAll).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('findTranslation', () => {
+    it('should find the version in another language', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      expect((await service.findTranslation('post', 'turunan', 'id', 'en'))?.slug).toBe('derivatives');
+      expect(await service.findTranslation('post', 'integrals', 'en', 'id')).toBeNull();
+    });
+  });
+
+  describe('findVersion', () => {
+    it('should prefer the version in the requested language', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      expect(await service.findVersion('post', 'limits', 'id')).toMatchObject({
+        language: 'id',
+        version: { url: '/id/blog/limits/' },
+      });
+    });
+
+    it('should fall back to another language', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      expect(await service.findVersion('post', 'integrals', 'id')).toMatchObject({
+        language: 'en',
+        version: { url: '/en/blog/integrals/' },
+      });
+      expect(await service.findVersion('post', 'unknown', 'id')).toBeNull();
+    });
+  });
+
+  describe('getAlternateLink', () => {
+    it('should link posts and presentations to their translation', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      expect(await service.getAlternateLink('/en/blog/derivatives/', 'en', 'id')).toEqual({
+        url: '/id/blog/turunan/',
+        translated: true,
+      });
+      expect(await service.getAlternateLink('/id/presentations/derivatives/', 'id', 'en')).toEqual({
+        url: '/en/presentations/derivatives/',
+        translated: true,
+      });
+    });
+
+    it('should fall back to the section index when there is no translation', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      expect(await service.getAlternateLink('/en/blog/integrals/', 'en', 'id')).toEqual({
+        url: '/id/blog/',
+        translated: false,
+      });
+    });
+
+    it('should switch the language prefix of other pages', async () => {
+      const service = new TranslationAuditService(presentationRepository, postRepository);
+
+      expect(await service.getAlternateLink('/en/tags/math', 'en', 'id')).toEqual({
+        url: '/id/tags/math',
+        translated: true,
+      });
+      expect((await service.getAlternateLink('/en/blog/', 'en', 'id')).translated).toBe(true);
+    });
+  });
+});
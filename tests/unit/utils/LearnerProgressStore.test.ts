@@ -0,0 +1,589 @@
+/**
+ * LearnerProgressStore Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LearnerProgressStore, POST_COMPLETION_PERCENT, type SlideView } from '@/utils/progress/LearnerProgressStore';
+import { migrateLearnerProgress, createEmptyProgress } from '@/utils/progress/migrations';
+import { mergeLearnerProgress } from '@/utils/progress/merge';
+import { resolveCompletionRule } from '@/utils/progress/completion';
+import { createMemoryStorage } from '@/utils/storage';
+import type { LearnerProgress } from '@/utils/progress/schemas';
+
+const deckEntry = (currentSlide: number, totalSlides: number, lastVisited = '2025-01-01T12:00:00.000Z') => ({
+  currentSlide,
+  totalSlides,
+  lastVisited,
+  completed: false,
+});
+
+const storedPayload = (presentations: Record<string, unknown> = {}, posts: Record<string, unknown> = {}) =>
+  JSON.stringify({ version: 3, presentations, posts });
+
+// A deck of 10 sections without vertical slides
+const view = (slideIndex: number, dwellMs = 6000, overrides: Partial<SlideView> = {}): SlideView => ({
+  slideIndex,
+  dwellMs,
+  totalSlides: 10,
+  slideCount: 10,
+  ...overrides,
+});
+
+describe('LearnerProgressStore', () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+  });
+
+  const saved = () => JSON.parse(storage.getItem('learnerProgress')!);
+
+  describe('savePresentation', () => {
+    it('should save progress under a versioned payload', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.savePresentation('test-presentation', 5, 10);
+
+      expect(saved()).toEqual({
+        version: 3,
+        presentations: {
+          'test-presentation': {
+            currentSlide: 5,
+            totalSlides: 10,
+            lastVisited: expect.any(String),
+            completed: false,
+          },
+        },
+        posts: {},
+      });
+    });
+
+    it('should save the position in a vertical stack', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.savePresentation('test-presentation', 5, 10, 2);
+
+      expect(saved().presentations['test-presentation']).toMatchObject({ currentSlide: 5, currentVerticalSlide: 2 });
+    });
+
+    it('should not complete the presentation by reaching the last slide', () => {
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.savePresentation('test-presentation', 9, 10)?.completed).toBe(false);
+    });
+
+    it('should keep the visit history', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.recordSlideView('test-presentation', view(0));
+      const progress = store.savePresentation('test-presentation', 1, 10);
+
+      expect(progress?.visitedSlides).toEqual({ 0: 6000 });
+      expect(progress?.slideCount).toBe(10);
+    });
+
+    it('should clear the vertical position when moving back to a section', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.savePresentation('test-presentation', 5, 10, 2);
+
+      expect(store.savePresentation('test-presentation', 6, 10)).not.toHaveProperty('currentVerticalSlide');
+    });
+
+    it('should preserve progress of other presentations and posts', () => {
+      storage.setItem('learnerProgress', storedPayload(
+        { 'other-presentation': deckEntry(3, 5) },
+        { 'some-post': { scrollPercent: 40, lastVisited: '2025-01-01T12:00:00.000Z', completed: false } }
+      ));
+      const store = new LearnerProgressStore(storage);
+
+      store.savePresentation('test-presentation', 2, 10);
+
+      expect(Object.keys(saved().presentations)).toEqual(['other-presentation', 'test-presentation']);
+      expect(saved().posts['some-post']).toBeDefined();
+    });
+
+    it('should handle storage errors gracefully', () => {
+      vi.spyOn(storage, 'setItem').mockImplementation(() => {
+        throw new Error('Storage quota exceeded');
+      });
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.savePresentation('test-presentation', 5, 10)).toBeNull();
+    });
+
+    it('should ignore empty slugs', () => {
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.savePresentation('', 5, 10)).toBeNull();
+      expect(storage.getItem('learnerProgress')).toBeNull();
+    });
+  });
+
+  describe('loadPresentation', () => {
+    it('should return null when nothing was saved', () => {
+      storage.setItem('learnerProgress', storedPayload({ 'other-presentation': deckEntry(3, 5) }));
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.loadPresentation('test-presentation')).toBeNull();
+      expect(new LearnerProgressStore(createMemoryStorage()).loadPresentation('test-presentation')).toBeNull();
+    });
+
+    it('should load saved progress', () => {
+      storage.setItem('learnerProgress', storedPayload({ 'test-presentation': deckEntry(5, 10) }));
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.loadPresentation('test-presentation')).toEqual(deckEntry(5, 10));
+    });
+
+    it('should treat corrupted storage data as no progress', () => {
+      storage.setItem('learnerProgress', 'invalid json {');
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.loadPresentation('test-presentation')).toBeNull();
+    });
+
+    it('should handle storage read errors gracefully', () => {
+      vi.spyOn(storage, 'getItem').mockImplementation(() => {
+        throw new Error('Storage access denied');
+      });
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.loadPresentation('test-presentation')).toBeNull();
+    });
+
+    it('should drop entries that fail validation and keep the rest', () => {
+      storage.setItem('learnerProgress', storedPayload({
+        valid: deckEntry(1, 4),
+        broken: { currentSlide: -1, totalSlides: 4, lastVisited: 'yesterday', completed: false },
+      }));
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.loadPresentation('valid')).not.toBeNull();
+      expect(store.loadPresentation('broken')).toBeNull();
+    });
+  });
+
+  describe('getPresentationPercent', () => {
+    it('should calculate the percentage of slides reached, rounded down', () => {
+      storage.setItem('learnerProgress', storedPayload({
+        half: deckEntry(5, 10),
+        last: deckEntry(9, 10),
+        third: deckEntry(1, 3),
+      }));
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.getPresentationPercent('half')).toBe(50);
+      expect(store.getPresentationPercent('last')).toBe(90);
+      expect(store.getPresentationPercent('third')).toBe(33);
+      expect(store.getPresentationPercent('unknown')).toBe(0);
+    });
+  });
+
+  describe('recordSlideView', () => {
+    it('should add up the time spent on each slide', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.recordSlideView('test-presentation', view(0, 2000));
+      store.recordSlideView('test-presentation', view(2, 1500.4, { verticalIndex: 1 }));
+      const progress = store.recordSlideView('test-presentation', view(0, 3000));
+
+      expect(progress?.visitedSlides).toEqual({ '0': 5000, '2/1': 1500 });
+    });
+
+    it('should not move the saved position', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.savePresentation('test-presentation', 4, 10);
+
+      expect(store.recordSlideView('test-presentation', view(3))?.currentSlide).toBe(4);
+    });
+
+    it('should complete the presentation once 90% of the slides were seen for 5 seconds', () => {
+      const store = new LearnerProgressStore(storage);
+
+      for (let index = 0; index < 8; index++) {
+        store.recordSlideView('test-presentation', view(index));
+      }
+      // Too short to count as seen
+      expect(store.recordSlideView('test-presentation', view(8, 4999))?.completed).toBe(false);
+
+      const progress = store.recordSlideView('test-presentation', view(9));
+      expect(progress?.completed).toBe(true);
+      expect(progress?.completedAt).toBe(progress?.lastVisited);
+    });
+
+    it('should count vertical slides towards completion', () => {
+      const store = new LearnerProgressStore(storage);
+
+      for (let index = 0; index < 9; index++) {
+        store.recordSlideView('test-presentation', view(index, 6000, { slideCount: 12 }));
+      }
+
+      expect(store.loadPresentation('test-presentation')?.completed).toBe(false);
+    });
+
+    it('should keep the first completion date', () => {
+      const store = new LearnerProgressStore(storage, resolveCompletionRule({ minShare: 0.1 }));
+
+      const completedAt = store.recordSlideView('test-presentation', view(0))?.completedAt;
+      store.savePresentation('test-presentation', 0, 10);
+      const progress = store.recordSlideView('test-presentation', view(1));
+
+      expect(progress?.completed).toBe(true);
+      expect(progress?.completedAt).toBe(completedAt);
+    });
+
+    it('should use the completion rule of the store', () => {
+      const store = new LearnerProgressStore(storage, { minShare: 0.2, minDwellSeconds: 10 });
+
+      store.recordSlideView('test-presentation', view(0, 10000));
+      expect(store.recordSlideView('test-presentation', view(1, 9000))?.completed).toBe(false);
+      expect(store.recordSlideView('test-presentation', view(1, 1000))?.completed).toBe(true);
+    });
+
+    it('should ignore empty slugs', () => {
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.recordSlideView('', view(0))).toBeNull();
+    });
+  });
+
+  describe('getSeenPercent', () => {
+    it('should calculate the percentage of slides seen, rounded down', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.recordSlideView('test-presentation', view(0, 6000, { slideCount: 3 }));
+      store.recordSlideView('test-presentation', view(1, 1000, { slideCount: 3 }));
+
+      expect(store.getSeenPercent('test-presentation')).toBe(33);
+      expect(store.getSeenPercent('unknown')).toBe(0);
+    });
+  });
+
+  describe('getOverallCompletionPercentage', () => {
+    it('should calculate the percentage of completed presentations', () => {
+      storage.setItem('learnerProgress', storedPayload({
+        done: { ...deckEntry(3, 10), completedAt: '2025-01-01T12:00:00.000Z', completed: true },
+        started: deckEntry(9, 10),
+      }));
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.getOverallCompletionPercentage(['done', 'started', 'unseen'])).toBe(33);
+      expect(store.getOverallCompletionPercentage([])).toBe(0);
+    });
+  });
+
+  describe('savePost', () => {
+    it('should save the scroll position and section reached', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.savePost('linear-regression', 42.4, 'finding-the-best-line');
+
+      expect(saved().posts['linear-regression']).toEqual({
+        scrollPercent: 42,
+        section: 'finding-the-best-line',
+        lastVisited: expect.any(String),
+        completed: false,
+      });
+    });
+
+    it('should only move the position forward', () => {
+      const store = new LearnerProgressStore(storage);
+
+      store.savePost('linear-regression', 60, 'matrix-formulation');
+      const progress = store.savePost('linear-regression', 20, 'the-marketing-problem');
+
+      expect(progress).toMatchObject({ scrollPercent: 60, section: 'matrix-formulation' });
+    });
+
+    it('should mark the post as read near the end and keep it read', () => {
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.savePost('linear-regression', POST_COMPLETION_PERCENT - 1)?.completed).toBe(false);
+      expect(store.savePost('linear-regression', POST_COMPLETION_PERCENT)?.completed).toBe(true);
+      expect(store.savePost('linear-regression', 10)?.completed).toBe(true);
+    });
+
+    it('should keep the date the post was first read', () => {
+      vi.useFakeTimers();
+      const store = new LearnerProgressStore(storage);
+
+      vi.setSystemTime(new Date('2025-01-02T00:00:00.000Z'));
+      store.savePost('linear-regression', 50);
+      store.savePost('linear-regression', 100);
+      vi.setSystemTime(new Date('2025-01-09T00:00:00.000Z'));
+      const progress = store.savePost('linear-regression', 100);
+      vi.useRealTimers();
+
+      expect(progress).toMatchObject({
+        lastVisited: '2025-01-09T00:00:00.000Z',
+        completedAt: '2025-01-02T00:00:00.000Z',
+        completed: true,
+      });
+    });
+
+    it('should clamp the position to 0-100', () => {
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.savePost('linear-regression', 140)?.scrollPercent).toBe(100);
+    });
+  });
+
+  describe('clear', () => {
+    it('should clear one presentation or post', () => {
+      storage.setItem('learnerProgress', storedPayload(
+        { 'test-presentation': deckEntry(5, 10), 'other-presentation': deckEntry(3, 5) },
+        { post: { scrollPercent: 40, lastVisited: '2025-01-01T12:00:00.000Z', completed: false } }
+      ));
+      const store = new LearnerProgressStore(storage);
+
+      store.clearPresentation('test-presentation');
+      store.clearPost('post');
+
+      expect(Object.keys(saved().presentations)).toEqual(['other-presentation']);
+      expect(saved().posts).toEqual({});
+    });
+
+    it('should handle clearing missing entries gracefully', () => {
+      const store = new LearnerProgressStore(storage);
+
+      expect(() => store.clearPresentation('test-presentation')).not.toThrow();
+    });
+
+    it('should clear everything', () => {
+      storage.setItem('learnerProgress', storedPayload({ 'test-presentation': deckEntry(5, 10) }));
+      storage.setItem('presentationProgress', JSON.stringify({ old: deckEntry(1, 2) }));
+      const store = new LearnerProgressStore(storage);
+
+      store.clearAll();
+
+      expect(store.getAll()).toEqual(createEmptyProgress());
+    });
+  });
+
+  describe('migration', () => {
+    it('should migrate progress saved before the store', () => {
+      storage.setItem('presentationProgress', JSON.stringify({ 'test-presentation': deckEntry(5, 10) }));
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.loadPresentation('test-presentation')).toEqual(deckEntry(5, 10));
+      expect(storage.getItem('presentationProgress')).toBeNull();
+      expect(saved().presentations['test-presentation']).toEqual(deckEntry(5, 10));
+    });
+
+    it('should keep the most recent entry when both formats have a presentation', () => {
+      storage.setItem('learnerProgress', storedPayload({
+        newer: deckEntry(4, 10, '2025-02-01T00:00:00.000Z'),
+        older: deckEntry(1, 10, '2025-01-01T00:00:00.000Z'),
+      }));
+      storage.setItem('presentationProgress', JSON.stringify({
+        newer: deckEntry(2, 10, '2025-01-15T00:00:00.000Z'),
+        older: deckEntry(3, 10, '2025-01-15T00:00:00.000Z'),
+      }));
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.loadPresentation('newer')?.currentSlide).toBe(4);
+      expect(store.loadPresentation('older')?.currentSlide).toBe(3);
+    });
+  });
+
+  describe('progress from a newer version', () => {
+    const newerPayload = JSON.stringify({ version: 99, presentations: { deck: { format: 'unknown' } }, courses: {} });
+
+    it('should not write over it', () => {
+      storage.setItem('learnerProgress', newerPayload);
+      storage.setItem('presentationProgress', JSON.stringify({ legacy: deckEntry(1, 10) }));
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.getAll()).toEqual(createEmptyProgress());
+      expect(store.savePresentation('deck', 3, 10)).toBeNull();
+      expect(store.recordSlideView('deck', view(3))).toBeNull();
+      expect(store.savePost('post', 50)).toBeNull();
+      expect(store.importProgress(createEmptyProgress())).toBeNull();
+      store.clearPresentation('deck');
+
+      expect(store.isReadOnly()).toBe(true);
+      expect(storage.getItem('learnerProgress')).toBe(newerPayload);
+      // The legacy key is left for the newer version to migrate
+      expect(storage.getItem('presentationProgress')).not.toBeNull();
+    });
+
+    it('should save as usual otherwise', () => {
+      const store = new LearnerProgressStore(storage);
+
+      expect(store.savePresentation('deck', 3, 10)).not.toBeNull();
+      expect(store.isReadOnly()).toBe(false);
+    });
+  });
+
+  describe('importProgress', () => {
+    it('should merge imported progress into the saved progress', () => {
+      const store = new LearnerProgressStore(storage);
+      store.savePresentation('here', 2, 10);
+
+      const merged = store.importProgress({
+        version: 3,
+        presentations: { there: deckEntry(4, 10) },
+        posts: { post: { scrollPercent: 40, lastVisited: '2025-01-01T12:00:00.000Z', completed: false } },
+      });
+
+      expect(Object.keys(merged!.presentations)).toEqual(['here', 'there']);
+      expect(saved().presentations.there).toEqual(deckEntry(4, 10));
+      expect(saved().posts.post.scrollPercent).toBe(40);
+    });
+  });
+
+  describe('Integration with browser localStorage', () => {
+    it('should work with global localStorage if no storage provided', () => {
+      const store = new LearnerProgressStore();
+
+      expect(() => store.savePresentation('test', 0, 5)).not.toThrow();
+    });
+  });
+});
+
+describe('migrateLearnerProgress', () => {
+  it('should treat payloads without a version as presentation progress', () => {
+    expect(migrateLearnerProgress({ deck: deckEntry(1, 3) })).toEqual({
+      version: 3,
+      presentations: { deck: deckEntry(1, 3) },
+      posts: {},
+    });
+  });
+
+  it('should date the completion of decks completed before visit history', () => {
+    const progress = migrateLearnerProgress({
+      version: 1,
+      presentations: { done: { ...deckEntry(2, 3), completed: true }, started: deckEntry(1, 3) },
+      posts: {},
+    });
+
+    expect(progress.presentations.done).toEqual({
+      ...deckEntry(2, 3),
+      completedAt: '2025-01-01T12:00:00.000Z',
+      completed: true,
+    });
+    expect(progress.presentations.started).toEqual(deckEntry(1, 3));
+  });
+
+  it('should date the completion of posts read before completion dates', () => {
+    const read = { scrollPercent: 95, lastVisited: '2025-01-03T00:00:00.000Z', completed: true };
+    const started = { scrollPercent: 30, lastVisited: '2025-01-04T00:00:00.000Z', completed: false };
+
+    const progress = migrateLearnerProgress({ version: 2, presentations: {}, posts: { read, started } });
+
+    expect(progress.posts).toEqual({ read: { ...read, completedAt: '2025-01-03T00:00:00.000Z' }, started });
+  });
+
+  it('should return empty progress for unreadable or newer payloads', () => {
+    expect(migrateLearnerProgress(null)).toEqual(createEmptyProgress());
+    expect(migrateLearnerProgress([1, 2])).toEqual(createEmptyProgress());
+    expect(migrateLearnerProgress({ version: 99, presentations: {}, posts: {} })).toEqual(createEmptyProgress());
+  });
+});
+
+describe('mergeLearnerProgress', () => {
+  it('should keep entries from both sides', () => {
+    const merged = mergeLearnerProgress(
+      { version: 3, presentations: { a: deckEntry(1, 3) }, posts: {} },
+      { version: 3, presentations: { b: deckEntry(0, 3) }, posts: {} }
+    );
+
+    expect(Object.keys(merged.presentations)).toEqual(['a', 'b']);
+  });
+
+  it('should keep the earliest completion of a presentation', () => {
+    const completed = (completedAt: string, lastVisited: string) =>
+      ({ ...deckEntry(1, 3, lastVisited), completedAt, completed: true });
+
+    const merged = mergeLearnerProgress(
+      { version: 3, presentations: { a: completed('2025-01-05T00:00:00.000Z', '2025-01-05T00:00:00.000Z') }, posts: {} },
+      {
+        version: 3,
+        presentations: {
+          a: completed('2025-01-02T00:00:00.000Z', '2025-01-03T00:00:00.000Z'),
+          b: deckEntry(0, 3, '2025-01-01T00:00:00.000Z'),
+        },
+        posts: {},
+      }
+    );
+    const newerIncomplete = mergeLearnerProgress(merged, {
+      version: 3,
+      presentations: { a: deckEntry(0, 3, '2025-02-01T00:00:00.000Z') },
+      posts: {},
+    });
+
+    expect(merged.presentations.a.completedAt).toBe('2025-01-02T00:00:00.000Z');
+    expect(newerIncomplete.presentations.a).toMatchObject({
+      lastVisited: '2025-02-01T00:00:00.000Z',
+      completedAt: '2025-01-02T00:00:00.000Z',
+      completed: true,
+    });
+  });
+
+  it('should keep the furthest slide and the newest visit', () => {
+    const merged = mergeLearnerProgress(
+      { version: 3, presentations: { a: { ...deckEntry(6, 10, '2025-01-01T00:00:00.000Z'), currentVerticalSlide: 1 } }, posts: {} },
+      { version: 3, presentations: { a: deckEntry(3, 12, '2025-01-08T00:00:00.000Z') }, posts: {} }
+    );
+
+    expect(merged.presentations.a).toEqual({
+      currentSlide: 6,
+      currentVerticalSlide: 1,
+      totalSlides: 12,
+      lastVisited: '2025-01-08T00:00:00.000Z',
+      completed: false,
+    });
+  });
+
+  it('should combine the slides viewed on both sides', () => {
+    const merged = mergeLearnerProgress(
+      { version: 3, presentations: { a: { ...deckEntry(1, 10), visitedSlides: { 0: 6000, 1: 2000 } } }, posts: {} },
+      { version: 3, presentations: { a: { ...deckEntry(1, 10), visitedSlides: { 1: 7000, '2/1': 5000 } } }, posts: {} }
+    );
+
+    expect(merged.presentations.a.visitedSlides).toEqual({ 0: 6000, 1: 7000, '2/1': 5000 });
+  });
+
+  it('should keep the furthest reading position of a post', () => {
+    const post = (scrollPercent: number, section: string, lastVisited: string, completed = false) =>
+      ({ scrollPercent, section, lastVisited, completed });
+
+    const merged = mergeLearnerProgress(
+      { version: 3, presentations: {}, posts: { p: post(80, 'end', '2025-01-01T00:00:00.000Z', true) } },
+      { version: 3, presentations: {}, posts: { p: post(30, 'start', '2025-01-09T00:00:00.000Z') } }
+    );
+
+    expect(merged.posts.p).toEqual(post(80, 'end', '2025-01-09T00:00:00.000Z', true));
+  });
+
+  it('should keep the earliest completion of a post', () => {
+    const read = (completedAt: string, lastVisited: string) =>
+      ({ scrollPercent: 100, lastVisited, completedAt, completed: true });
+
+    const merged = mergeLearnerProgress(
+      { version: 3, presentations: {}, posts: { p: read('2025-01-05T00:00:00.000Z', '2025-01-06T00:00:00.000Z') } },
+      { version: 3, presentations: {}, posts: { p: read('2025-01-02T00:00:00.000Z', '2025-01-09T00:00:00.000Z') } }
+    );
+
+    expect(merged.posts.p).toMatchObject({ lastVisited: '2025-01-09T00:00:00.000Z', completedAt: '2025-01-02T00:00:00.000Z' });
+  });
+
+  it('should give the same result when merged again or the other way round', () => {
+    const a: LearnerProgress = {
+      version: 3,
+      presentations: { deck: { ...deckEntry(2, 10, '2025-01-01T00:00:00.000Z'), visitedSlides: { 0: 6000 } } },
+      posts: {},
+    };
+    const b: LearnerProgress = {
+      version: 3,
+      presentations: { deck: { ...deckEntry(5, 10, '2025-01-02T00:00:00.000Z'), visitedSlides: { 4: 9000 } } },
+      posts: {},
+    };
+    const merged = mergeLearnerProgress(a, b);
+
+    expect(mergeLearnerProgress(b, a)).toEqual(merged);
+    expect(mergeLearnerProgress(merged, b)).toEqual(merged);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * QuizScoreStore Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { QuizScoreStore } from '@/utils/quiz/QuizScoreStore';
+
+describe('QuizScoreStore', () => {
+  let data: Record<string, string>;
+  let mockStorage: Storage;
+
+  beforeEach(() => {
+    data = {};
+    mockStorage = {
+      getItem: vi.fn((key: string) => data[key] ?? null),
+      setItem: vi.fn((key: string, value: string) => {
+        data[key] = value;
+      }),
+      removeItem: vi.fn(),
+      clear: vi.fn(),
+      key: vi.fn(),
+      length: 0,
+    };
+  });
+
+  describe('recordAnswer', () => {
+    it('should save answers under the page and quiz', () => {
+      const store = new QuizScoreStore(mockStorage);
+
+      store.recordAnswer('/en/blog/post', 'basics', 'q1', true, 3);
+
+      expect(mockStorage.setItem).toHaveBeenCalledWith('quizScores', expect.any(String));
+      expect(JSON.parse(data.quizScores)['/en/blog/post'].basics).toEqual({
+        totalQuestions: 3,
+        lastAttempt: expect.any(String),
+        answers: {
+          q1: { correct: true, attempts: 1, answeredAt: expect.any(String) },
+        },
+      });
+    });
+
+    it('should keep the latest result and count attempts', () => {
+      const store = new QuizScoreStore(mockStorage);
+
+      store.recordAnswer('/en/blog/post', 'basics', 'q1', false, 3);
+      const score = store.recordAnswer('/en/blog/post', 'basics', 'q1', true, 3);
+
+      expect(score!.answers.q1).toMatchObject({ correct: true, attempts: 2 });
+    });
+
+    it('should ignore answers without identifiers', () => {
+      const store = new QuizScoreStore(mockStorage);
+
+      expect(store.recordAnswer('', 'basics', 'q1', true, 1)).toBeNull();
+      expect(mockStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when storage fails', () => {
+      mockStorage.setItem = vi.fn(() => {
+        throw new Error('QuotaExceededError');
+      });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const store = new QuizScoreStore(mockStorage);
+
+      expect(store.recordAnswer('/en/blog/post', 'basics', 'q1', true, 1)).toBeNull();
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('scores', () => {
+    it('should summarise a quiz and a whole page', () => {
+      const store = new QuizScoreStore(mockStorage);
+
+      store.recordAnswer('/en/blog/post', 'basics', 'q1', true, 3);
+      store.recordAnswer('/en/blog/post', 'basics', 'q2', false, 3);
+      store.recordAnswer('/en/blog/post', 'advanced', 'q1', true, 2);
+      store.recordAnswer('/en/blog/other', 'basics', 'q1', true, 1);
+
+      expect(store.getQuizScore('/en/blog/post', 'basics')).toEqual({ correct: 1, answered: 2, total: 3 });
+      expect(store.getScopeScore('/en/blog/post')).toEqual({ correct: 2, answered: 3, total: 5 });
+      expect(store.getQuizScore('/en/blog/post', 'missing')).toEqual({ correct: 0, answered: 0, total: 0 });
+    });
+
+    it('should treat corrupted data as empty', () => {
+      data.quizScores = 'not json';
+      const store = new QuizScoreStore(mockStorage);
+
+      expect(store.getAllScores()).toEqual({});
+      expect(store.getScopeScore('/en/blog/post')).toEqual({ correct: 0, answered: 0, total: 0 });
+    });
+  });
+
+  describe('clear', () => {
+    it('should clear one quiz and drop empty pages', () => {
+      const store = new QuizScoreStore(mockStorage);
+      store.recordAnswer('/en/blog/post', 'basics', 'q1', true, 1);
+      store.recordAnswer('/en/blog/post', 'advanced', 'q1', true, 1);
+
+      store.clear('/en/blog/post', 'basics');
+      expect(store.load('/en/blog/post', 'basics')).toBeNull();
+      expect(store.load('/en/blog/post', 'advanced')).not.toBeNull();
+
+      store.clear('/en/blog/post', 'advanced');
+      expect(store.getAllScores()).toEqual({});
+    });
+
+    it('should clear every quiz on a page', () => {
+      const store = new QuizScoreStore(mockStorage);
+      store.recordAnswer('/en/blog/post', 'basics', 'q1', true, 1);
+      store.recordAnswer('/en/blog/other', 'basics', 'q1', true, 1);
+
+      store.clear('/en/blog/post');
+
+      expect(Object.keys(store.getAllScores())).toEqual(['/en/blog/other']);
+    });
+  });
+
+  it('should fall back to a no-op storage without localStorage', () => {
+    const original = globalThis.localStorage;
+    vi.stubGlobal('localStorage', undefined);
+
+    try {
+      const store = new QuizScoreStore();
+      expect(store.recordAnswer('/en/blog/post', 'basics', 'q1', true, 1)).not.toBeNull();
+      expect(store.load('/en/blog/post', 'basics')).toBeNull();
+    } finally {
+      vi.stubGlobal('localStorage', original);
+      vi.unstubAllGlobals();
+    }
+  });
+});
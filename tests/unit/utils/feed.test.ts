@@ -0,0 +1,144 @@
+/**
+ * Feed formats and feed content Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRssString } from '@astrojs/rss';
+import {
+  getFeedPath,
+  renderAtomFeed,
+  renderJsonFeed,
+  toRssOptions,
+  type Feed,
+} from '@/utils/feed/feed';
+import { renderFeedContent } from '@/utils/feed/feedContent';
+
+const feed = (): Feed => ({
+  language: 'en',
+  title: 'QuiverLearn',
+  description: 'Posts & presentations',
+  homeUrl: 'https://quivernets.com/en/',
+  feedUrls: {
+    rss: 'https://quivernets.com/en/rss.xml',
+    atom: 'https://quivernets.com/en/atom.xml',
+    json: 'https://quivernets.com/en/feed.json',
+  },
+  author: 'QuiverLearn Team',
+  items: [
+    {
+      type: 'post',
+      url: 'https://quivernets.com/en/blog/functions/',
+      title: 'Functions <basics>',
+      summary: 'What a function is',
+      content: '<p>A <em>function</em> maps inputs to outputs.</p>',
+      published: new Date('2025-01-02T00:00:00.000Z'),
+      updated: new Date('2025-01-05T00:00:00.000Z'),
+      author: 'Ada',
+      categories: ['mathematics', 'functions'],
+    },
+    {
+      type: 'presentation',
+      url: 'https://quivernets.com/en/presentations/derivatives/',
+      title: 'Derivatives',
+      summary: 'Slides on derivatives',
+      published: new Date('2025-01-01T00:00:00.000Z'),
+      author: 'QuiverLearn',
+      categories: ['calculus'],
+    },
+  ],
+});
+
+describe('feed paths', () => {
+  it('should put each format below the language', () => {
+    expect(getFeedPath('id', 'rss')).toBe('/id/rss.xml');
+    expect(getFeedPath('en', 'atom')).toBe('/en/atom.xml');
+    expect(getFeedPath('en', 'json')).toBe('/en/feed.json');
+  });
+});
+
+describe('RSS feed', () => {
+  it('should render items with categories, creator and full content', async () => {
+    const xml = await getRssString(toRssOptions(feed()));
+
+    expect(xml).toContain('<language>en</language>');
+    expect(xml).toContain('<atom:link href="https://quivernets.com/en/rss.xml" rel="self" type="application/rss+xml"/>');
+    expect(xml).toContain('<link>https://quivernets.com/en/blog/functions/</link>');
+    expect(xml).toContain('<category>mathematics</category><category>functions</category>');
+    expect(xml).toContain('<dc:creator>Ada</dc:creator>');
+    expect(xml).toContain('<content:encoded>&lt;p&gt;A &lt;em&gt;function&lt;/em&gt;');
+    expect(xml).toContain('<title>Functions &lt;basics&gt;</title>');
+  });
+});
+
+describe('Atom feed', () => {
+  it('should render the feed and its entries', () => {
+    const xml = renderAtomFeed(feed());
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">');
+    expect(xml).toContain('<link rel="self" type="application/atom+xml" href="https://quivernets.com/en/atom.xml"/>');
+    // Latest change of any entry
+    expect(xml).toContain('<updated>2025-01-05T00:00:00.000Z</updated>\n  <author>');
+    expect(xml).toContain('<title>Functions &lt;basics&gt;</title>');
+    expect(xml).toContain('<category term="mathematics"/>');
+    expect(xml).toContain('<content type="html">&lt;p&gt;A &lt;em&gt;function&lt;/em&gt;');
+    expect(xml.match(/<entry>/g)).toHaveLength(2);
+    expect(xml.match(/<content /g)).toHaveLength(1);
+  });
+});
+
+describe('JSON feed', () => {
+  it('should render JSON Feed 1.1', () => {
+    const json = JSON.parse(renderJsonFeed(feed()));
+
+    expect(json).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      feed_url: 'https://quivernets.com/en/feed.json',
+      language: 'en',
+    });
+    expect(json.items[0]).toMatchObject({
+      id: 'https://quivernets.com/en/blog/functions/',
+      content_html: '<p>A <em>function</em> maps inputs to outputs.</p>',
+      date_modified: '2025-01-05T00:00:00.000Z',
+      tags: ['mathematics', 'functions'],
+    });
+    // Summary-only items still need content
+    expect(json.items[1]).toMatchObject({ content_text: 'Slides on derivatives' });
+    expect(json.items[1]).not.toHaveProperty('content_html');
+  });
+});
+
+describe('feed content', () => {
+  const site = 'https://quivernets.com/';
+
+  it('should render Markdown with math and absolute links', async () => {
+    const html = await renderFeedContent('See [limits](/en/blog/limits/) and $x^2$.\n\n| a |\n|---|\n| 1 |', 'md', site);
+
+    expect(html).toContain('href="https://quivernets.com/en/blog/limits/"');
+    expect(html).toContain('class="katex"');
+    expect(html).toContain('<table>');
+  });
+
+  it('should flatten MDX components', async () => {
+    const source = [
+      "import DefinitionBox from '../../components/boxes/DefinitionBox.astro';",
+      '',
+      '<DefinitionBox title="Function">',
+      'A rule that maps each input to one output.',
+      '</DefinitionBox>',
+      '',
+      '{/* a comment */}',
+      '',
+      '<MiniDeck slides="1-3" />',
+      '',
+      '<div class="note">Plain HTML stays</div>',
+    ].join('\n');
+
+    const html = await renderFeedContent(source, 'mdx', site);
+
+    expect(html).not.toContain('import');
+    expect(html).not.toContain('MiniDeck');
+    expect(html).toContain('<div><p><strong>Function</strong></p>');
+    expect(html).toContain('A rule that maps each input to one output.');
+    expect(html).toContain('<div class="note">Plain HTML stays</div>');
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * HTML helpers Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeHtml } from '@/utils/html';
+
+describe('escapeHtml', () => {
+	it('should escape markup and both quote styles', () => {
+		expect(escapeHtml(`<a href="x" title='y'>Q&A</a>`)).toBe(
+			'&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;Q&amp;A&lt;/a&gt;'
+		);
+	});
+
+	it('should escape existing entities as text', () => {
+		expect(escapeHtml('&lt;')).toBe('&amp;lt;');
+	});
+});
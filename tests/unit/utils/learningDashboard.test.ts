@@ -0,0 +1,140 @@
+/**
+ * Learning dashboard Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildLearningDashboard } from '@/utils/progress/learningDashboard';
+import { createEmptyProgress } from '@/utils/progress/migrations';
+import type { LearnerProgress } from '@/utils/progress/schemas';
+import type { LearningCatalogueItem } from '@/services/learning/LearningCatalogueService';
+
+const item = (
+  type: LearningCatalogueItem['type'],
+  slug: string,
+  overrides: Partial<LearningCatalogueItem> = {}
+): LearningCatalogueItem => ({
+  type,
+  slug,
+  title: slug,
+  description: `About ${slug}`,
+  url: type === 'post' ? `/en/blog/${slug}/` : `/en/presentations/${slug}/`,
+  category: 'machine-learning',
+  difficulty: 'beginner',
+  tags: [],
+  ...overrides,
+});
+
+const catalogue = [
+  item('post', 'linear-regression', { tags: ['Regression', 'statistics'] }),
+  item('post', 'logistic-regression', { difficulty: 'intermediate', tags: ['regression', 'classification'] }),
+  item('post', 'functions', { category: undefined, tags: ['algebra'] }),
+  item('presentation', 'gradient-descent', { difficulty: 'intermediate', tags: ['optimization'] }),
+  item('presentation', 'least-squares', { difficulty: 'advanced', tags: ['regression', 'statistics'] }),
+  item('presentation', 'residuals', { tags: ['regression', 'statistics'] }),
+];
+
+const progress = (): LearnerProgress => ({
+  ...createEmptyProgress(),
+  posts: {
+    'linear-regression': {
+      scrollPercent: 95,
+      // Read again since
+      lastVisited: '2025-01-08T00:00:00.000Z',
+      completedAt: '2025-01-03T00:00:00.000Z',
+      completed: true,
+    },
+    functions: {
+      scrollPercent: 40,
+      section: 'domain-and-range',
+      lastVisited: '2025-01-05T00:00:00.000Z',
+      completed: false,
+    },
+  },
+  presentations: {
+    'gradient-descent': {
+      currentSlide: 6,
+      totalSlides: 10,
+      slideCount: 10,
+      visitedSlides: { 0: 6000, 1: 6000, 2: 6000, 3: 1000 },
+      lastVisited: '2025-01-04T00:00:00.000Z',
+      completed: false,
+    },
+  },
+});
+
+describe('buildLearningDashboard', () => {
+  it('should list items in progress, most recent first, with a resume link', () => {
+    const { inProgress } = buildLearningDashboard(catalogue, progress());
+
+    expect(inProgress.map((entry) => [entry.item.slug, entry.percent, entry.resumeUrl])).toEqual([
+      ['functions', 40, '/en/blog/functions/#domain-and-range'],
+      // Slides seen by the completion rule, not the slide reached
+      ['gradient-descent', 30, '/en/presentations/gradient-descent/'],
+    ]);
+  });
+
+  it('should list completed items with their completion date', () => {
+    const data = progress();
+    data.presentations.residuals = {
+      currentSlide: 0,
+      totalSlides: 4,
+      lastVisited: '2025-01-09T00:00:00.000Z',
+      completedAt: '2025-01-02T00:00:00.000Z',
+      completed: true,
+    };
+
+    const { completed } = buildLearningDashboard(catalogue, data);
+
+    expect(completed.map((entry) => [entry.item.slug, entry.percent, entry.completedAt])).toEqual([
+      ['linear-regression', 100, '2025-01-03T00:00:00.000Z'],
+      ['residuals', 100, '2025-01-02T00:00:00.000Z'],
+    ]);
+  });
+
+  it('should fall back to the slide reached for progress without visit history', () => {
+    const data = progress();
+    data.presentations['gradient-descent'] = {
+      currentSlide: 5,
+      totalSlides: 10,
+      lastVisited: '2025-01-04T00:00:00.000Z',
+      completed: false,
+    };
+
+    const { inProgress } = buildLearningDashboard(catalogue, data);
+
+    expect(inProgress.find((entry) => entry.item.slug === 'gradient-descent')?.percent).toBe(50);
+  });
+
+  it('should count items by category and difficulty', () => {
+    const { byCategory, byDifficulty } = buildLearningDashboard(catalogue, progress());
+
+    expect(byCategory).toEqual([
+      { key: 'machine-learning', total: 5, inProgress: 1, completed: 1 },
+      { key: null, total: 1, inProgress: 1, completed: 0 },
+    ]);
+    expect(byDifficulty.map((total) => total.key)).toEqual(['beginner', 'intermediate', 'advanced']);
+    expect(byDifficulty[0]).toEqual({ key: 'beginner', total: 3, inProgress: 1, completed: 1 });
+  });
+
+  it('should suggest the unstarted item sharing the most tags with completed ones', () => {
+    // least-squares and residuals share two tags; residuals is easier
+    expect(buildLearningDashboard(catalogue, progress()).suggestion?.slug).toBe('residuals');
+  });
+
+  it('should not suggest anything before an item is completed', () => {
+    const data = progress();
+    data.posts['linear-regression'].completed = false;
+
+    expect(buildLearningDashboard(catalogue, data).suggestion).toBeNull();
+  });
+
+  it('should ignore progress of items missing from the catalogue', () => {
+    const data = createEmptyProgress();
+    data.posts['removed-post'] = { scrollPercent: 10, lastVisited: '2025-01-01T00:00:00.000Z', completed: false };
+
+    const dashboard = buildLearningDashboard(catalogue, data);
+
+    expect(dashboard.inProgress).toEqual([]);
+    expect(dashboard.completed).toEqual([]);
+  });
+});
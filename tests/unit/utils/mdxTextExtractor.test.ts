@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+	extractTextSections,
+	extractPlainText,
+	latexToText,
+} from '@/utils/mdxTextExtractor';
+
+const sampleBody = `
+import DefinitionBox from '../../components/boxes/DefinitionBox.astro';
+import InsightBox from '../../components/boxes/InsightBox.astro';
+
+Imagine you're a **marketing manager** trying to predict sales.
+
+## What is a Linear Function?
+
+<DefinitionBox title="Linear Function">
+A linear function has the form $y = w_0 + w_1x$ where $w_1$ is the *slope*.
+</DefinitionBox>
+
+| Feature | Value |
+|---------|-------|
+| Budget  | 100   |
+
+## Finding the Best Line
+
+### First Attempt: Sum of Errors
+
+$$
+\\frac{\\partial f}{\\partial w_0} = \\sum_{i=1}^m \\varepsilon_i
+$$
+
+<InsightBox>
+See the [normal equation](/en/blog/normal-equation/) for details.
+</InsightBox>
+
+## Finding the Best Line
+Repeated heading.
+`;
+
+describe('mdxTextExtractor.ts', () => {
+	describe('latexToText', () => {
+		it('should turn fractions and operators into words', () => {
+			expect(latexToText('\\frac{\\partial f}{\\partial w}')).toBe('partial f / partial w');
+			expect(latexToText('\\sum_{i=1}^m x_i')).toBe('sum i=1 m x i');
+		});
+
+		it('should spell out Greek letters including variants', () => {
+			expect(latexToText('\\alpha + \\varepsilon')).toBe('alpha + epsilon');
+			expect(latexToText('\\Sigma')).toBe('sigma');
+		});
+
+		it('should keep the contents of text and accent commands', () => {
+			expect(latexToText('\\hat{y} = \\text{price}')).toBe('y = price');
+			expect(latexToText('\\mathbf{x}')).toBe('x');
+		});
+
+		it('should drop layout commands', () => {
+			expect(latexToText('\\left( a \\right) \\, b \\\\ c')).toBe('( a ) b c');
+		});
+	});
+
+	describe('extractTextSections', () => {
+		it('should drop import lines and component tags', () => {
+			const text = extractPlainText(sampleBody);
+
+			expect(text).not.toContain('import');
+			expect(text).not.toContain('DefinitionBox');
+			expect(text).not.toContain('<');
+		});
+
+		it('should keep text inside box components and their titles', () => {
+			const text = extractPlainText(sampleBody);
+
+			expect(text).toContain('Linear Function A linear function has the form');
+			expect(text).toContain('See the normal equation for details.');
+		});
+
+		it('should strip markdown formatting and table syntax', () => {
+			const text = extractPlainText(sampleBody);
+
+			expect(text).toContain('marketing manager trying');
+			expect(text).toContain('slope');
+			expect(text).not.toContain('**');
+			expect(text).not.toContain('|');
+			expect(text).not.toContain('---');
+			expect(text).toContain('Feature Value');
+		});
+
+		it('should convert inline and display math', () => {
+			const text = extractPlainText(sampleBody);
+
+			expect(text).toContain('y = w 0 + w 1x');
+			expect(text).toContain('partial f / partial w 0 = sum i=1 m epsilon i');
+			expect(text).not.toContain('\\frac');
+			expect(text).not.toContain('$');
+		});
+
+		it('should key sections by heading IDs', () => {
+			const sections = extractTextSections(sampleBody);
+
+			expect(sections.map((s) => s.id)).toEqual([
+				'',
+				'what-is-a-linear-function',
+				'finding-the-best-line',
+				'first-attempt-sum-of-errors',
+				'finding-the-best-line-1',
+			]);
+			expect(sections[3]).toMatchObject({ heading: 'First Attempt: Sum of Errors', level: 3 });
+			expect(sections[0].text).toBe("Imagine you're a marketing manager trying to predict sales.");
+		});
+
+		it('should ignore headings inside code fences', () => {
+			const sections = extractTextSections('Intro\n\n```python\n# not a heading\nx = 1\n```\n');
+
+			expect(sections).toHaveLength(1);
+			expect(sections[0].text).toBe('Intro # not a heading x = 1');
+		});
+
+		it('should return no sections for an empty body', () => {
+			expect(extractTextSections('')).toEqual([]);
+			expect(extractPlainText('')).toBe('');
+		});
+	});
+});
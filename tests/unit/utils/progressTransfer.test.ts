@@ -0,0 +1,137 @@
+/**
+ * Progress transfer Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_FRAGMENT_LENGTH,
+  computeChecksum,
+  createProgressExport,
+  createTransferQrCode,
+  decodeProgressFragment,
+  encodeProgressFragment,
+  parseProgressFile,
+  readProgressExport,
+} from '@/utils/progress/progressTransfer';
+import { createEmptyProgress } from '@/utils/progress/migrations';
+import type { LearnerProgress } from '@/utils/progress/schemas';
+
+const progress = (): LearnerProgress => ({
+  ...createEmptyProgress(),
+  presentations: {
+    'linear-regression': {
+      currentSlide: 3,
+      totalSlides: 10,
+      slideCount: 12,
+      visitedSlides: { 0: 6000, 1: 7000, '2/1': 5200 },
+      lastVisited: '2025-01-04T00:00:00.000Z',
+      completed: false,
+    },
+  },
+  posts: {
+    functions: { scrollPercent: 40, section: 'domain', lastVisited: '2025-01-05T00:00:00.000Z', completed: false },
+  },
+});
+
+describe('progress export files', () => {
+  it('should read back an export', async () => {
+    const exported = await createProgressExport(progress(), new Date('2025-02-01T00:00:00.000Z'));
+
+    expect(exported).toMatchObject({ format: 'quiverlearn-progress', exportedAt: '2025-02-01T00:00:00.000Z' });
+    expect(await parseProgressFile(JSON.stringify(exported, null, 2))).toEqual({
+      success: true,
+      progress: progress(),
+      exportedAt: '2025-02-01T00:00:00.000Z',
+    });
+  });
+
+  it('should checksum the progress with SHA-256', async () => {
+    const checksum = await computeChecksum(progress());
+
+    expect(checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(await computeChecksum(createEmptyProgress())).not.toBe(checksum);
+  });
+
+  it('should reject edited progress', async () => {
+    const exported = await createProgressExport(progress());
+    exported.progress.posts.functions.completed = true;
+
+    expect(await readProgressExport(exported)).toEqual({ success: false, error: 'checksum-mismatch' });
+  });
+
+  it('should reject files that are not progress exports', async () => {
+    expect(await parseProgressFile('{ not json')).toEqual({ success: false, error: 'invalid-file' });
+    expect(await parseProgressFile(JSON.stringify(progress()))).toEqual({ success: false, error: 'invalid-file' });
+  });
+
+  it('should reject exports from a newer version', async () => {
+    const exported = await createProgressExport({ ...progress(), version: 99 } as unknown as LearnerProgress);
+
+    expect(await readProgressExport(exported)).toEqual({ success: false, error: 'newer-version' });
+  });
+
+  it('should migrate exports from an older version', async () => {
+    const legacy = { version: 1, presentations: progress().presentations, posts: {} };
+    const exported = await createProgressExport(legacy as unknown as LearnerProgress);
+
+    const result = await readProgressExport(exported);
+
+    expect(result.success && result.progress.version).toBe(3);
+  });
+});
+
+describe('progress transfer links', () => {
+  it('should carry an export in the fragment', async () => {
+    const fragment = await encodeProgressFragment(await createProgressExport(progress()));
+
+    expect(fragment).toMatch(/^progress=[\w-]+$/);
+    expect(await decodeProgressFragment(`#${fragment}`)).toMatchObject({ success: true, progress: progress() });
+  });
+
+  it('should not offer a link for large progress', async () => {
+    const large = progress();
+    for (let index = 0; index < 400; index++) {
+      large.posts[`post-${index}-${Math.random().toString(36).slice(2)}`] = {
+        scrollPercent: index % 100,
+        lastVisited: new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString(),
+        completed: false,
+      };
+    }
+
+    expect(await encodeProgressFragment(await createProgressExport(large))).toBeNull();
+    expect(MAX_FRAGMENT_LENGTH).toBeGreaterThan(0);
+  });
+
+  it('should ignore fragments without progress', async () => {
+    expect(await decodeProgressFragment('')).toBeNull();
+    expect(await decodeProgressFragment('#/3/1')).toBeNull();
+  });
+
+  it('should report links that cannot be checked as invalid', async () => {
+    const fragment = await encodeProgressFragment(await createProgressExport(progress()));
+    // As on plain-http pages, where crypto.subtle is unavailable
+    const digest = vi.spyOn(crypto.subtle, 'digest').mockRejectedValue(new TypeError('crypto.subtle is undefined'));
+
+    try {
+      expect(await decodeProgressFragment(`#${fragment}`)).toEqual({ success: false, error: 'invalid-file' });
+    } finally {
+      digest.mockRestore();
+    }
+  });
+
+  it('should reject damaged links', async () => {
+    expect(await decodeProgressFragment('#progress=AAAA')).toEqual({ success: false, error: 'invalid-file' });
+  });
+});
+
+describe('transfer QR codes', () => {
+  it('should draw the longest link offered', () => {
+    const url = `https://quivernets.com/en/learning/#progress=${'A'.repeat(MAX_FRAGMENT_LENGTH - 'progress='.length)}`;
+
+    expect(createTransferQrCode(url)).toMatch(/^<svg[^>]*viewBox=/);
+  });
+
+  it('should not draw links that do not fit', () => {
+    expect(createTransferQrCode(`https://quivernets.com/#${'A'.repeat(4000)}`)).toBeNull();
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Quiz Unit Tests
+ * Question schemas, answer checking, rendering and the client script
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { validateQuestion, validateQuiz } from '@/utils/quiz/schemas';
+import {
+  parseNumericAnswer,
+  checkNumericAnswer,
+  checkMultipleChoiceAnswer,
+} from '@/utils/quiz/checkAnswer';
+import {
+  renderQuestionHtml,
+  renderQuizHtml,
+  renderSlideQuizzes,
+  getQuestionKey,
+} from '@/utils/quiz/render';
+import { initQuizzes } from '@/scripts/quiz';
+import { QuizScoreStore } from '@/utils/quiz/QuizScoreStore';
+import en from '@/i18n/en.json';
+
+const labels = en.quiz;
+
+describe('Quiz schemas', () => {
+  it('should validate a multiple choice question', () => {
+    const question = validateQuestion({
+      type: 'multiple-choice',
+      prompt: 'Pick one',
+      choices: ['A', 'B'],
+      answer: 1,
+    });
+
+    expect(question.type).toBe('multiple-choice');
+  });
+
+  it('should reject an answer outside the choices', () => {
+    expect(() => validateQuestion({
+      type: 'multiple-choice',
+      prompt: 'Pick one',
+      choices: ['A', 'B'],
+      answer: 2,
+    })).toThrow();
+  });
+
+  it('should default the numeric tolerance to zero', () => {
+    const question = validateQuestion({ type: 'numeric', prompt: 'How much?', answer: 0.4 });
+
+    expect(question).toMatchObject({ type: 'numeric', tolerance: 0 });
+  });
+
+  it('should reject a negative tolerance', () => {
+    expect(() => validateQuestion({ type: 'numeric', prompt: 'How much?', answer: 1, tolerance: -1 })).toThrow();
+  });
+
+  it('should require a model answer for free-text questions', () => {
+    expect(() => validateQuestion({ type: 'free-text', prompt: 'Explain' })).toThrow();
+  });
+
+  it('should reject unknown question types', () => {
+    expect(() => validateQuestion({ type: 'essay', prompt: 'Explain', answer: 'x' })).toThrow();
+  });
+
+  it('should reject duplicate question ids in a quiz', () => {
+    expect(() => validateQuiz({
+      id: 'quiz',
+      questions: [
+        { type: 'numeric', id: 'q', prompt: 'One', answer: 1 },
+        { type: 'numeric', id: 'q', prompt: 'Two', answer: 2 },
+      ],
+    })).toThrow(/unique/);
+  });
+
+  it('should reject invalid quiz ids', () => {
+    expect(() => validateQuiz({
+      id: 'My Quiz',
+      questions: [{ type: 'numeric', prompt: 'One', answer: 1 }],
+    })).toThrow();
+  });
+});
+
+describe('parseNumericAnswer', () => {
+  it.each([
+    ['0.4', 0.4],
+    ['0,4', 0.4],
+    [' -2 ', -2],
+    ['−2', -2],
+    ['1/4', 0.25],
+    ['25%', 0.25],
+    ['1,234.5', 1234.5],
+    ['1.234,5', 1234.5],
+    ['1,000,000', 1000000],
+    ['1e-3', 0.001],
+    ['.5', 0.5],
+  ])('should parse %s', (input, expected) => {
+    expect(parseNumericAnswer(input)).toBeCloseTo(expected);
+  });
+
+  it.each(['', 'abc', '1/0', '1.2.3', '--1'])('should reject %j', (input) => {
+    expect(parseNumericAnswer(input)).toBeNull();
+  });
+});
+
+describe('checkNumericAnswer', () => {
+  it('should accept answers within the tolerance', () => {
+    const question = { answer: 0.4, tolerance: 0.01 };
+
+    expect(checkNumericAnswer(question, '0.405')).toBe('correct');
+    expect(checkNumericAnswer(question, '0.41')).toBe('correct');
+    expect(checkNumericAnswer(question, '0.42')).toBe('incorrect');
+  });
+
+  it('should absorb floating point noise with zero tolerance', () => {
+    expect(checkNumericAnswer({ answer: 0.3, tolerance: 0 }, String(0.1 + 0.2))).toBe('correct');
+  });
+
+  it('should report input that is not a number', () => {
+    expect(checkNumericAnswer({ answer: 1, tolerance: 0 }, 'one')).toBe('invalid');
+  });
+});
+
+describe('checkMultipleChoiceAnswer', () => {
+  it('should compare the selected index', () => {
+    expect(checkMultipleChoiceAnswer({ answer: 1 }, 1)).toBe('correct');
+    expect(checkMultipleChoiceAnswer({ answer: 1 }, 0)).toBe('incorrect');
+    expect(checkMultipleChoiceAnswer({ answer: 1 }, null)).toBe('invalid');
+  });
+});
+
+describe('Quiz rendering', () => {
+  it('should derive a stable key for questions without an id', () => {
+    const question = validateQuestion({ type: 'numeric', prompt: 'How much?', answer: 1 });
+
+    expect(getQuestionKey(question)).toBe(getQuestionKey({ ...question }));
+    expect(getQuestionKey(question)).toMatch(/^q-/);
+    expect(getQuestionKey({ ...question, id: 'named' })).toBe('named');
+  });
+
+  it('should escape question text', () => {
+    const html = renderQuestionHtml(
+      validateQuestion({ type: 'multiple-choice', prompt: 'Is 1 < 2?', choices: ['<yes>', 'no'], answer: 0 }),
+      { labels }
+    );
+
+    expect(html).toContain('Is 1 &lt; 2?');
+    expect(html).toContain('&lt;yes&gt;');
+    expect(html).not.toContain('<yes>');
+  });
+
+  it('should render numeric answers and tolerance as data attributes', () => {
+    const html = renderQuestionHtml(
+      validateQuestion({ type: 'numeric', id: 'step', prompt: 'x?', answer: 0.4, tolerance: 0.01, unit: 'm' }),
+      { labels }
+    );
+
+    expect(html).toContain('data-question-id="step"');
+    expect(html).toContain('data-answer="0.4"');
+    expect(html).toContain('data-tolerance="0.01"');
+    expect(html).toContain('<span class="quiz-unit">m</span>');
+  });
+
+  it('should prefer rendered prompt and explanation HTML', () => {
+    const html = renderQuestionHtml(
+      validateQuestion({ type: 'free-text', prompt: 'plain', answer: 'Because', explanation: 'plain' }),
+      { labels, promptHtml: '<p><em>rich</em></p>', explanationHtml: '<p>why</p>' }
+    );
+
+    expect(html).toContain('<em>rich</em>');
+    expect(html).toContain('<p>why</p>');
+    expect(html).toContain('data-quiz-reveal');
+  });
+
+  it('should replace quiz JSON in slides', () => {
+    const slide = `<h5>Practice</h5>
+<script type="application/json" data-quiz>
+  {"id": "practice", "questions": [{"type": "numeric", "prompt": "x?", "answer": 2}]}
+</script>`;
+
+    const html = renderSlideQuizzes(slide, '/id/presentations/deck', 'id');
+
+    expect(html).toContain('<h5>Practice</h5>');
+    expect(html).toContain('data-quiz="practice"');
+    expect(html).toContain('data-quiz-scope="/id/presentations/deck"');
+    expect(html).toContain('Periksa');
+    expect(html).not.toContain('application/json');
+  });
+
+  it('should fail on invalid quiz JSON in slides', () => {
+    const slide = '<script type="application/json" data-quiz>{"id": "practice", "questions": []}</script>';
+
+    expect(() => renderSlideQuizzes(slide, '/en/presentations/deck', 'en')).toThrow(
+      /Invalid quiz in \/en\/presentations\/deck/
+    );
+  });
+
+  it('should leave other scripts alone', () => {
+    const slide = '<script type="application/json">{"data": 1}</script>';
+
+    expect(renderSlideQuizzes(slide, '/en/presentations/deck', 'en')).toBe(slide);
+  });
+});
+
+describe('Quiz client script', () => {
+  const scope = '/en/blog/test';
+
+  const mount = () => {
+    const questions = [
+      validateQuestion({ type: 'multiple-choice', id: 'choice', prompt: 'Pick', choices: ['A', 'B'], answer: 1 }),
+      validateQuestion({ type: 'numeric', id: 'number', prompt: 'x?', answer: 0.4, tolerance: 0.001, explanation: 'Why' }),
+      validateQuestion({ type: 'free-text', id: 'text', prompt: 'Explain', answer: 'Because' }),
+    ];
+
+    document.body.innerHTML = renderQuizHtml(
+      { id: 'basics', scope, labels },
+      questions.map((question) => renderQuestionHtml(question, { labels })).join('')
+    );
+    initQuizzes();
+
+    const question = (id: string) => document.querySelector<HTMLElement>(`[data-question-id="${id}"]`)!;
+    const visibleFeedback = (id: string) =>
+      question(id).querySelector<HTMLElement>('[data-feedback]:not([hidden])')?.dataset.feedback;
+
+    return { question, visibleFeedback };
+  };
+
+  const click = (element: Element | null) => (element as HTMLElement).click();
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should check multiple choice answers and save the score', () => {
+    const { question, visibleFeedback } = mount();
+
+    click(question('choice').querySelector('[data-quiz-check]'));
+    expect(visibleFeedback('choice')).toBe('invalid');
+
+    click(question('choice').querySelector('input[value="1"]'));
+    click(question('choice').querySelector('[data-quiz-check]'));
+
+    expect(visibleFeedback('choice')).toBe('correct');
+    expect(new QuizScoreStore().getQuizScore(scope, 'basics')).toEqual({ correct: 1, answered: 1, total: 3 });
+    expect(document.querySelector('[data-quiz-score]')!.textContent).toBe('1 of 3 correct');
+  });
+
+  it('should check numeric answers with a decimal comma', () => {
+    const { question, visibleFeedback } = mount();
+    const input = question('number').querySelector<HTMLInputElement>('input.quiz-input')!;
+
+    input.value = '0,5';
+    click(question('number').querySelector('[data-quiz-check]'));
+    expect(visibleFeedback('number')).toBe('incorrect');
+
+    input.value = '0,4';
+    click(question('number').querySelector('[data-quiz-check]'));
+    expect(visibleFeedback('number')).toBe('correct');
+    expect(question('number').querySelector<HTMLElement>('[data-quiz-explanation]')!.hidden).toBe(false);
+    expect(new QuizScoreStore().load(scope, 'basics')!.answers.number.attempts).toBe(2);
+  });
+
+  it('should reveal free-text answers and record the self-assessment', () => {
+    const { question } = mount();
+
+    click(question('text').querySelector('[data-quiz-reveal]'));
+    expect(question('text').querySelector<HTMLElement>('[data-quiz-model-answer]')!.hidden).toBe(false);
+
+    click(question('text').querySelector('[data-quiz-self="incorrect"]'));
+    expect(new QuizScoreStore().getQuizScore(scope, 'basics')).toEqual({ correct: 0, answered: 1, total: 3 });
+  });
+
+  it('should restore saved results and start over on reset', () => {
+    new QuizScoreStore().recordAnswer(scope, 'basics', 'choice', true, 3);
+    const { visibleFeedback } = mount();
+
+    expect(visibleFeedback('choice')).toBe('correct');
+
+    const reset = document.querySelector<HTMLElement>('[data-quiz-reset]')!;
+    expect(reset.hidden).toBe(false);
+    reset.click();
+
+    expect(visibleFeedback('choice')).toBeUndefined();
+    expect(new QuizScoreStore().load(scope, 'basics')).toBeNull();
+    expect(reset.hidden).toBe(true);
+  });
+});
@@ -6,9 +6,31 @@ import {
 	createSearchIndex,
 	searchPosts,
 	getSearchSuggestions,
-	type SearchablePost,
+	stripHtml,
+	presentationToSearchable,
+	slideToSearchable,
+	presentationToSearchableDocuments,
+	postToSearchableDocuments,
+	createSnippet,
+	groupSearchResults,
+	searchGrouped,
+	stemEnglish,
+	stemIndonesian,
+	analyzeText,
+	normalizeText,
+	isTranslationOf,
+	searchAcrossLanguages,
+	parseSearchQuery,
+	formatQueryErrors,
+	createPassages,
+	createSearchIndexPayload,
+	createSearchIndexFromPayload,
+	restoreSearchDocuments,
+	SEARCH_INDEX_VERSION,
+	type SearchableDocument,
 } from '@/utils/search';
-import type { CollectionEntry } from 'astro:content';
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { Presentation } from '../../../src/domain/presentation/Presentation';
 
 describe('search.ts', () => {
 	describe('postToSearchable', () => {
@@ -41,6 +63,8 @@ describe('search.ts', () => {
 				pubDate: new Date('2024-01-01'),
 				slug: 'test-post',
 				language: 'en',
+				type: 'post',
+				url: '/en/blog/test-post/',
 			});
 		});
 
@@ -100,6 +124,714 @@ describe('search.ts', () => {
 		});
 	});
 
+	describe('stripHtml', () => {
+		it('should remove tags and collapse whitespace', () => {
+			const html = '<div class="p-4">\n  <h2>Cost <span>Function</span></h2>\n  <p>Minimise it</p>\n</div>';
+
+			expect(stripHtml(html)).toBe('Cost Function Minimise it');
+		});
+
+		it('should drop comments, scripts and styles', () => {
+			const html = '<!-- Slide 1 --><style>.a{}</style><p>Text</p><script>alert(1)</script>';
+
+			expect(stripHtml(html)).toBe('Text');
+		});
+
+		it('should decode common entities', () => {
+			expect(stripHtml('<p>a &lt; b &amp;&amp; c&nbsp;&gt; d</p>')).toBe('a < b && c > d');
+		});
+	});
+
+	describe('presentation documents', () => {
+		const presentation = new Presentation(
+			'linear-regression',
+			{
+				title: 'Understanding Linear Regression',
+				description: 'Fitting lines through data',
+				pubDate: '2025-10-26T00:00:00.000Z',
+				relatedBlogPost: 'linear-regression',
+				category: 'Machine Learning',
+				tags: ['regression', 'statistics'],
+				difficulty: 'intermediate',
+				language: 'en',
+				estimatedTime: 60,
+				totalSlides: 2,
+				author: 'QuiverLearn',
+			},
+			[
+				{ title: 'Opening', time: '0:00-2:30', content: '<h2>The <b>Marketing</b> Challenge</h2>' },
+				{ title: 'Cost Function', time: '2:30-4:00', content: '<p>Sum of squared errors</p>' },
+			]
+		);
+
+		it('should convert a presentation to a deck document', () => {
+			const result = presentationToSearchable(presentation, 'en');
+
+			expect(result).toEqual({
+				id: 'presentation:linear-regression',
+				type: 'presentation',
+				title: 'Understanding Linear Regression',
+				description: 'Fitting lines through data',
+				content: 'Opening Cost Function',
+				category: 'Machine Learning',
+				tags: ['regression', 'statistics'],
+				difficulty: 'intermediate',
+				pubDate: new Date('2025-10-26T00:00:00.000Z'),
+				slug: 'linear-regression',
+				language: 'en',
+				url: '/en/presentations/linear-regression/',
+				translationId: 'presentation:linear-regression',
+			});
+		});
+
+		it('should convert a slide to a deep-linked document with plain-text content', () => {
+			const result = slideToSearchable(presentation, presentation.slides[1], 'id');
+
+			expect(result.id).toBe('presentation:linear-regression#1');
+			expect(result.type).toBe('slide');
+			expect(result.title).toBe('Cost Function');
+			expect(result.content).toBe('Sum of squared errors');
+			expect(result.url).toBe('/id/presentations/linear-regression/#/1');
+			expect(result.presentationTitle).toBe('Understanding Linear Regression');
+			expect(result.slideNumber).toBe(2);
+			expect(result.language).toBe('id');
+		});
+
+		it('should produce one deck document followed by one document per slide', () => {
+			const documents = presentationToSearchableDocuments(presentation, 'en');
+
+			expect(documents.map((d) => d.type)).toEqual(['presentation', 'slide', 'slide']);
+			expect(documents[1].content).toBe('The Marketing Challenge');
+			expect(new Set(documents.map((d) => d.id)).size).toBe(documents.length);
+		});
+
+		it('should index vertical slides as their own deep-linked documents', () => {
+			const deck = new Presentation(
+				'linear-regression',
+				{ ...presentation.metadata, totalSlides: 2 },
+				[
+					{ title: 'Opening', time: '0:00-2:30', content: '<p>Marketing data</p>' },
+					{
+						title: 'Derivation',
+						time: '2:30-6:00',
+						content: '<p>Setting the gradient to zero</p>',
+						verticalSlides: [
+							{ title: 'Derivation Step 1', content: '<p>Expand the squared residuals</p>' },
+							{ title: 'Derivation Step 2', content: '<p>Differentiate with respect to the weights</p>' },
+						],
+					},
+				]
+			);
+			const documents = presentationToSearchableDocuments(deck, 'en');
+
+			expect(documents[0].content).toBe('Opening Derivation Derivation Step 1 Derivation Step 2');
+			expect(documents.slice(1).map((d) => [d.id, d.url])).toEqual([
+				['presentation:linear-regression#0', '/en/presentations/linear-regression/#/0'],
+				['presentation:linear-regression#1', '/en/presentations/linear-regression/#/1'],
+				['presentation:linear-regression#1/1', '/en/presentations/linear-regression/#/1/1'],
+				['presentation:linear-regression#1/2', '/en/presentations/linear-regression/#/1/2'],
+			]);
+			expect(documents[4]).toMatchObject({ title: 'Derivation Step 2', slideNumber: 2, parentId: 'presentation:linear-regression' });
+
+			const results = searchPosts(createSearchIndex(documents), 'squared residuals');
+			expect(results[0].item.id).toBe('presentation:linear-regression#1/1');
+		});
+
+		it('should make slides findable alongside posts', () => {
+			const post: SearchableDocument = {
+				id: 'post-1',
+				title: 'Calculus Basics',
+				description: 'Learn calculus',
+				content: 'Derivatives and integrals',
+				pubDate: new Date('2024-01-01'),
+				slug: 'post-1',
+				language: 'en',
+				type: 'post',
+				url: '/en/blog/post-1/',
+			};
+			const index = createSearchIndex([post, ...presentationToSearchableDocuments(presentation, 'en')]);
+
+			const results = searchPosts(index, 'squared errors');
+
+			expect(results[0].item.type).toBe('slide');
+			expect(results[0].item.url).toBe('/en/presentations/linear-regression/#/1');
+		});
+	});
+
+	describe('section documents', () => {
+		const post: CollectionEntry<'blog-en'> = {
+			id: 'linear-regression',
+			slug: 'linear-regression',
+			body: [
+				"import DefinitionBox from '../../components/boxes/DefinitionBox.astro';",
+				'',
+				'Imagine predicting sales from a marketing budget.',
+				'',
+				'## The Error Function',
+				'',
+				'<DefinitionBox title="Squared Error">',
+				'We minimise the sum of squared residuals between predictions and targets.',
+				'</DefinitionBox>',
+				'',
+				'## Gradient Descent',
+				'',
+				'Take small steps against the gradient until convergence.',
+			].join('\n'),
+			collection: 'blog-en',
+			data: {
+				title: 'Understanding Linear Regression',
+				description: 'Fitting lines through data',
+				category: 'Machine Learning',
+				tags: ['regression'],
+				pubDate: new Date('2024-01-01'),
+			},
+		};
+
+		it('should split a post into a lead document and heading-scoped sections', () => {
+			const documents = postToSearchableDocuments(post, 'en');
+
+			expect(documents.map((d) => d.type)).toEqual(['post', 'section', 'section']);
+			expect(documents[0].content).toBe('Imagine predicting sales from a marketing budget.');
+			expect(documents[1]).toMatchObject({
+				id: 'linear-regression#the-error-function',
+				title: 'The Error Function',
+				description: 'Understanding Linear Regression',
+				url: '/en/blog/linear-regression/#the-error-function',
+				parentId: 'linear-regression',
+				sectionId: 'the-error-function',
+				category: 'Machine Learning',
+			});
+			expect(documents[1].content).toContain('Squared Error We minimise');
+		});
+
+		it('should highlight the matched text in a snippet', () => {
+			const index = createSearchIndex(postToSearchableDocuments(post, 'en'));
+			const [result] = searchPosts(index, 'residuals');
+
+			expect(result.item.sectionId).toBe('the-error-function');
+			expect(createSnippet(result)).toContain('<mark>residuals</mark>');
+		});
+
+		it('should map normalised matches back, escape markup and trim long snippets', () => {
+			const result = {
+				item: { ...postToSearchable(post, 'en'), content: `${'a'.repeat(100)} <b>x</b> ${'z'.repeat(100)}` },
+				refIndex: 0,
+				// Normalised content is "aaa… b x b zzz…", so "x" sits at 103
+				matches: [{ key: 'content', indices: [[103, 103]] as [number, number][] }],
+			};
+
+			const snippet = createSnippet(result, 10);
+
+			expect(snippet).toMatch(/^…/);
+			expect(snippet).toMatch(/…$/);
+			expect(snippet).toContain('&lt;b&gt;<mark>x</mark>&lt;/b&gt;');
+		});
+
+		it('should fall back to the start of the content without content matches', () => {
+			const result = { item: postToSearchable(post, 'en'), refIndex: 0, matches: [] };
+
+			expect(createSnippet(result, 10)).toBe('Imagine predicting s…');
+		});
+
+		it('should group section matches under their post', () => {
+			const index = createSearchIndex([
+				...postToSearchableDocuments(post, 'en'),
+				...presentationToSearchableDocuments(
+					new Presentation(
+						'gradient-descent',
+						{
+							title: 'Gradient Descent Deck',
+							description: 'Optimisation slides',
+							pubDate: '2025-10-26T00:00:00.000Z',
+							relatedBlogPost: 'gradient-descent',
+							category: 'Machine Learning',
+							tags: [],
+							difficulty: 'intermediate',
+							language: 'en',
+							estimatedTime: 30,
+							totalSlides: 1,
+							author: 'QuiverLearn',
+						},
+						[{ title: 'Convergence', time: '0:00-1:00', content: '<p>Steps against the gradient</p>' }]
+					),
+					'en'
+				),
+			]);
+
+			const groups = searchGrouped(index, 'gradient');
+			const postGroup = groups.find((g) => g.document.id === 'linear-regression');
+			const deckGroup = groups.find((g) => g.document.id === 'presentation:gradient-descent');
+
+			expect(new Set(groups.map((g) => g.document.id)).size).toBe(groups.length);
+			expect(postGroup?.document.type).toBe('post');
+			expect(postGroup?.sections.map((s) => s.document.url)).toContain(
+				'/en/blog/linear-regression/#gradient-descent'
+			);
+			expect(deckGroup?.document.type).toBe('presentation');
+			expect(deckGroup?.sections[0].document.type).toBe('slide');
+		});
+
+		it('should build a parent entry when only a section matched', () => {
+			const [, section] = postToSearchableDocuments(post, 'en');
+
+			const [group] = groupSearchResults([{ item: section, refIndex: 1, score: 0.1, matches: [] }]);
+
+			expect(group.document).toMatchObject({
+				id: 'linear-regression',
+				type: 'post',
+				title: 'Understanding Linear Regression',
+				url: '/en/blog/linear-regression/',
+			});
+			expect(group.score).toBe(0.1);
+			expect(group.sections).toHaveLength(1);
+		});
+	});
+
+	describe('language normalisation', () => {
+		it('should stem English inflections to a shared form', () => {
+			expect(stemEnglish('computing')).toBe(stemEnglish('computed'));
+			expect(stemEnglish('compute')).toBe(stemEnglish('computes'));
+			expect(stemEnglish('fitting')).toBe('fit');
+			expect(stemEnglish('studies')).toBe('study');
+			expect(stemEnglish('boxes')).toBe('box');
+			expect(stemEnglish('focus')).toBe('focus');
+		});
+
+		it('should strip Indonesian affixes from words used in the ID posts', () => {
+			expect(stemIndonesian('meregresikan')).toBe('regresi');
+			expect(stemIndonesian('regresi')).toBe('regresi');
+			expect(stemIndonesian('menemukan')).toBe('temu');
+			expect(stemIndonesian('penjualan')).toBe('jual');
+			expect(stemIndonesian('berdasarkan')).toBe('dasar');
+			expect(stemIndonesian('kesalahan')).toBe('salah');
+			expect(stemIndonesian('perhitungan')).toBe('hitung');
+			expect(stemIndonesian('menghitung')).toBe('hitung');
+			expect(stemIndonesian('persamaan')).toBe('sama');
+			expect(stemIndonesian('fungsinya')).toBe('fungsi');
+			expect(stemIndonesian('pembelajaran')).toBe(stemIndonesian('belajar'));
+			expect(stemIndonesian('pelajaran')).toBe(stemIndonesian('belajar'));
+		});
+
+		it('should leave short Indonesian roots alone', () => {
+			expect(stemIndonesian('data')).toBe('data');
+			expect(stemIndonesian('berat')).toBe('berat');
+			expect(stemIndonesian('bobot')).toBe('bobot');
+		});
+
+		it('should drop stop words per language', () => {
+			expect(normalizeText('Menemukan Garis Terbaik untuk data yang ada', 'id')).toBe('temu garis baik data');
+			expect(normalizeText('Finding the best line for the data', 'en')).toBe('find best line data');
+		});
+
+		it('should keep the source span of each token', () => {
+			const [token] = analyzeText('Apa itu Fungsi Linear?', 'id');
+
+			expect(token).toEqual({ term: 'apa', start: 0, end: 3 });
+			expect(analyzeText('Apa itu Fungsi Linear?', 'id')[1]).toEqual({ term: 'fungsi', start: 8, end: 14 });
+		});
+
+		it('should match affixed Indonesian words from a root query', () => {
+			const doc: SearchableDocument = {
+				id: 'regresi',
+				type: 'post',
+				title: 'Model Prediksi',
+				description: 'Cara meregresikan penjualan terhadap anggaran',
+				content: '',
+				pubDate: new Date('2024-01-01'),
+				slug: 'regresi',
+				language: 'id',
+				url: '/id/blog/regresi/',
+			};
+			const index = createSearchIndex([doc]);
+
+			expect(searchPosts(index, 'regresi')).toHaveLength(1);
+			expect(searchPosts(index, 'menjual')).toHaveLength(1);
+		});
+
+		it('should find sections of the real Indonesian linear regression post', async () => {
+			const posts = await getCollection('blog-id');
+			const post = posts.find((entry) => entry.id === 'linear-regression');
+			expect(post).toBeDefined();
+
+			const index = createSearchIndex(postToSearchableDocuments(post!, 'id'), 'id');
+			const groups = searchGrouped(index, 'temukan garis terbaik');
+			const sectionIds = groups[0].sections.map((section) => section.document.sectionId);
+
+			expect(groups[0].document.id).toBe('linear-regression');
+			expect(sectionIds[0]).toBe('menemukan-garis-terbaik');
+		});
+
+		it('should find the matching section for an affixed query', async () => {
+			const posts = await getCollection('blog-id');
+			const post = posts.find((entry) => entry.id === 'linear-regression')!;
+
+			const index = createSearchIndex(postToSearchableDocuments(post, 'id'), 'id');
+			const [result] = searchPosts(index, 'selesaikan bobot optimal');
+
+			expect(result.item.sectionId).toBe('menyelesaikan-bobot-optimal');
+		});
+
+		it('should highlight the original affixed word in snippets', () => {
+			const doc: SearchableDocument = {
+				id: 'regresi#model',
+				type: 'section',
+				title: 'Model',
+				description: 'Regresi Linear',
+				content: 'Sekarang kita perlu meregresikan penjualan terhadap anggaran.',
+				pubDate: new Date('2024-01-01'),
+				slug: 'regresi',
+				language: 'id',
+				url: '/id/blog/regresi/#model',
+			};
+			const [result] = searchPosts(createSearchIndex([doc]), 'regresi');
+
+			expect(createSnippet(result)).toContain('<mark>meregresikan</mark>');
+		});
+	});
+
+	describe('cross-language search', () => {
+		const doc = (overrides: Partial<SearchableDocument>): SearchableDocument => ({
+			id: 'post',
+			type: 'post',
+			title: 'Post',
+			description: '',
+			content: '',
+			pubDate: new Date('2024-01-01'),
+			slug: 'post',
+			language: 'en',
+			url: '/en/blog/post/',
+			...overrides,
+		});
+
+		it('should link translations by translationId', () => {
+			const en = doc({ translationId: 'lr', language: 'en' });
+			const id = doc({ translationId: 'lr', language: 'id', slug: 'regresi-linear' });
+
+			expect(isTranslationOf(en, id)).toBe(true);
+			expect(isTranslationOf(en, doc({ translationId: 'other', language: 'id' }))).toBe(false);
+		});
+
+		it('should link translations by translatedVersions slugs', () => {
+			const en = doc({ slug: 'linear-regression', translatedVersions: { id: 'regresi-linear' } });
+			const id = doc({ slug: 'regresi-linear', language: 'id' });
+
+			expect(isTranslationOf(en, id)).toBe(true);
+			expect(isTranslationOf(id, en)).toBe(true);
+		});
+
+		it('should not treat documents in the same language as translations', () => {
+			expect(isTranslationOf(doc({ translationId: 'lr' }), doc({ translationId: 'lr' }))).toBe(false);
+		});
+
+		it('should return no other-language results without a second index', () => {
+			const index = createSearchIndex([doc({ title: 'Gradient Descent', language: 'id' })], 'id');
+
+			expect(searchAcrossLanguages(index, null, 'gradient').otherLanguageResults).toEqual([]);
+		});
+
+		it('should fall back to English posts missing from the Indonesian index', async () => {
+			const [enPosts, idPosts] = await Promise.all([getCollection('blog-en'), getCollection('blog-id')]);
+			const idIndex = createSearchIndex(idPosts.flatMap((post) => postToSearchableDocuments(post, 'id')), 'id');
+			const enIndex = createSearchIndex(enPosts.flatMap((post) => postToSearchableDocuments(post, 'en')), 'en');
+
+			const { results, otherLanguageResults } = searchAcrossLanguages(idIndex, enIndex, 'fundamental theorem of calculus');
+
+			expect(results.map((group) => group.document.slug)).not.toContain('fundamental-theorem-calculus');
+			expect(otherLanguageResults[0].document).toMatchObject({
+				slug: 'fundamental-theorem-calculus',
+				language: 'en',
+				url: '/en/blog/fundamental-theorem-calculus/',
+			});
+		});
+
+		it('should show a document available in both languages only once', async () => {
+			const [enPosts, idPosts] = await Promise.all([getCollection('blog-en'), getCollection('blog-id')]);
+			const idIndex = createSearchIndex(idPosts.flatMap((post) => postToSearchableDocuments(post, 'id')), 'id');
+			const enIndex = createSearchIndex(enPosts.flatMap((post) => postToSearchableDocuments(post, 'en')), 'en');
+
+			const { results, otherLanguageResults } = searchAcrossLanguages(idIndex, enIndex, 'gradient descent');
+			const translationIds = [...results, ...otherLanguageResults].map((group) => group.document.translationId);
+
+			expect(results.map((group) => group.document.slug)).toContain('gradient-descent-linear-regression');
+			expect(translationIds.filter((id) => id === 'gradient-descent-linear-regression')).toHaveLength(1);
+		});
+	});
+
+	describe('query syntax', () => {
+		describe('parseSearchQuery', () => {
+			it('should parse filters, phrases, exclusions and free text', () => {
+				const parsed = parseSearchQuery(
+					'tag:regression difficulty:beginner "cost function" -calculus type:presentation gradient'
+				);
+
+				expect(parsed).toEqual({
+					terms: ['gradient'],
+					phrases: ['cost function'],
+					exclusions: ['calculus'],
+					filters: {
+						tags: ['regression'],
+						difficulty: 'beginner',
+						types: ['presentation', 'slide'],
+					},
+					errors: [],
+				});
+			});
+
+			it('should accept quoted filter values and excluded phrases', () => {
+				const parsed = parseSearchQuery('category:"Machine Learning" -"normal equation"');
+
+				expect(parsed.filters.category).toBe('machine learning');
+				expect(parsed.exclusions).toEqual(['normal equation']);
+			});
+
+			it('should combine repeated and comma-separated tags', () => {
+				expect(parseSearchQuery('tag:a,b tags:c').filters.tags).toEqual(['a', 'b', 'c']);
+			});
+
+			it('should report malformed queries', () => {
+				const codes = (query: string) => parseSearchQuery(query).errors.map((error) => error.code);
+
+				expect(codes('"cost function')).toEqual(['unclosedQuote']);
+				expect(codes('tag:')).toEqual(['emptyFilter']);
+				expect(codes('author:me')).toEqual(['unknownFilter']);
+				expect(codes('difficulty:expert')).toEqual(['invalidFilterValue']);
+				expect(codes('type:video')).toEqual(['invalidFilterValue']);
+				expect(codes('difficulty:beginner difficulty:advanced')).toEqual(['duplicateFilter']);
+				expect(codes('-tag:calculus')).toEqual(['negatedFilter']);
+				expect(codes('gradient -')).toEqual(['emptyExclusion']);
+			});
+
+			it('should keep the offending token in errors', () => {
+				const [error] = parseSearchQuery('regression difficulty:expert').errors;
+
+				expect(error.token).toBe('difficulty:expert');
+				expect(error.message).toContain('beginner, intermediate, advanced');
+			});
+
+			it('should format errors with translated, escaped messages', () => {
+				const { errors } = parseSearchQuery('"<b>');
+				const html = formatQueryErrors(errors, {
+					unclosedQuote: 'Missing closing quote in {token}',
+					emptyFilter: '',
+					unknownFilter: '',
+					invalidFilterValue: '',
+					duplicateFilter: '',
+					negatedFilter: '',
+					emptyExclusion: '',
+				});
+
+				expect(html).toBe('<li>Missing closing quote in &quot;&lt;b&gt;</li>');
+			});
+		});
+
+		describe('searchPosts with query syntax', () => {
+			const docs: SearchableDocument[] = [
+				{
+					id: 'lr',
+					type: 'post',
+					title: 'Linear Regression',
+					description: 'Minimising the cost function',
+					content: 'We fit a line by minimising the cost function over the data.',
+					tags: ['regression', 'statistics'],
+					difficulty: 'beginner',
+					category: 'Machine Learning',
+					pubDate: new Date('2024-01-01'),
+					slug: 'lr',
+					language: 'en',
+					url: '/en/blog/lr/',
+				},
+				{
+					id: 'gd',
+					type: 'post',
+					title: 'Gradient Descent for Regression',
+					description: 'Iterative optimisation with calculus',
+					content: 'The cost of each function evaluation uses partial derivatives from calculus.',
+					tags: ['regression', 'calculus'],
+					difficulty: 'intermediate',
+					category: 'Machine Learning',
+					pubDate: new Date('2024-02-01'),
+					slug: 'gd',
+					language: 'en',
+					url: '/en/blog/gd/',
+				},
+				{
+					id: 'presentation:lr',
+					type: 'presentation',
+					title: 'Linear Regression Deck',
+					description: 'Slides on the cost function',
+					content: 'Opening Cost Function',
+					tags: ['regression'],
+					difficulty: 'beginner',
+					category: 'Machine Learning',
+					pubDate: new Date('2024-03-01'),
+					slug: 'lr',
+					language: 'en',
+					url: '/en/presentations/lr/',
+				},
+			];
+			const index = createSearchIndex(docs);
+			const ids = (query: string) => searchPosts(index, query).map((result) => result.item.id).sort();
+
+			it('should require exact phrases', () => {
+				expect(ids('"cost function"')).toEqual(['lr', 'presentation:lr']);
+			});
+
+			it('should drop documents mentioning an excluded word', () => {
+				expect(ids('regression -calculus')).toEqual(['lr', 'presentation:lr']);
+			});
+
+			it('should apply tag, difficulty and type filters', () => {
+				expect(ids('regression tag:calculus')).toEqual(['gd']);
+				expect(ids('regression difficulty:beginner')).toEqual(['lr', 'presentation:lr']);
+				expect(ids('regression type:presentation')).toEqual(['presentation:lr']);
+			});
+
+			it('should list documents for filter-only queries', () => {
+				expect(ids('tag:statistics')).toEqual(['lr']);
+				expect(ids('category:"machine learning" difficulty:intermediate')).toEqual(['gd']);
+			});
+
+			it('should combine every part of a query', () => {
+				expect(ids('tag:regression difficulty:beginner "cost function" -calculus type:presentation')).toEqual([
+					'presentation:lr',
+				]);
+			});
+
+			it('should return nothing for malformed queries', () => {
+				expect(searchPosts(index, 'difficulty:expert regression')).toEqual([]);
+			});
+		});
+	});
+
+	describe('prebuilt index', () => {
+		const loadIdDocuments = async () =>
+			(await getCollection('blog-id')).flatMap((post) => postToSearchableDocuments(post, 'id'));
+
+		// Serialise like the endpoint does so dates and undefined fields behave as in the browser
+		const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+		it('should split content into passages at sentence boundaries', () => {
+			const content = 'Gradient descent takes small steps. Each step follows the slope downhill. It stops near the minimum.';
+			const passages = createPassages(content, 'en', 40);
+
+			expect(passages.map(([, text]) => text)).toEqual([
+				'Gradient descent takes small steps.',
+				'Each step follows the slope downhill.',
+				'It stops near the minimum.',
+			]);
+		});
+
+		it('should key passages by their first term in the normalised content', () => {
+			const content = 'Gradient descent takes small steps. Each step follows the slope downhill. It stops near the minimum.';
+			const normalized = normalizeText(content, 'en');
+
+			for (const [offset, text] of createPassages(content, 'en', 40)) {
+				expect(normalized.slice(offset)).toMatch(new RegExp(`^${normalizeText(text, 'en').split(' ')[0]}\\b`));
+			}
+		});
+
+		it('should keep only a short excerpt of long passages', () => {
+			const content = 'word '.repeat(100).trim() + '.';
+			const [[offset, text]] = createPassages(content, 'en', 200, 50);
+
+			expect(offset).toBe(0);
+			expect(text.length).toBeLessThanOrEqual(51);
+			expect(text.endsWith('…')).toBe(true);
+		});
+
+		it('should not ship document bodies or repeat parent fields on sections', async () => {
+			const payload = createSearchIndexPayload(await loadIdDocuments(), 'id');
+			const section = payload.documents.find((doc) => doc.type === 'section')!;
+			const parent = payload.documents.find((doc) => doc.id === section.parentId)!;
+
+			expect(payload.version).toBe(SEARCH_INDEX_VERSION);
+			expect(payload.documents.every((doc) => !('content' in doc))).toBe(true);
+			expect(section.passages?.length).toBeGreaterThan(0);
+			expect(section).not.toHaveProperty('tags');
+			expect(parent.tags?.length).toBeGreaterThan(0);
+		});
+
+		it('should restore inherited fields from the parent document', async () => {
+			const documents = await loadIdDocuments();
+			const restored = restoreSearchDocuments(createSearchIndexPayload(documents, 'id'));
+
+			restored.forEach((doc, i) => {
+				expect(doc).toMatchObject({
+					id: documents[i].id,
+					tags: documents[i].tags,
+					category: documents[i].category,
+					language: 'id',
+					translationId: documents[i].translationId,
+					content: '',
+				});
+			});
+		});
+
+		it('should return the same results as an index built in the browser', async () => {
+			const documents = await loadIdDocuments();
+			const built = createSearchIndex(roundTrip(documents), 'id');
+			const prebuilt = createSearchIndexFromPayload(roundTrip(createSearchIndexPayload(documents, 'id')));
+
+			for (const query of ['regresi', 'turunan parsial', 'tag:machine-learning bobot', '"garis terbaik"']) {
+				const expected = searchPosts(built, query).map((r) => [r.item.id, r.score]);
+				const actual = searchPosts(prebuilt, query).map((r) => [r.item.id, r.score]);
+
+				expect(actual).toEqual(expected);
+			}
+		});
+
+		it('should apply exclusions to the whole body, not only the passages', () => {
+			const documents: SearchableDocument[] = ['plain', 'noisy'].map((id) => ({
+				id,
+				type: 'post',
+				title: 'Gradient Descent',
+				description: 'Stepping downhill',
+				// Past the excerpt kept in each passage
+				content: `Each step follows the slope of the cost towards its minimum value, ${
+					'and then another step follows it, '.repeat(3)
+				}so the ${id === 'noisy' ? 'error' : 'cost'} shrinks.`,
+				pubDate: new Date('2024-01-01'),
+				slug: id,
+				language: 'en',
+				url: `/en/blog/${id}/`,
+			}));
+			const payload = roundTrip(createSearchIndexPayload(documents, 'en'));
+			const prebuilt = createSearchIndexFromPayload(payload);
+
+			expect(payload.documents.some((doc) => doc.passages?.some(([, text]) => text.includes('error')))).toBe(false);
+			expect(searchPosts(prebuilt, 'gradient -error').map((r) => r.item.id)).toEqual(['plain']);
+			expect(searchPosts(prebuilt, 'gradient -"error shrinks"').map((r) => r.item.id)).toEqual(['plain']);
+		});
+
+		it('should apply exclusions like an index built in the browser', async () => {
+			const documents = await loadIdDocuments();
+			const built = createSearchIndex(roundTrip(documents), 'id');
+			const prebuilt = createSearchIndexFromPayload(roundTrip(createSearchIndexPayload(documents, 'id')));
+
+			for (const query of ['regresi -galat', 'data -error', 'gradien -turunan']) {
+				const expected = searchPosts(built, query).map((r) => r.item.id);
+
+				expect(searchPosts(prebuilt, query).map((r) => r.item.id)).toEqual(expected);
+			}
+		});
+
+		it('should highlight snippets from passages', async () => {
+			const prebuilt = createSearchIndexFromPayload(roundTrip(createSearchIndexPayload(await loadIdDocuments(), 'id')));
+			const groups = searchGrouped(prebuilt, 'regresi');
+			const snippets = groups.flatMap((group) => [group.snippet, ...group.sections.map((s) => s.snippet)]);
+
+			expect(snippets.some((snippet) => /<mark>\w*regres\w*<\/mark>/i.test(snippet))).toBe(true);
+		});
+
+		it('should reject payloads from another index version', () => {
+			const payload = createSearchIndexPayload([], 'en');
+
+			expect(() => createSearchIndexFromPayload({ ...payload, version: SEARCH_INDEX_VERSION + 1 })).toThrow(
+				/Unsupported search index version/
+			);
+		});
+	});
+
 	describe('fuseOptions', () => {
 		it('should have correct search keys with weights', () => {
 			expect(fuseOptions.keys).toHaveLength(5);
@@ -118,13 +850,13 @@ describe('search.ts', () => {
 			expect(fuseOptions.includeScore).toBe(true);
 			expect(fuseOptions.includeMatches).toBe(true);
 			expect(fuseOptions.ignoreLocation).toBe(true);
-			expect(fuseOptions.useExtendedSearch).toBe(false);
+			expect(fuseOptions.useExtendedSearch).toBe(true);
 		});
 	});
 
 	describe('createSearchIndex', () => {
 		it('should create a Fuse instance with provided posts', () => {
-			const posts: SearchablePost[] = [
+			const posts: SearchableDocument[] = [
 				{
 					id: 'post-1',
 					title: 'First Post',
@@ -133,6 +865,8 @@ describe('search.ts', () => {
 					pubDate: new Date('2024-01-01'),
 					slug: 'post-1',
 					language: 'en',
+					type: 'post',
+					url: '/en/blog/post-1/',
 				},
 			];
 
@@ -148,7 +882,7 @@ describe('search.ts', () => {
 		});
 
 		it('should allow searching on created index', () => {
-			const posts: SearchablePost[] = [
+			const posts: SearchableDocument[] = [
 				{
 					id: 'post-1',
 					title: 'Calculus Basics',
@@ -157,6 +891,8 @@ describe('search.ts', () => {
 					pubDate: new Date('2024-01-01'),
 					slug: 'post-1',
 					language: 'en',
+					type: 'post',
+					url: '/en/blog/post-1/',
 				},
 			];
 
@@ -169,8 +905,8 @@ describe('search.ts', () => {
 	});
 
 	describe('searchPosts', () => {
-		let searchIndex: Fuse<SearchablePost>;
-		let posts: SearchablePost[];
+		let searchIndex: Fuse<SearchableDocument>;
+		let posts: SearchableDocument[];
 
 		beforeEach(() => {
 			posts = [
@@ -184,6 +920,8 @@ describe('search.ts', () => {
 					pubDate: new Date('2024-01-01'),
 					slug: 'intro-calculus',
 					language: 'en',
+					type: 'post',
+					url: '/en/blog/intro-calculus/',
 				},
 				{
 					id: 'post-2',
@@ -195,6 +933,8 @@ describe('search.ts', () => {
 					pubDate: new Date('2024-01-02'),
 					slug: 'advanced-algebra',
 					language: 'en',
+					type: 'post',
+					url: '/en/blog/advanced-algebra/',
 				},
 				{
 					id: 'post-3',
@@ -206,6 +946,8 @@ describe('search.ts', () => {
 					pubDate: new Date('2024-01-03'),
 					slug: 'js-basics',
 					language: 'en',
+					type: 'post',
+					url: '/en/blog/js-basics/',
 				},
 			];
 			searchIndex = createSearchIndex(posts);
@@ -277,8 +1019,8 @@ describe('search.ts', () => {
 	});
 
 	describe('getSearchSuggestions', () => {
-		let searchIndex: Fuse<SearchablePost>;
-		let posts: SearchablePost[];
+		let searchIndex: Fuse<SearchableDocument>;
+		let posts: SearchableDocument[];
 
 		beforeEach(() => {
 			posts = [
@@ -290,6 +1032,8 @@ describe('search.ts', () => {
 					pubDate: new Date('2024-01-01'),
 					slug: 'intro-calculus',
 					language: 'en',
+					type: 'post',
+					url: '/en/blog/intro-calculus/',
 				},
 				{
 					id: 'post-2',
@@ -299,6 +1043,8 @@ describe('search.ts', () => {
 					pubDate: new Date('2024-01-02'),
 					slug: 'advanced-calculus',
 					language: 'en',
+					type: 'post',
+					url: '/en/blog/advanced-calculus/',
 				},
 				{
 					id: 'post-3',
@@ -308,6 +1054,8 @@ describe('search.ts', () => {
 					pubDate: new Date('2024-01-03'),
 					slug: 'calculus-apps',
 					language: 'en',
+					type: 'post',
+					url: '/en/blog/calculus-apps/',
 				},
 			];
 			searchIndex = createSearchIndex(posts);